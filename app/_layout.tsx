@@ -8,6 +8,7 @@ import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import "react-native-reanimated";
 
+import { AnalysisEngineProvider } from "@/hooks/useAnalysisEngine";
 import { useColorScheme } from "@/hooks/useColorScheme";
 
 export default function RootLayout() {
@@ -23,10 +24,19 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="index" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
+      <AnalysisEngineProvider>
+        <Stack>
+          <Stack.Screen name="index" options={{ headerShown: false }} />
+          <Stack.Screen name="metrics" options={{ title: "Model Metrics" }} />
+          <Stack.Screen name="dataset" options={{ title: "Training Data" }} />
+          <Stack.Screen name="import" options={{ title: "Import Dataset" }} />
+          <Stack.Screen name="history" options={{ title: "History" }} />
+          <Stack.Screen name="batch" options={{ title: "Batch Analysis" }} />
+          <Stack.Screen name="settings" options={{ title: "API Settings" }} />
+          <Stack.Screen name="aspects" options={{ title: "Aspects" }} />
+          <Stack.Screen name="+not-found" />
+        </Stack>
+      </AnalysisEngineProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
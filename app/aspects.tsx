@@ -0,0 +1,318 @@
+import { DEFAULT_ASPECT_DICTIONARY } from "@/constants/Aspects";
+import { useAnalysisEngine } from "@/hooks/useAnalysisEngine";
+import { AspectDefinition, AspectMode } from "@/types/types";
+import { parseAspectTerms, upsertAspectDefinition } from "@/utils/aspects";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const ASPECT_MODE_OPTIONS: {
+  value: AspectMode;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    value: "off",
+    label: "Off",
+    hint: "Results carry a single document-level verdict.",
+  },
+  {
+    value: "dictionary",
+    label: "Dictionary",
+    hint: "Aspects below are found by their terms, and each mentioning clause is scored by the active engine.",
+  },
+  {
+    value: "llm",
+    label: "LLM provider",
+    hint: "The API provider names the aspects itself. The DIY model, simulations and classification endpoints fall back to the dictionary.",
+  },
+];
+
+const AspectsScreen: React.FC = () => {
+  const { aspectSettings, setAspectSettings } = useAnalysisEngine();
+  const { mode, dictionary } = aspectSettings;
+  const [aspectName, setAspectName] = useState<string>("");
+  const [termsInput, setTermsInput] = useState<string>("");
+
+  const terms = parseAspectTerms(termsInput);
+  const canSave = Boolean(aspectName.trim()) && terms.length > 0;
+  const activeMode = ASPECT_MODE_OPTIONS.find(
+    (option) => option.value === mode
+  );
+
+  const updateDictionary = (items: AspectDefinition[]): void => {
+    setAspectSettings({ ...aspectSettings, dictionary: items });
+  };
+
+  // Dictionary handlers
+  const handleEditPress = (aspect: AspectDefinition): void => {
+    setAspectName(aspect.name);
+    setTermsInput(aspect.terms.join(", "));
+  };
+
+  const handleSavePress = (): void => {
+    if (!canSave) return;
+
+    updateDictionary(upsertAspectDefinition(dictionary, aspectName, terms));
+    setAspectName("");
+    setTermsInput("");
+  };
+
+  const handleDeletePress = (aspect: AspectDefinition): void => {
+    Alert.alert("Delete aspect", `Delete "${aspect.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () =>
+          updateDictionary(
+            dictionary.filter((current) => current.id !== aspect.id)
+          ),
+      },
+    ]);
+  };
+
+  const handleRestorePress = (): void => {
+    Alert.alert(
+      "Restore defaults",
+      "Replace your aspect dictionary with the starter set?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          style: "destructive",
+          onPress: () => updateDictionary(DEFAULT_ASPECT_DICTIONARY),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Mode */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="layers" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Aspect Mode</Text>
+          </View>
+          <View style={styles.chipRow}>
+            {ASPECT_MODE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                onPress={() =>
+                  setAspectSettings({ ...aspectSettings, mode: option.value })
+                }
+                style={[
+                  styles.chip,
+                  mode === option.value && styles.activeChip,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    mode === option.value && styles.activeChipText,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {activeMode && <Text style={styles.hint}>{activeMode.hint}</Text>}
+        </View>
+
+        {/* Dictionary */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="book" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Aspect Dictionary</Text>
+            <TouchableOpacity
+              onPress={handleRestorePress}
+              style={styles.headerAction}
+            >
+              <Text style={styles.linkText}>Restore defaults</Text>
+            </TouchableOpacity>
+          </View>
+          {dictionary.length === 0 && (
+            <Text style={styles.hint}>No aspects defined yet.</Text>
+          )}
+          {dictionary.map((aspect) => (
+            <View key={aspect.id} style={styles.aspectRow}>
+              <TouchableOpacity
+                onPress={() => handleEditPress(aspect)}
+                style={styles.aspectBody}
+              >
+                <Text style={styles.aspectName}>{aspect.name}</Text>
+                <Text style={styles.label}>{aspect.terms.join(", ")}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeletePress(aspect)}>
+                <Ionicons name="trash" size={16} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <Text style={[styles.label, styles.formLabel]}>Aspect name</Text>
+          <TextInput
+            value={aspectName}
+            onChangeText={setAspectName}
+            placeholder="e.g. Battery"
+            style={styles.input}
+          />
+          <Text style={styles.label}>Terms (comma-separated)</Text>
+          <TextInput
+            value={termsInput}
+            onChangeText={setTermsInput}
+            placeholder="e.g. battery, battery life, charging"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+          <Text style={styles.hint}>
+            Terms match whole words and their plurals. Saving under an existing
+            name replaces its terms.
+          </Text>
+          <TouchableOpacity
+            onPress={handleSavePress}
+            disabled={!canSave}
+            style={[styles.saveButton, !canSave && styles.disabledButton]}
+          >
+            <Ionicons name="checkmark" size={16} color="white" />
+            <Text style={styles.saveButtonText}>Save aspect</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  headerAction: {
+    marginLeft: "auto",
+  },
+  linkText: {
+    fontSize: 12,
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  label: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  formLabel: {
+    marginTop: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 20,
+  },
+  activeChip: {
+    borderColor: "#3B82F6",
+    backgroundColor: "#EFF6FF",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  activeChipText: {
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  aspectRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  aspectBody: {
+    flex: 1,
+  },
+  aspectName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3B82F6",
+    marginTop: 12,
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
+
+export default AspectsScreen;
@@ -0,0 +1,668 @@
+import { useAnalysisEngine } from "@/hooks/useAnalysisEngine";
+import { useTrainingData } from "@/hooks/useTrainingData";
+import {
+  AnalysisEngine,
+  BatchRow,
+  SENTIMENT_TYPES,
+  SentimentType,
+} from "@/types/types";
+import { runAnalysis } from "@/utils/analysis";
+import { describeAspectSettings } from "@/utils/aspects";
+import { describeEmotionMode, getNextEmotionMode } from "@/utils/emotions";
+import {
+  createBatchRows,
+  getBatchHistoryDrafts,
+  parseBatchInput,
+  runBatch,
+  summarizeBatch,
+} from "@/utils/batch";
+import { runComparison } from "@/utils/comparison";
+import { addHistoryEntries } from "@/utils/history";
+import {
+  getSentimentColor,
+  handleAnalysisError,
+  showErrorAlert,
+} from "@/utils/utils";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const BatchScreen: React.FC = () => {
+  const {
+    activeEngine,
+    setActiveEngine,
+    apiKey,
+    providerConfig,
+    modelOptions,
+    aspectSettings,
+    emotionMode,
+    setEmotionMode,
+  } = useAnalysisEngine();
+  const { trainingData } = useTrainingData();
+  const [input, setInput] = useState<string>("");
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState<boolean>(false);
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const texts = useMemo(() => parseBatchInput(input), [input]);
+  const summary = useMemo(() => summarizeBatch(rows), [rows]);
+  const processed = rows.filter((row) => row.status !== "pending").length;
+
+  // Batch handlers
+  const handleRunPress = async (): Promise<void> => {
+    const initialRows = createBatchRows(texts);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setRows(initialRows);
+    setRunning(true);
+
+    const results = await runBatch(
+      initialRows,
+      async (text, onWarning) => {
+        const options = {
+          apiKey,
+          providerConfig,
+          modelOptions,
+          trainingData,
+          aspectSettings,
+          emotionMode,
+          onFallback: (message: string) =>
+            onWarning(`${message}. Used fallback analysis.`),
+          signal: controller.signal,
+        };
+
+        if (!compareMode) {
+          return { outcome: await runAnalysis(text, activeEngine, options) };
+        }
+
+        // In compare mode the API verdict is the primary outcome.
+        const comparison = await runComparison(text, options);
+        return {
+          outcome: comparison.api,
+          compareOutcome: comparison.model,
+        };
+      },
+      {
+        signal: controller.signal,
+        onRowUpdate: (row) =>
+          setRows((current) =>
+            current.map((existing) =>
+              existing.index === row.index ? row : existing
+            )
+          ),
+      }
+    );
+
+    abortControllerRef.current = null;
+    setRunning(false);
+
+    try {
+      await addHistoryEntries(getBatchHistoryDrafts(results, activeEngine));
+    } catch (error) {
+      showErrorAlert(
+        "Not saved",
+        handleAnalysisError(error, "Could not save the batch to history")
+      );
+    }
+  };
+
+  const handleAspectsPress = (): void => {
+    router.push("/aspects");
+  };
+
+  const handleCancelPress = (): void => {
+    abortControllerRef.current?.abort();
+  };
+
+  const renderSentimentBadge = (sentiment: SentimentType) => (
+    <View
+      style={[
+        styles.sentimentBadge,
+        { backgroundColor: `${getSentimentColor(sentiment)}20` },
+      ]}
+    >
+      <Text
+        style={[styles.sentimentText, { color: getSentimentColor(sentiment) }]}
+      >
+        {sentiment.toUpperCase()}
+      </Text>
+    </View>
+  );
+
+  const renderStatus = (row: BatchRow) => {
+    if (row.status === "done" && row.outcome && row.compareOutcome) {
+      const agree =
+        row.outcome.result.sentiment === row.compareOutcome.result.sentiment;
+      return (
+        <View style={styles.compareStatus}>
+          {renderSentimentBadge(row.outcome.result.sentiment)}
+          {renderSentimentBadge(row.compareOutcome.result.sentiment)}
+          <Ionicons
+            name={agree ? "checkmark-circle" : "close-circle"}
+            size={14}
+            color={agree ? "#10B981" : "#EF4444"}
+          />
+        </View>
+      );
+    }
+
+    if (row.status === "done" && row.outcome) {
+      const { sentiment, confidence } = row.outcome.result;
+      return (
+        <>
+          {renderSentimentBadge(sentiment)}
+          <Text style={styles.confidenceText}>
+            {(confidence * 100).toFixed(0)}%
+          </Text>
+        </>
+      );
+    }
+
+    if (row.status === "error") {
+      return <Text style={styles.errorStatus}>Failed</Text>;
+    }
+
+    if (row.status === "cancelled") {
+      return <Text style={styles.mutedStatus}>Cancelled</Text>;
+    }
+
+    return running ? (
+      <ActivityIndicator size="small" color="#9CA3AF" />
+    ) : (
+      <Text style={styles.mutedStatus}>Pending</Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Input */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="list" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Batch Input</Text>
+          </View>
+          <TextInput
+            value={input}
+            onChangeText={setInput}
+            placeholder={
+              "One text per line, or paste a list:\n- Great support team\n- Delivery took three weeks"
+            }
+            multiline
+            editable={!running}
+            style={styles.textInput}
+            textAlignVertical="top"
+          />
+          <TouchableOpacity
+            onPress={handleAspectsPress}
+            disabled={running}
+            style={styles.aspectSummary}
+          >
+            <Text style={styles.aspectSummaryText} numberOfLines={1}>
+              {describeAspectSettings(aspectSettings)}
+            </Text>
+            <Ionicons name="layers" size={14} color="#3B82F6" />
+            <Text style={styles.aspectSummaryLink}>Aspects</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setEmotionMode(getNextEmotionMode(emotionMode))}
+            disabled={running}
+            style={styles.aspectSummary}
+          >
+            <Text style={styles.aspectSummaryText} numberOfLines={1}>
+              {describeEmotionMode(emotionMode)}
+            </Text>
+            <Ionicons name="happy" size={14} color="#3B82F6" />
+            <Text style={styles.aspectSummaryLink}>Switch</Text>
+          </TouchableOpacity>
+          <View style={styles.chipRow}>
+            {(
+              [
+                { value: "api", label: "Quick API" },
+                { value: "model", label: "DIY Model" },
+              ] as { value: AnalysisEngine; label: string }[]
+            ).map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                onPress={() => {
+                  setActiveEngine(option.value);
+                  setCompareMode(false);
+                }}
+                disabled={running}
+                style={[
+                  styles.chip,
+                  !compareMode &&
+                    activeEngine === option.value &&
+                    styles.activeChip,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    !compareMode &&
+                      activeEngine === option.value &&
+                      styles.activeChipText,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              onPress={() => setCompareMode(true)}
+              disabled={running}
+              style={[styles.chip, compareMode && styles.activeChip]}
+            >
+              <Text
+                style={[styles.chipText, compareMode && styles.activeChipText]}
+              >
+                Compare Both
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {running ? (
+            <TouchableOpacity
+              onPress={handleCancelPress}
+              style={[styles.runButton, styles.cancelButton]}
+            >
+              <Ionicons name="stop" size={16} color="white" />
+              <Text style={styles.runButtonText}>
+                Cancel ({processed}/{rows.length})
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={handleRunPress}
+              disabled={texts.length === 0}
+              style={[
+                styles.runButton,
+                texts.length === 0 && styles.disabledButton,
+              ]}
+            >
+              <Ionicons name="play" size={16} color="white" />
+              <Text style={styles.runButtonText}>
+                Analyze {texts.length} {texts.length === 1 ? "item" : "items"}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {rows.length > 0 && (
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${(processed / rows.length) * 100}%` },
+                ]}
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Summary */}
+        {summary.completed > 0 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="pie-chart" size={20} color="#3B82F6" />
+              <Text style={styles.cardTitle}>Summary</Text>
+            </View>
+            {SENTIMENT_TYPES.map((sentiment) => (
+              <View key={sentiment} style={styles.distributionRow}>
+                <Text style={styles.distributionLabel}>{sentiment}</Text>
+                <View style={styles.distributionTrack}>
+                  <View
+                    style={[
+                      styles.distributionFill,
+                      {
+                        width: `${
+                          (summary.distribution[sentiment] /
+                            summary.completed) *
+                          100
+                        }%`,
+                        backgroundColor: getSentimentColor(sentiment),
+                      },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.distributionValue}>
+                  {summary.distribution[sentiment]}
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.summaryText}>
+              Mean confidence {(summary.meanConfidence * 100).toFixed(1)}% ·{" "}
+              {summary.completed} analysed · {summary.failed} failed
+            </Text>
+            {summary.agreement && (
+              <Text style={styles.summaryText}>
+                API vs DIY agreement{" "}
+                {(summary.agreement.agreementRate * 100).toFixed(1)}% ·
+                Cohen&apos;s κ {summary.agreement.kappa.toFixed(2)} (n ={" "}
+                {summary.agreement.total})
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Aspects */}
+        {summary.aspects.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="layers" size={20} color="#3B82F6" />
+              <Text style={styles.cardTitle}>Aspects</Text>
+            </View>
+            {summary.aspects.map((rollup) => (
+              <View key={rollup.aspect} style={styles.aspectRow}>
+                <View style={styles.aspectHeader}>
+                  <Text style={styles.aspectName}>{rollup.aspect}</Text>
+                  <Text style={styles.aspectMeta}>
+                    {rollup.mentions}{" "}
+                    {rollup.mentions === 1 ? "mention" : "mentions"} ·{" "}
+                    {(rollup.meanConfidence * 100).toFixed(0)}%
+                  </Text>
+                </View>
+                <View style={styles.aspectTrack}>
+                  {SENTIMENT_TYPES.map((sentiment) => (
+                    <View
+                      key={sentiment}
+                      style={{
+                        flex: rollup.distribution[sentiment],
+                        backgroundColor: getSentimentColor(sentiment),
+                      }}
+                    />
+                  ))}
+                </View>
+                <Text style={styles.aspectMeta}>
+                  {SENTIMENT_TYPES.map(
+                    (sentiment) =>
+                      `${rollup.distribution[sentiment]} ${sentiment}`
+                  ).join(" · ")}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Results */}
+        {rows.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="grid" size={20} color="#3B82F6" />
+              <Text style={styles.cardTitle}>Results</Text>
+            </View>
+            {rows.map((row) => (
+              <View key={row.index} style={styles.resultRow}>
+                <Text style={styles.rowIndex}>{row.index + 1}</Text>
+                <View style={styles.rowBody}>
+                  <Text style={styles.rowText} numberOfLines={2}>
+                    {row.text}
+                  </Text>
+                  {row.error && (
+                    <Text style={styles.rowError}>{row.error}</Text>
+                  )}
+                  {row.warning && (
+                    <Text style={styles.rowWarning}>{row.warning}</Text>
+                  )}
+                </View>
+                <View style={styles.rowStatus}>{renderStatus(row)}</View>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    minHeight: 140,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+  },
+  activeChip: {
+    borderColor: "#3B82F6",
+    backgroundColor: "#EFF6FF",
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  activeChipText: {
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  runButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3B82F6",
+  },
+  cancelButton: {
+    backgroundColor: "#EF4444",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  runButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#E5E7EB",
+    marginTop: 12,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: "#3B82F6",
+  },
+  distributionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  distributionLabel: {
+    width: 64,
+    fontSize: 12,
+    color: "#374151",
+    textTransform: "capitalize",
+  },
+  distributionTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E5E7EB",
+    overflow: "hidden",
+  },
+  distributionFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  distributionValue: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F2937",
+    textAlign: "right",
+  },
+  summaryText: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 12,
+  },
+  aspectSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginBottom: 12,
+  },
+  aspectSummaryText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  aspectSummaryLink: {
+    fontSize: 12,
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  aspectRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  aspectHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  aspectName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  aspectMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  aspectTrack: {
+    flexDirection: "row",
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E5E7EB",
+    overflow: "hidden",
+    marginVertical: 6,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  rowIndex: {
+    width: 24,
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+  rowBody: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  rowError: {
+    fontSize: 11,
+    color: "#EF4444",
+    marginTop: 2,
+  },
+  rowWarning: {
+    fontSize: 11,
+    color: "#B45309",
+    marginTop: 2,
+  },
+  rowStatus: {
+    flexDirection: "row",
+    alignItems: "center",
+    minWidth: 96,
+    justifyContent: "flex-end",
+  },
+  compareStatus: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  sentimentBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 20,
+  },
+  sentimentText: {
+    fontSize: 10,
+    fontWeight: "600",
+  },
+  confidenceText: {
+    width: 36,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F2937",
+    textAlign: "right",
+  },
+  errorStatus: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#EF4444",
+  },
+  mutedStatus: {
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+});
+
+export default BatchScreen;
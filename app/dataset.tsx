@@ -0,0 +1,668 @@
+import { useTrainingData } from "@/hooks/useTrainingData";
+import {
+  DatasetFormat,
+  DatasetItem,
+  SENTIMENT_TYPES,
+  SentimentType,
+} from "@/types/types";
+import { serializeDataset } from "@/utils/datasetIO";
+import { shareTextFile } from "@/utils/files";
+import {
+  createDatasetItem,
+  getClassBalance,
+  searchTrainingData,
+} from "@/utils/trainingData";
+import {
+  getSentimentColor,
+  handleAnalysisError,
+  showErrorAlert,
+} from "@/utils/utils";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const DEFAULT_CONFIDENCE = 0.9;
+
+const DatasetScreen: React.FC = () => {
+  const { trainingData, loading, updateTrainingData, restoreSeed } =
+    useTrainingData();
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [filter, setFilter] = useState<SentimentType | "all">("all");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState<string>("");
+  const [draftSentiment, setDraftSentiment] =
+    useState<SentimentType>("positive");
+  const [draftConfidence, setDraftConfidence] =
+    useState<number>(DEFAULT_CONFIDENCE);
+
+  const classBalance = useMemo(
+    () => getClassBalance(trainingData),
+    [trainingData]
+  );
+  const visibleItems = useMemo(
+    () => searchTrainingData(trainingData, searchQuery, filter),
+    [trainingData, searchQuery, filter]
+  );
+
+  const largestClass = Math.max(...Object.values(classBalance), 1);
+  const smallestClass = Math.min(...Object.values(classBalance));
+  const isSkewed = smallestClass === 0 || largestClass / smallestClass > 2;
+
+  // Form handlers
+  const resetDraft = (): void => {
+    setEditingId(null);
+    setDraftText("");
+    setDraftSentiment("positive");
+    setDraftConfidence(DEFAULT_CONFIDENCE);
+  };
+
+  const handleSavePress = async (): Promise<void> => {
+    if (!draftText.trim()) return;
+
+    const draft = {
+      text: draftText,
+      sentiment: draftSentiment,
+      confidence: draftConfidence,
+    };
+
+    if (editingId) {
+      await updateTrainingData(
+        trainingData.map((item) =>
+          item.id === editingId
+            ? { ...createDatasetItem(draft), id: item.id }
+            : item
+        )
+      );
+    } else {
+      await updateTrainingData([createDatasetItem(draft), ...trainingData]);
+    }
+
+    resetDraft();
+  };
+
+  const handleEditPress = (item: DatasetItem): void => {
+    setEditingId(item.id);
+    setDraftText(item.text);
+    setDraftSentiment(item.sentiment);
+    setDraftConfidence(item.confidence);
+  };
+
+  const handleConfidenceChange = (delta: number): void => {
+    setDraftConfidence(
+      Math.min(
+        Math.max(Math.round((draftConfidence + delta) * 100) / 100, 0),
+        1
+      )
+    );
+  };
+
+  // List handlers
+  const handleRelabelPress = async (item: DatasetItem): Promise<void> => {
+    const nextSentiment =
+      SENTIMENT_TYPES[
+        (SENTIMENT_TYPES.indexOf(item.sentiment) + 1) % SENTIMENT_TYPES.length
+      ];
+
+    await updateTrainingData(
+      trainingData.map((current) =>
+        current.id === item.id
+          ? { ...current, sentiment: nextSentiment }
+          : current
+      )
+    );
+  };
+
+  const handleDeletePress = (item: DatasetItem): void => {
+    Alert.alert("Delete example", `Remove "${item.text}" from the dataset?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          if (editingId === item.id) resetDraft();
+          await updateTrainingData(
+            trainingData.filter((current) => current.id !== item.id)
+          );
+        },
+      },
+    ]);
+  };
+
+  // Import / export handlers
+  const handleImportPress = (): void => {
+    router.push("/import");
+  };
+
+  const handleExportPress = async (format: DatasetFormat): Promise<void> => {
+    try {
+      await shareTextFile(
+        `training-data.${format}`,
+        serializeDataset(trainingData, format),
+        format === "csv" ? "text/csv" : "application/jsonl"
+      );
+    } catch (error) {
+      showErrorAlert(
+        "Export Error",
+        handleAnalysisError(error, "Could not export dataset")
+      );
+    }
+  };
+
+  const handleRestorePress = (): void => {
+    Alert.alert(
+      "Restore seed data",
+      "This replaces the current dataset with the original examples.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          style: "destructive",
+          onPress: async () => {
+            resetDraft();
+            await restoreSeed();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator color="#8B5CF6" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Class Balance */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="pie-chart" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>
+              Class Balance ({trainingData.length} examples)
+            </Text>
+          </View>
+          {SENTIMENT_TYPES.map((sentiment) => (
+            <View key={sentiment} style={styles.balanceRow}>
+              <Text style={styles.balanceLabel}>{sentiment}</Text>
+              <View style={styles.balanceTrack}>
+                <View
+                  style={[
+                    styles.balanceFill,
+                    {
+                      width: `${
+                        (classBalance[sentiment] / largestClass) * 100
+                      }%`,
+                      backgroundColor: getSentimentColor(sentiment),
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.balanceValue}>{classBalance[sentiment]}</Text>
+            </View>
+          ))}
+          {isSkewed && (
+            <Text style={styles.warningText}>
+              ⚠️ Classes are imbalanced; the model will lean towards the largest
+              class.
+            </Text>
+          )}
+        </View>
+
+        {/* Import / Export */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="swap-vertical" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>Import / Export</Text>
+          </View>
+          <View style={styles.formActions}>
+            <TouchableOpacity
+              onPress={handleImportPress}
+              style={[styles.button, styles.primaryButton]}
+            >
+              <Text style={styles.primaryButtonText}>Import</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleExportPress("csv")}
+              style={[styles.button, styles.secondaryButton]}
+            >
+              <Text style={styles.secondaryButtonText}>Export CSV</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleExportPress("jsonl")}
+              style={[styles.button, styles.secondaryButton]}
+            >
+              <Text style={styles.secondaryButtonText}>Export JSONL</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Add / Edit Form */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons
+              name={editingId ? "create" : "add-circle"}
+              size={20}
+              color="#8B5CF6"
+            />
+            <Text style={styles.cardTitle}>
+              {editingId ? "Edit Example" : "Add Example"}
+            </Text>
+          </View>
+          <TextInput
+            value={draftText}
+            onChangeText={setDraftText}
+            placeholder="Example text..."
+            multiline
+            style={styles.textInput}
+            textAlignVertical="top"
+          />
+          <View style={styles.chipRow}>
+            {SENTIMENT_TYPES.map((sentiment) => (
+              <TouchableOpacity
+                key={sentiment}
+                onPress={() => setDraftSentiment(sentiment)}
+                style={[
+                  styles.chip,
+                  draftSentiment === sentiment && {
+                    borderColor: getSentimentColor(sentiment),
+                    backgroundColor: `${getSentimentColor(sentiment)}20`,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    draftSentiment === sentiment && {
+                      color: getSentimentColor(sentiment),
+                    },
+                  ]}
+                >
+                  {sentiment}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.stepperRow}>
+            <Text style={styles.label}>Label confidence:</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => handleConfidenceChange(-0.05)}
+                style={styles.stepperButton}
+              >
+                <Ionicons name="remove" size={16} color="#8B5CF6" />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>
+                {draftConfidence.toFixed(2)}
+              </Text>
+              <TouchableOpacity
+                onPress={() => handleConfidenceChange(0.05)}
+                style={styles.stepperButton}
+              >
+                <Ionicons name="add" size={16} color="#8B5CF6" />
+              </TouchableOpacity>
+            </View>
+          </View>
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity
+                onPress={resetDraft}
+                style={[styles.button, styles.secondaryButton]}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={handleSavePress}
+              disabled={!draftText.trim()}
+              style={[
+                styles.button,
+                styles.primaryButton,
+                !draftText.trim() && styles.disabledButton,
+              ]}
+            >
+              <Text style={styles.primaryButtonText}>
+                {editingId ? "Save Changes" : "Add Example"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Examples */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="albums" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>Examples</Text>
+          </View>
+          <TextInput
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search examples..."
+            style={styles.searchInput}
+          />
+          <View style={styles.chipRow}>
+            {(["all", ...SENTIMENT_TYPES] as (SentimentType | "all")[]).map(
+              (option) => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setFilter(option)}
+                  style={[
+                    styles.chip,
+                    filter === option && styles.activeFilterChip,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      filter === option && styles.activeFilterChipText,
+                    ]}
+                  >
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+
+          {visibleItems.length === 0 && (
+            <Text style={styles.emptyText}>No examples match.</Text>
+          )}
+
+          {visibleItems.map((item) => (
+            <View key={item.id} style={styles.itemRow}>
+              <View style={styles.itemBody}>
+                <Text style={styles.itemText}>{item.text}</Text>
+                <View style={styles.itemMeta}>
+                  <TouchableOpacity
+                    onPress={() => handleRelabelPress(item)}
+                    style={[
+                      styles.labelBadge,
+                      {
+                        backgroundColor: `${getSentimentColor(
+                          item.sentiment
+                        )}20`,
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.labelBadgeText,
+                        { color: getSentimentColor(item.sentiment) },
+                      ]}
+                    >
+                      {item.sentiment.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                  <Text style={styles.label}>{item.confidence.toFixed(2)}</Text>
+                </View>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleEditPress(item)}
+                style={styles.iconButton}
+              >
+                <Ionicons name="pencil" size={16} color="#6B7280" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDeletePress(item)}
+                style={styles.iconButton}
+              >
+                <Ionicons name="trash" size={16} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <Text style={styles.hint}>Tap a label to relabel an example.</Text>
+        </View>
+
+        <TouchableOpacity onPress={handleRestorePress} style={styles.restore}>
+          <Ionicons name="refresh" size={16} color="#6B7280" />
+          <Text style={styles.restoreText}>Restore seed data</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+    marginTop: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: "#B45309",
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6B7280",
+    textAlign: "center",
+    paddingVertical: 12,
+  },
+  balanceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  balanceLabel: {
+    width: 64,
+    fontSize: 12,
+    color: "#374151",
+    textTransform: "capitalize",
+  },
+  balanceTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E5E7EB",
+    overflow: "hidden",
+  },
+  balanceFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  balanceValue: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F2937",
+    textAlign: "right",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    minHeight: 72,
+    marginBottom: 12,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 20,
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#6B7280",
+    textTransform: "capitalize",
+  },
+  activeFilterChip: {
+    borderColor: "#8B5CF6",
+    backgroundColor: "#F5F3FF",
+  },
+  activeFilterChipText: {
+    color: "#8B5CF6",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperButton: {
+    padding: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 6,
+  },
+  stepperValue: {
+    minWidth: 48,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  formActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#8B5CF6",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+  },
+  secondaryButtonText: {
+    color: "#374151",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  itemBody: {
+    flex: 1,
+  },
+  itemText: {
+    fontSize: 14,
+    color: "#374151",
+    lineHeight: 20,
+  },
+  itemMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+    gap: 8,
+  },
+  labelBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    borderRadius: 20,
+  },
+  labelBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  iconButton: {
+    padding: 8,
+  },
+  restore: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    marginBottom: 32,
+  },
+  restoreText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginLeft: 6,
+  },
+});
+
+export default DatasetScreen;
@@ -0,0 +1,514 @@
+import EmotionChart from "@/components/EmotionChart";
+import { useAnalysisEngine } from "@/hooks/useAnalysisEngine";
+import { useHistory } from "@/hooks/useHistory";
+import { useTrainingData } from "@/hooks/useTrainingData";
+import {
+  AnalysisEngine,
+  AnalysisOutcome,
+  HistoryDateRange,
+  HistoryEntry,
+  HistoryFilters,
+  SENTIMENT_TYPES,
+  SentimentType,
+} from "@/types/types";
+import { runAnalysis } from "@/utils/analysis";
+import { computeAgreement } from "@/utils/evaluation";
+import {
+  addHistoryEntry,
+  DEFAULT_HISTORY_FILTERS,
+  filterHistory,
+  pairHistoryByText,
+} from "@/utils/history";
+import {
+  getSentimentColor,
+  handleAnalysisError,
+  showErrorAlert,
+} from "@/utils/utils";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const DATE_RANGE_OPTIONS: { value: HistoryDateRange; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "today", label: "Today" },
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+];
+
+const HistoryScreen: React.FC = () => {
+  const { history, loading, reloadHistory, updateHistory } = useHistory();
+  const { trainingData } = useTrainingData();
+  const {
+    activeEngine,
+    apiKey,
+    providerConfig,
+    modelOptions,
+    aspectSettings,
+    emotionMode,
+  } = useAnalysisEngine();
+  const [filters, setFilters] = useState<HistoryFilters>(
+    DEFAULT_HISTORY_FILTERS
+  );
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [reruns, setReruns] = useState<Record<string, AnalysisOutcome>>({});
+
+  const visibleEntries = useMemo(
+    () => filterHistory(history, filters),
+    [history, filters]
+  );
+  const agreement = useMemo(
+    () => computeAgreement(pairHistoryByText(history)),
+    [history]
+  );
+
+  const updateFilter = <K extends keyof HistoryFilters>(
+    key: K,
+    value: HistoryFilters[K]
+  ): void => {
+    setFilters({ ...filters, [key]: value });
+  };
+
+  const handleConfidenceChange = (
+    key: "minConfidence" | "maxConfidence",
+    delta: number
+  ): void => {
+    const value = Math.round((filters[key] + delta) * 10) / 10;
+    updateFilter(key, Math.min(Math.max(value, 0), 1));
+  };
+
+  // Entry handlers
+  const handleRerunPress = async (entry: HistoryEntry): Promise<void> => {
+    setRerunningId(entry.id);
+
+    try {
+      const outcome = await runAnalysis(entry.text, activeEngine, {
+        apiKey,
+        providerConfig,
+        modelOptions,
+        trainingData,
+        aspectSettings,
+        emotionMode,
+      });
+      setReruns({ ...reruns, [entry.id]: outcome });
+      await addHistoryEntry(entry.text, activeEngine, outcome);
+      await reloadHistory();
+    } catch (error) {
+      showErrorAlert("Error", handleAnalysisError(error, "Re-run failed"));
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  const handleDeletePress = async (entry: HistoryEntry): Promise<void> => {
+    await updateHistory(history.filter((current) => current.id !== entry.id));
+  };
+
+  const handleClearPress = (): void => {
+    Alert.alert("Clear history", "Delete every saved analysis?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: () => updateHistory([]),
+      },
+    ]);
+  };
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          onPress={() => onSelect(option.value)}
+          style={[styles.chip, selected === option.value && styles.activeChip]}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === option.value && styles.activeChipText,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderRerun = (entry: HistoryEntry) => {
+    const rerun = reruns[entry.id];
+    if (!rerun) return null;
+
+    const changed = rerun.result.sentiment !== entry.result.sentiment;
+    const delta = (rerun.result.confidence - entry.result.confidence) * 100;
+
+    return (
+      <View
+        style={[
+          styles.rerunBox,
+          { borderColor: changed ? "#EF4444" : "#10B981" },
+        ]}
+      >
+        <Text style={styles.rerunTitle}>
+          {changed ? "Verdict changed" : "Verdict unchanged"} · {rerun.provider}
+        </Text>
+        <Text style={styles.rerunText}>
+          {entry.result.sentiment} → {rerun.result.sentiment} · confidence{" "}
+          {(rerun.result.confidence * 100).toFixed(1)}% ({delta >= 0 ? "+" : ""}
+          {delta.toFixed(1)} pts)
+        </Text>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator color="#3B82F6" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Filters */}
+        <View style={styles.card}>
+          <TextInput
+            value={filters.query}
+            onChangeText={(value) => updateFilter("query", value)}
+            placeholder="Search text, model or reasoning..."
+            style={styles.searchInput}
+          />
+          {renderChips<SentimentType | "all">(
+            [
+              { value: "all", label: "Any sentiment" },
+              ...SENTIMENT_TYPES.map((sentiment) => ({
+                value: sentiment,
+                label: sentiment,
+              })),
+            ],
+            filters.sentiment,
+            (value) => updateFilter("sentiment", value)
+          )}
+          {renderChips<AnalysisEngine | "all">(
+            [
+              { value: "all", label: "Any engine" },
+              { value: "api", label: "API" },
+              { value: "model", label: "DIY Model" },
+            ],
+            filters.engine,
+            (value) => updateFilter("engine", value)
+          )}
+          {renderChips(DATE_RANGE_OPTIONS, filters.dateRange, (value) =>
+            updateFilter("dateRange", value)
+          )}
+          <View style={styles.stepperRow}>
+            <Text style={styles.label}>Confidence:</Text>
+            {(["minConfidence", "maxConfidence"] as const).map((key) => (
+              <View key={key} style={styles.stepper}>
+                <TouchableOpacity
+                  onPress={() => handleConfidenceChange(key, -0.1)}
+                  style={styles.stepperButton}
+                >
+                  <Ionicons name="remove" size={14} color="#3B82F6" />
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>
+                  {Math.round(filters[key] * 100)}%
+                </Text>
+                <TouchableOpacity
+                  onPress={() => handleConfidenceChange(key, 0.1)}
+                  style={styles.stepperButton}
+                >
+                  <Ionicons name="add" size={14} color="#3B82F6" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <Text style={styles.countText}>
+          {visibleEntries.length} of {history.length} analyses · re-runs use the{" "}
+          {activeEngine === "api" ? "API" : "DIY model"} engine
+        </Text>
+
+        {agreement.total > 0 && (
+          <View style={styles.card}>
+            <View style={styles.agreementHeader}>
+              <Ionicons name="git-compare" size={18} color="#3B82F6" />
+              <Text style={styles.agreementTitle}>API vs DIY Agreement</Text>
+            </View>
+            <Text style={styles.rerunText}>
+              {(agreement.agreementRate * 100).toFixed(1)}% agree · Cohen&apos;s
+              κ {agreement.kappa.toFixed(2)} · {agreement.total} texts analysed
+              by both engines (latest verdict of each)
+            </Text>
+          </View>
+        )}
+
+        {visibleEntries.map((entry) => (
+          <View key={entry.id} style={styles.card}>
+            <View style={styles.entryHeader}>
+              <View
+                style={[
+                  styles.sentimentBadge,
+                  {
+                    backgroundColor: `${getSentimentColor(
+                      entry.result.sentiment
+                    )}20`,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.sentimentText,
+                    { color: getSentimentColor(entry.result.sentiment) },
+                  ]}
+                >
+                  {entry.result.sentiment.toUpperCase()}
+                </Text>
+              </View>
+              <Text style={styles.confidenceText}>
+                {(entry.result.confidence * 100).toFixed(1)}%
+              </Text>
+              <Text style={styles.dateText}>
+                {new Date(entry.timestamp).toLocaleString()}
+              </Text>
+            </View>
+            <Text style={styles.entryText} numberOfLines={3}>
+              {entry.text}
+            </Text>
+            {entry.result.emotions && (
+              <EmotionChart emotions={entry.result.emotions} compact />
+            )}
+            <Text style={styles.label}>
+              {entry.engine === "api" ? "API" : "DIY Model"} · {entry.provider}{" "}
+              · {entry.result.model}
+            </Text>
+            {renderRerun(entry)}
+            <View style={styles.entryActions}>
+              <TouchableOpacity
+                onPress={() => handleRerunPress(entry)}
+                disabled={rerunningId !== null}
+                style={styles.actionButton}
+              >
+                {rerunningId === entry.id ? (
+                  <ActivityIndicator size="small" color="#3B82F6" />
+                ) : (
+                  <Ionicons name="refresh" size={16} color="#3B82F6" />
+                )}
+                <Text style={styles.actionText}>Re-run</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDeletePress(entry)}
+                style={styles.actionButton}
+              >
+                <Ionicons name="trash" size={16} color="#EF4444" />
+                <Text style={[styles.actionText, { color: "#EF4444" }]}>
+                  Delete
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        {history.length > 0 && (
+          <TouchableOpacity onPress={handleClearPress} style={styles.clear}>
+            <Text style={styles.clearText}>Clear history</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  agreementHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  agreementTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 20,
+  },
+  activeChip: {
+    borderColor: "#3B82F6",
+    backgroundColor: "#EFF6FF",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#6B7280",
+    textTransform: "capitalize",
+  },
+  activeChipText: {
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperButton: {
+    padding: 4,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 6,
+  },
+  stepperValue: {
+    minWidth: 40,
+    textAlign: "center",
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  countText: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  sentimentBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    borderRadius: 20,
+  },
+  sentimentText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  confidenceText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  dateText: {
+    flex: 1,
+    fontSize: 11,
+    color: "#9CA3AF",
+    textAlign: "right",
+  },
+  entryText: {
+    fontSize: 14,
+    color: "#374151",
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  rerunBox: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    marginTop: 8,
+  },
+  rerunTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  rerunText: {
+    fontSize: 12,
+    color: "#374151",
+    marginTop: 2,
+  },
+  entryActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+    marginTop: 8,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#3B82F6",
+    marginLeft: 4,
+  },
+  clear: {
+    alignItems: "center",
+    paddingVertical: 12,
+    marginBottom: 32,
+  },
+  clearText: {
+    fontSize: 14,
+    color: "#EF4444",
+  },
+});
+
+export default HistoryScreen;
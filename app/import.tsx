@@ -0,0 +1,439 @@
+import { useTrainingData } from "@/hooks/useTrainingData";
+import { ColumnMapping, DatasetFormat, ParsedTable } from "@/types/types";
+import {
+  buildImportPreview,
+  detectFormat,
+  guessColumnMapping,
+  parseDataset,
+} from "@/utils/datasetIO";
+import { pickTextFile } from "@/utils/files";
+import { createDatasetItem } from "@/utils/trainingData";
+import { handleAnalysisError, showErrorAlert } from "@/utils/utils";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const MAX_REPORTED_ERRORS = 50;
+
+const ImportScreen: React.FC = () => {
+  const { trainingData, updateTrainingData } = useTrainingData();
+  const [content, setContent] = useState<string>("");
+  const [fileName, setFileName] = useState<string>("");
+  const [format, setFormat] = useState<DatasetFormat>("csv");
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [customMapping, setCustomMapping] = useState<{
+    columnsKey: string;
+    mapping: ColumnMapping;
+  } | null>(null);
+
+  const parsed = useMemo((): {
+    table: ParsedTable | null;
+    error: string | null;
+  } => {
+    if (!content.trim()) return { table: null, error: null };
+
+    try {
+      return { table: parseDataset(content, format, hasHeader), error: null };
+    } catch (error) {
+      return {
+        table: null,
+        error: handleAnalysisError(error, "Could not parse file"),
+      };
+    }
+  }, [content, format, hasHeader]);
+
+  // A manual mapping only applies to the columns it was chosen for; any new
+  // set of columns starts again from the guessed mapping.
+  const columnsKey = parsed.table?.columns.join("\u0000") ?? "";
+  const mapping = useMemo((): ColumnMapping | null => {
+    if (!parsed.table) return null;
+    return customMapping?.columnsKey === columnsKey
+      ? customMapping.mapping
+      : guessColumnMapping(parsed.table.columns);
+  }, [parsed.table, customMapping, columnsKey]);
+
+  const preview = useMemo(
+    () =>
+      parsed.table && mapping
+        ? buildImportPreview(parsed.table, mapping, trainingData)
+        : null,
+    [parsed.table, mapping, trainingData]
+  );
+
+  // Source handlers
+  const handleContentChange = (value: string): void => {
+    setContent(value);
+    setFileName("");
+    setFormat(detectFormat(value));
+  };
+
+  const handlePickFilePress = async (): Promise<void> => {
+    try {
+      const file = await pickTextFile();
+      if (!file) return;
+
+      setContent(file.content);
+      setFileName(file.name);
+      setFormat(detectFormat(file.content, file.name));
+    } catch (error) {
+      showErrorAlert(
+        "Import Error",
+        handleAnalysisError(error, "Could not read file")
+      );
+    }
+  };
+
+  const handleMappingChange = (
+    role: keyof ColumnMapping,
+    column: number | null
+  ): void => {
+    if (!mapping) return;
+    setCustomMapping({ columnsKey, mapping: { ...mapping, [role]: column } });
+  };
+
+  const handleImportPress = async (): Promise<void> => {
+    if (!preview || preview.items.length === 0) return;
+
+    const saved = await updateTrainingData([
+      ...trainingData,
+      ...preview.items.map(createDatasetItem),
+    ]);
+    if (saved) router.back();
+  };
+
+  const renderColumnPicker = (
+    role: keyof ColumnMapping,
+    label: string,
+    optional: boolean
+  ) => {
+    if (!parsed.table || !mapping) return null;
+
+    const options: { value: number | null; label: string }[] = [
+      ...(optional ? [{ value: null, label: "None" }] : []),
+      ...parsed.table.columns.map((column, index) => ({
+        value: index,
+        label: column,
+      })),
+    ];
+
+    return (
+      <View style={styles.mappingRow}>
+        <Text style={styles.label}>{label}</Text>
+        <View style={styles.chipRow}>
+          {options.map((option) => (
+            <TouchableOpacity
+              key={String(option.value)}
+              onPress={() => handleMappingChange(role, option.value)}
+              style={[
+                styles.chip,
+                mapping[role] === option.value && styles.activeChip,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  mapping[role] === option.value && styles.activeChipText,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Source */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="document-text" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>1. Choose Data</Text>
+          </View>
+          <TouchableOpacity
+            onPress={handlePickFilePress}
+            style={styles.pickButton}
+          >
+            <Ionicons name="folder-open" size={16} color="white" />
+            <Text style={styles.pickButtonText}>Pick CSV or JSONL file</Text>
+          </TouchableOpacity>
+          {Boolean(fileName) && (
+            <Text style={styles.hint}>Loaded {fileName}</Text>
+          )}
+          <Text style={styles.orText}>or paste it below</Text>
+          <TextInput
+            value={content}
+            onChangeText={handleContentChange}
+            placeholder={
+              'text,sentiment,confidence\n"Loved it",pos,0.9\n\nor\n\n{"text": "Loved it", "sentiment": "positive"}'
+            }
+            multiline
+            style={styles.textInput}
+            textAlignVertical="top"
+          />
+          <View style={styles.chipRow}>
+            {(["csv", "jsonl"] as DatasetFormat[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setFormat(option)}
+                style={[styles.chip, format === option && styles.activeChip]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    format === option && styles.activeChipText,
+                  ]}
+                >
+                  {option.toUpperCase()}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {format === "csv" && (
+              <TouchableOpacity
+                onPress={() => setHasHeader(!hasHeader)}
+                style={[styles.chip, hasHeader && styles.activeChip]}
+              >
+                <Text
+                  style={[styles.chipText, hasHeader && styles.activeChipText]}
+                >
+                  First row is header
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {parsed.error && <Text style={styles.errorText}>{parsed.error}</Text>}
+        </View>
+
+        {/* Column Mapping */}
+        {parsed.table && mapping && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="git-compare" size={20} color="#8B5CF6" />
+              <Text style={styles.cardTitle}>2. Map Columns</Text>
+            </View>
+            {renderColumnPicker("text", "Text column", false)}
+            {renderColumnPicker("sentiment", "Sentiment column", false)}
+            {renderColumnPicker("confidence", "Confidence column", true)}
+          </View>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="checkmark-done" size={20} color="#8B5CF6" />
+              <Text style={styles.cardTitle}>3. Review</Text>
+            </View>
+            <View style={styles.summaryGrid}>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: "#10B981" }]}>
+                  {preview.items.length}
+                </Text>
+                <Text style={styles.label}>Ready</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: "#F59E0B" }]}>
+                  {preview.duplicates}
+                </Text>
+                <Text style={styles.label}>Duplicates</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: "#EF4444" }]}>
+                  {preview.errors.length}
+                </Text>
+                <Text style={styles.label}>Errors</Text>
+              </View>
+            </View>
+
+            {preview.errors.slice(0, MAX_REPORTED_ERRORS).map((error) => (
+              <View key={error.row} style={styles.errorRow}>
+                <Text style={styles.errorRowNumber}>Row {error.row}</Text>
+                <Text style={styles.errorRowMessage}>{error.message}</Text>
+              </View>
+            ))}
+            {preview.errors.length > MAX_REPORTED_ERRORS && (
+              <Text style={styles.hint}>
+                …and {preview.errors.length - MAX_REPORTED_ERRORS} more
+              </Text>
+            )}
+
+            <TouchableOpacity
+              onPress={handleImportPress}
+              disabled={preview.items.length === 0}
+              style={[
+                styles.importButton,
+                preview.items.length === 0 && styles.disabledButton,
+              ]}
+            >
+              <Ionicons name="download" size={16} color="white" />
+              <Text style={styles.pickButtonText}>
+                Import {preview.items.length} examples
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+    marginTop: 8,
+  },
+  orText: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    textAlign: "center",
+    marginVertical: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#EF4444",
+  },
+  pickButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#8B5CF6",
+  },
+  pickButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    minHeight: 120,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 20,
+  },
+  activeChip: {
+    borderColor: "#8B5CF6",
+    backgroundColor: "#F5F3FF",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  activeChipText: {
+    color: "#8B5CF6",
+    fontWeight: "600",
+  },
+  mappingRow: {
+    marginBottom: 8,
+  },
+  summaryGrid: {
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 2,
+  },
+  errorRow: {
+    flexDirection: "row",
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  errorRowNumber: {
+    width: 64,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  errorRowMessage: {
+    flex: 1,
+    fontSize: 12,
+    color: "#EF4444",
+  },
+  importButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#10B981",
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
+
+export default ImportScreen;
@@ -1,21 +1,35 @@
+import ResultCard from "@/components/ResultCard";
+import TokenStream from "@/components/TokenStream";
+import { useAnalysisEngine } from "@/hooks/useAnalysisEngine";
+import { useTrainingData } from "@/hooks/useTrainingData";
 import {
+  AnalysisEngine,
+  AnalysisResult,
   ApiResult,
+  ComparisonResult,
+  ConnectionStatus,
+  ConnectionTestResult,
+  ModelEngine,
   ModelResult,
-  OpenAIResponse,
-  ResultCardProps,
+  PreprocessingOptions,
   SampleText,
-  TrainingDataItem,
+  StemmingMode,
 } from "@/types/types";
+import { runAnalysis, testProviderConnection } from "@/utils/analysis";
+import { describeAspectSettings } from "@/utils/aspects";
+import { describeEmotionMode, getNextEmotionMode } from "@/utils/emotions";
+import { describeRatingSettings } from "@/utils/ratings";
+import { formatLatency, runComparison } from "@/utils/comparison";
+import { addHistoryEntry } from "@/utils/history";
+import { getLanguagePack, LANGUAGE_CODES } from "@/utils/languages";
+import { analyzeTokens } from "@/utils/preprocessing";
+import { getSentimentProvider } from "@/utils/providers";
+import { isCancellation } from "@/utils/request";
+import { IS_KEY_STORAGE_SECURE } from "@/utils/secureKeys";
 import {
-  analyzeSentimentWithKeywords,
-  buildOpenAIRequest,
-  delay,
-  findBestMatch,
+  getSentimentColor,
   handleAnalysisError,
-  parseOpenAIResponse,
   showErrorAlert,
-  validateApiResponse,
-  validateInput,
 } from "@/utils/utils";
 import {
   Ionicons,
@@ -23,7 +37,8 @@ import {
   SimpleLineIcons,
 } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
-import React, { useState } from "react";
+import { router } from "expo-router";
+import React, { useRef, useState } from "react";
 import {
   ActivityIndicator,
   SafeAreaView,
@@ -35,225 +50,234 @@ import {
   View,
 } from "react-native";
 
+const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  valid: "Valid",
+  invalid: "Invalid",
+  "no-quota": "No quota",
+  error: "Error",
+};
+
+const CONNECTION_STATUS_COLORS: Record<ConnectionStatus, string> = {
+  valid: "#10B981",
+  invalid: "#EF4444",
+  "no-quota": "#F59E0B",
+  error: "#EF4444",
+};
+
 const SentimentAnalysisApp: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<"api" | "model">("api");
   const [inputText, setInputText] = useState<string>("");
   const [apiResult, setApiResult] = useState<ApiResult | null>(null);
   const [modelResult, setModelResult] = useState<ModelResult | null>(null);
+  const [comparisonResult, setComparisonResult] =
+    useState<ComparisonResult | null>(null);
+  // The input each result was produced from, for word highlighting.
+  const [resultTexts, setResultTexts] = useState<
+    Partial<Record<AnalysisEngine | "compare", string>>
+  >({});
+  const [compareMode, setCompareMode] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
-  const [apiKey, setApiKey] = useState<string>("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [testingConnection, setTestingConnection] = useState<boolean>(false);
+  const [connectionTest, setConnectionTest] =
+    useState<ConnectionTestResult | null>(null);
   const [showApiKey, setShowApiKey] = useState<boolean>(false);
+  const [showTokens, setShowTokens] = useState<boolean>(false);
+  const {
+    activeEngine: activeTab,
+    setActiveEngine: setActiveTab,
+    apiKey,
+    setApiKey,
+    providerConfig,
+    modelOptions,
+    setModelOptions,
+    aspectSettings,
+    emotionMode,
+    setEmotionMode,
+    ratingSettings,
+  } = useAnalysisEngine();
+  const { engine: modelEngine, k: knnK, preprocessing } = modelOptions;
+  const provider = getSentimentProvider(providerConfig.provider);
 
-  // Sample training data for DIY approach
-  const trainingData: TrainingDataItem[] = [
-    {
-      text: "I love this product! It's amazing.",
-      sentiment: "positive",
-      confidence: 0.95,
-    },
-    {
-      text: "This is terrible. I hate it.",
-      sentiment: "negative",
-      confidence: 0.92,
-    },
-    {
-      text: "It's okay, nothing special.",
-      sentiment: "neutral",
-      confidence: 0.78,
-    },
-    {
-      text: "Best purchase I've ever made!",
-      sentiment: "positive",
-      confidence: 0.98,
-    },
-    {
-      text: "Waste of money. Very disappointed.",
-      sentiment: "negative",
-      confidence: 0.89,
-    },
-    {
-      text: "The weather is nice today.",
-      sentiment: "positive",
-      confidence: 0.75,
-    },
-    {
-      text: "I'm feeling sad and lonely.",
-      sentiment: "negative",
-      confidence: 0.87,
-    },
-    {
-      text: "This is just a regular day.",
-      sentiment: "neutral",
-      confidence: 0.82,
-    },
-  ];
-
-  // API analysis functions
-  const callOpenAIAPI = async (
-    text: string,
-    apiKey: string
-  ): Promise<ApiResult> => {
-    const startTime = Date.now();
+  const { trainingData } = useTrainingData();
 
-    const response = await fetch(
-      "https://api.openai.com/v1/chat/completions",
-      buildOpenAIRequest(text, apiKey)
-    );
+  // Analysis functions
+  const startRequest = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoading(true);
+    return controller.signal;
+  };
 
-    validateApiResponse(response);
-
-    const data: OpenAIResponse = await response.json();
-    const content = data.choices[0].message.content.trim();
-    const result = parseOpenAIResponse(content);
-
-    const endTime = Date.now();
-    const processingTime = ((endTime - startTime) / 1000).toFixed(1);
-
-    return {
-      sentiment: result.sentiment,
-      confidence: parseFloat(result.confidence.toFixed(2)),
-      processing_time: `${processingTime}s`,
-      model: "OpenAI GPT-3.5-Turbo",
-      tokens_used:
-        data.usage?.total_tokens || Math.floor(text.split(" ").length * 1.3),
-      reasoning: result.reasoning || "API analysis",
-      api_used: true,
-    };
+  const finishRequest = (): void => {
+    abortControllerRef.current = null;
+    setLoading(false);
   };
 
-  const performSimulationAnalysis = async (
-    text: string,
-    isApiFallback: boolean
-  ): Promise<ApiResult> => {
-    await delay(1500);
-
-    const { sentiment, confidence } = analyzeSentimentWithKeywords(text);
-
-    return {
-      sentiment,
-      confidence: parseFloat(confidence.toFixed(2)),
-      processing_time: "1.3s",
-      model: isApiFallback
-        ? "OpenAI GPT-3.5-Turbo (Fallback)"
-        : "Demo Simulation",
-      tokens_used: Math.floor(text.split(" ").length * 1.3),
-      reasoning: "Rule-based analysis using keyword matching",
-      api_used: false,
-    };
+  // Cancelling is the user's own action, so it needs no alert.
+  const reportError = (error: unknown, fallbackMessage: string): void => {
+    if (isCancellation(error)) return;
+    showErrorAlert("Error", handleAnalysisError(error, fallbackMessage));
   };
 
-  const analyzeWithAPI = async (text: string): Promise<void> => {
-    setLoading(true);
+  const analyze = async (
+    text: string,
+    engine: AnalysisEngine,
+    setResult: (result: AnalysisResult) => void,
+    fallbackMessage: string
+  ): Promise<void> => {
+    const signal = startRequest();
 
     try {
-      validateInput(text);
-
-      let result: ApiResult;
-
-      if (apiKey?.trim()) {
-        try {
-          result = await callOpenAIAPI(text, apiKey);
-        } catch (error) {
-          const errorMessage = handleAnalysisError(error, "API call failed");
-          showErrorAlert(
-            "API Error",
-            `${errorMessage}. Using fallback analysis.`
-          );
-          result = await performSimulationAnalysis(text, true);
-        }
-      } else {
-        result = await performSimulationAnalysis(text, false);
-      }
-
-      setApiResult(result);
+      const outcome = await runAnalysis(text, engine, {
+        apiKey,
+        providerConfig,
+        modelOptions,
+        trainingData,
+        aspectSettings,
+        emotionMode,
+        onFallback: (message) =>
+          showErrorAlert("API Error", `${message}. Using fallback analysis.`),
+        signal,
+      });
+      setResult(outcome.result);
+      setResultTexts((current) => ({ ...current, [engine]: text }));
+      await addHistoryEntry(text, engine, outcome);
     } catch (error) {
-      const errorMessage = handleAnalysisError(error, "Analysis failed");
-      showErrorAlert("Error", errorMessage);
+      reportError(error, fallbackMessage);
     } finally {
-      setLoading(false);
+      finishRequest();
     }
   };
 
-  // Model analysis functions
-  const performModelAnalysis = async (text: string): Promise<ModelResult> => {
-    await delay(2000);
+  const analyzeWithAPI = (text: string): Promise<void> =>
+    analyze(
+      text,
+      "api",
+      (result) => setApiResult(result as ApiResult),
+      "Analysis failed"
+    );
 
-    const bestMatch = findBestMatch(text, trainingData);
-    const confidence = Math.max(
-      0.6,
-      bestMatch.confidence - 0.1 + Math.random() * 0.1
+  const analyzeWithModel = (text: string): Promise<void> =>
+    analyze(
+      text,
+      "model",
+      (result) => setModelResult(result as ModelResult),
+      "Model analysis failed"
     );
 
-    return {
-      sentiment: bestMatch.sentiment,
-      confidence: parseFloat(confidence.toFixed(2)),
-      processing_time: "2.8s",
-      model: "Custom BERT Fine-tuned",
-      training_samples: trainingData.length,
-      feature_extraction: "TF-IDF + Word Embeddings",
-      accuracy: "87.3%",
-    };
-  };
-
-  const analyzeWithModel = async (text: string): Promise<void> => {
-    setLoading(true);
+  const analyzeWithBoth = async (text: string): Promise<void> => {
+    const signal = startRequest();
 
     try {
-      validateInput(text);
-      const result = await performModelAnalysis(text);
-      setModelResult(result);
+      const comparison = await runComparison(text, {
+        apiKey,
+        providerConfig,
+        modelOptions,
+        trainingData,
+        aspectSettings,
+        emotionMode,
+        onFallback: (message) =>
+          showErrorAlert("API Error", `${message}. Using fallback analysis.`),
+        signal,
+      });
+      setComparisonResult(comparison);
+      setResultTexts((current) => ({ ...current, compare: text }));
+      await addHistoryEntry(text, "api", comparison.api);
+      await addHistoryEntry(text, "model", comparison.model);
     } catch (error) {
-      const errorMessage = handleAnalysisError(error, "Model analysis failed");
-      showErrorAlert("Error", errorMessage);
+      reportError(error, "Comparison failed");
     } finally {
-      setLoading(false);
+      finishRequest();
     }
   };
 
-  // UI utility functions
-  const getSentimentIcon = (
-    sentiment: "positive" | "negative" | "neutral"
-  ): string => {
-    const iconMap = {
-      positive: "thumbs-up",
-      negative: "thumbs-down",
-      neutral: "remove",
-    };
-    return iconMap[sentiment];
+  // Event handlers
+  const handleTabPress = (tab: AnalysisEngine | "compare"): void => {
+    setCompareMode(tab === "compare");
+    if (tab !== "compare") setActiveTab(tab);
   };
 
-  const getSentimentColor = (
-    sentiment: "positive" | "negative" | "neutral"
-  ): string => {
-    const colorMap = {
-      positive: "#10B981",
-      negative: "#EF4444",
-      neutral: "#F59E0B",
-    };
-    return colorMap[sentiment];
+  const isTabActive = (tab: AnalysisEngine | "compare"): boolean =>
+    tab === "compare" ? compareMode : !compareMode && activeTab === tab;
+
+  const handleSampleTextPress = (text: string): void => {
+    setInputText(text);
   };
 
-  const getConfidenceColor = (confidence: number): string => {
-    if (confidence >= 0.8) return "#10B981";
-    if (confidence >= 0.6) return "#F59E0B";
-    return "#EF4444";
+  const handleToggleApiKey = (): void => {
+    setShowApiKey(!showApiKey);
   };
 
-  // Event handlers
-  const handleTabPress = (tab: "api" | "model"): void => {
-    setActiveTab(tab);
+  const handleViewMetricsPress = (): void => {
+    router.push({
+      pathname: "/metrics",
+      params: { engine: modelEngine, k: String(knnK) },
+    });
   };
 
-  const handleSampleTextPress = (text: string): void => {
-    setInputText(text);
+  const handleApiKeyChange = (value: string): void => {
+    setApiKey(value);
+    setConnectionTest(null);
   };
 
-  const handleToggleApiKey = (): void => {
-    setShowApiKey(!showApiKey);
+  const handleTestConnectionPress = async (): Promise<void> => {
+    setTestingConnection(true);
+    setConnectionTest(await testProviderConnection(providerConfig, apiKey));
+    setTestingConnection(false);
+  };
+
+  const handleSettingsPress = (): void => {
+    router.push("/settings");
+  };
+
+  const handleAspectsPress = (): void => {
+    router.push("/aspects");
+  };
+
+  const handleEmotionModePress = (): void => {
+    setEmotionMode(getNextEmotionMode(emotionMode));
+  };
+
+  const handleBatchPress = (): void => {
+    router.push("/batch");
+  };
+
+  const handleHistoryPress = (): void => {
+    router.push("/history");
+  };
+
+  const handleManageDataPress = (): void => {
+    router.push("/dataset");
+  };
+
+  const handleKnnKChange = (delta: number): void => {
+    setModelOptions({
+      ...modelOptions,
+      k: Math.max(Math.min(knnK + delta, trainingData.length), 1),
+    });
+  };
+
+  const handlePreprocessingChange = (
+    changes: Partial<PreprocessingOptions>
+  ): void => {
+    setModelOptions({
+      ...modelOptions,
+      preprocessing: { ...preprocessing, ...changes },
+    });
+  };
+
+  const handleToggleTokens = (): void => {
+    setShowTokens(!showTokens);
+  };
+
+  const handleCancelPress = (): void => {
+    abortControllerRef.current?.abort();
   };
 
   const handleAnalyzePress = async (): Promise<void> => {
-    if (activeTab === "api") {
+    if (compareMode) {
+      await analyzeWithBoth(inputText);
+    } else if (activeTab === "api") {
       await analyzeWithAPI(inputText);
     } else {
       await analyzeWithModel(inputText);
@@ -268,6 +292,10 @@ const SentimentAnalysisApp: React.FC = () => {
       return "Analyzing...";
     }
 
+    if (compareMode) {
+      return "Compare API vs Model";
+    }
+
     if (activeTab === "api") {
       return "Analyze with API";
     }
@@ -275,116 +303,6 @@ const SentimentAnalysisApp: React.FC = () => {
     return "Analyze with Model";
   };
 
-  // Component functions
-  const ResultCard: React.FC<ResultCardProps> = ({ result, type }) => {
-    if (!result) return null;
-
-    const isApiResult = (res: ApiResult | ModelResult): res is ApiResult => {
-      return "tokens_used" in res;
-    };
-
-    return (
-      <View style={styles.resultCard}>
-        <View style={styles.resultHeader}>
-          <View style={styles.sentimentContainer}>
-            <Ionicons
-              name={
-                getSentimentIcon(result.sentiment) as
-                  | "thumbs-up"
-                  | "thumbs-down"
-                  | "remove"
-              }
-              size={20}
-              color={getSentimentColor(result.sentiment)}
-            />
-            <View
-              style={[
-                styles.sentimentBadge,
-                { backgroundColor: `${getSentimentColor(result.sentiment)}20` },
-              ]}
-            >
-              <Text
-                style={[
-                  styles.sentimentText,
-                  { color: getSentimentColor(result.sentiment) },
-                ]}
-              >
-                {result.sentiment.toUpperCase()}
-              </Text>
-            </View>
-          </View>
-          <View style={styles.confidenceContainer}>
-            <Ionicons name="bar-chart" size={16} color="#6B7280" />
-            <Text
-              style={[
-                styles.confidenceText,
-                { color: getConfidenceColor(result.confidence) },
-              ]}
-            >
-              {(result.confidence * 100).toFixed(1)}%
-            </Text>
-          </View>
-        </View>
-
-        <View style={styles.resultGrid}>
-          <View style={styles.resultItem}>
-            <Text style={styles.resultLabel}>Processing Time:</Text>
-            <Text style={styles.resultValue}>{result.processing_time}</Text>
-          </View>
-          <View style={styles.resultItem}>
-            <Text style={styles.resultLabel}>Model:</Text>
-            <Text style={styles.resultValue}>{result.model}</Text>
-          </View>
-          {type === "api" && isApiResult(result) && (
-            <>
-              <View style={styles.resultItem}>
-                <Text style={styles.resultLabel}>Tokens Used:</Text>
-                <Text style={styles.resultValue}>{result.tokens_used}</Text>
-              </View>
-              <View style={styles.resultItem}>
-                <Text style={styles.resultLabel}>API Status:</Text>
-                <Text
-                  style={[
-                    styles.resultValue,
-                    { color: result.api_used ? "#10B981" : "#F59E0B" },
-                  ]}
-                >
-                  {result.api_used ? "Real API" : "Simulation"}
-                </Text>
-              </View>
-              {Boolean(result.reasoning) && (
-                <View style={[styles.resultItem, { width: "100%" }]}>
-                  <Text style={styles.resultLabel}>Analysis:</Text>
-                  <Text style={styles.resultValue}>{result.reasoning}</Text>
-                </View>
-              )}
-            </>
-          )}
-          {type === "model" && !isApiResult(result) && (
-            <>
-              <View style={styles.resultItem}>
-                <Text style={styles.resultLabel}>Training Samples:</Text>
-                <Text style={styles.resultValue}>
-                  {result.training_samples}
-                </Text>
-              </View>
-              <View style={styles.resultItem}>
-                <Text style={styles.resultLabel}>Features:</Text>
-                <Text style={styles.resultValue}>
-                  {result.feature_extraction}
-                </Text>
-              </View>
-              <View style={styles.resultItem}>
-                <Text style={styles.resultLabel}>Model Accuracy:</Text>
-                <Text style={styles.resultValue}>{result.accuracy}</Text>
-              </View>
-            </>
-          )}
-        </View>
-      </View>
-    );
-  };
-
   const sampleTexts: SampleText[] = [
     {
       text: "I absolutely love this new feature! It's incredible.",
@@ -395,6 +313,10 @@ const SentimentAnalysisApp: React.FC = () => {
       type: "Negative",
     },
     { text: "The weather is okay today, nothing special.", type: "Neutral" },
+    ...LANGUAGE_CODES.flatMap((code) => {
+      const { name, sampleText } = getLanguagePack(code);
+      return sampleText ? [{ text: sampleText, type: name }] : [];
+    }),
   ];
 
   return (
@@ -414,6 +336,18 @@ const SentimentAnalysisApp: React.FC = () => {
               Compare API vs Custom Model approaches
             </Text>
           </View>
+          <TouchableOpacity
+            onPress={handleBatchPress}
+            style={styles.headerButton}
+          >
+            <Ionicons name="layers" size={22} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleHistoryPress}
+            style={styles.headerButton}
+          >
+            <Ionicons name="time" size={22} color="white" />
+          </TouchableOpacity>
         </View>
       </LinearGradient>
 
@@ -422,17 +356,17 @@ const SentimentAnalysisApp: React.FC = () => {
         <View style={styles.tabContainer}>
           <TouchableOpacity
             onPress={() => handleTabPress("api")}
-            style={[styles.tab, activeTab === "api" && styles.activeTab]}
+            style={[styles.tab, isTabActive("api") && styles.activeTab]}
           >
             <Ionicons
               name="flash"
               size={20}
-              color={activeTab === "api" ? "white" : "#6B7280"}
+              color={isTabActive("api") ? "white" : "#6B7280"}
             />
             <Text
               style={[
                 styles.tabText,
-                activeTab === "api" && styles.activeTabText,
+                isTabActive("api") && styles.activeTabText,
               ]}
             >
               Quick API
@@ -440,22 +374,40 @@ const SentimentAnalysisApp: React.FC = () => {
           </TouchableOpacity>
           <TouchableOpacity
             onPress={() => handleTabPress("model")}
-            style={[styles.tab, activeTab === "model" && styles.activeTab]}
+            style={[styles.tab, isTabActive("model") && styles.activeTab]}
           >
             <Ionicons
               name="code-slash"
               size={20}
-              color={activeTab === "model" ? "white" : "#6B7280"}
+              color={isTabActive("model") ? "white" : "#6B7280"}
             />
             <Text
               style={[
                 styles.tabText,
-                activeTab === "model" && styles.activeTabText,
+                isTabActive("model") && styles.activeTabText,
               ]}
             >
               DIY Model
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleTabPress("compare")}
+            style={[styles.tab, isTabActive("compare") && styles.activeTab]}
+          >
+            <Ionicons
+              name="git-compare"
+              size={20}
+              color={isTabActive("compare") ? "white" : "#6B7280"}
+            />
+            <Text
+              style={[
+                styles.tabText,
+                isTabActive("compare") && styles.activeTabText,
+              ]}
+            >
+              Compare
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Input Section */}
@@ -475,14 +427,57 @@ const SentimentAnalysisApp: React.FC = () => {
             textAlignVertical="top"
           />
 
-          {activeTab === "api" && (
+          <TouchableOpacity
+            onPress={handleAspectsPress}
+            style={styles.aspectSummary}
+          >
+            <Text style={styles.aspectSummaryText} numberOfLines={1}>
+              {describeAspectSettings(aspectSettings)}
+            </Text>
+            <Ionicons name="layers" size={14} color="#3B82F6" />
+            <Text style={styles.providerSummaryLink}>Aspects</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleEmotionModePress}
+            style={styles.aspectSummary}
+          >
+            <Text style={styles.aspectSummaryText} numberOfLines={1}>
+              {describeEmotionMode(emotionMode)}
+            </Text>
+            <Ionicons name="happy" size={14} color="#3B82F6" />
+            <Text style={styles.providerSummaryLink}>Switch</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleViewMetricsPress}
+            style={styles.aspectSummary}
+          >
+            <Text style={styles.aspectSummaryText} numberOfLines={1}>
+              {describeRatingSettings(ratingSettings)}
+            </Text>
+            <Ionicons name="star" size={14} color="#3B82F6" />
+            <Text style={styles.providerSummaryLink}>Rating scale</Text>
+          </TouchableOpacity>
+
+          {(compareMode || activeTab === "api") && (
             <View style={styles.apiKeyContainer}>
+              <TouchableOpacity
+                onPress={handleSettingsPress}
+                style={styles.providerSummary}
+              >
+                <Text style={styles.providerSummaryText} numberOfLines={1}>
+                  {provider.label} · {providerConfig.model}
+                </Text>
+                <Ionicons name="settings" size={14} color="#3B82F6" />
+                <Text style={styles.providerSummaryLink}>API settings</Text>
+              </TouchableOpacity>
               <View style={styles.apiKeyHeader}>
                 <Text style={styles.apiKeyLabel}>
-                  OpenAI API Key{" "}
+                  {provider.label} API Key{" "}
                   {apiKey?.trim()
                     ? "(✓ Provided)"
-                    : "(Optional - will use demo if empty)"}
+                    : provider.requiresApiKey
+                    ? "(Optional - will use demo if empty)"
+                    : "(Optional)"}
                   :
                 </Text>
                 <TouchableOpacity onPress={handleToggleApiKey}>
@@ -493,8 +488,12 @@ const SentimentAnalysisApp: React.FC = () => {
               </View>
               <TextInput
                 value={apiKey}
-                onChangeText={setApiKey}
-                placeholder="sk-proj-... (Leave empty for demo mode)"
+                onChangeText={handleApiKeyChange}
+                placeholder={
+                  provider.requiresApiKey
+                    ? "Leave empty for demo mode"
+                    : "Only if your server requires one"
+                }
                 secureTextEntry={!showApiKey}
                 style={[
                   styles.apiKeyInput,
@@ -506,10 +505,202 @@ const SentimentAnalysisApp: React.FC = () => {
                 ]}
               />
               <Text style={styles.apiKeyHint}>
-                {apiKey?.trim()
-                  ? "🟢 Will use real OpenAI API for analysis"
+                {apiKey?.trim() || !provider.requiresApiKey
+                  ? `🟢 Will use ${provider.label} at ${providerConfig.baseUrl} for analysis`
                   : "🟡 Demo mode - using simulated analysis"}
               </Text>
+              <Text style={styles.apiKeyHint}>
+                {IS_KEY_STORAGE_SECURE
+                  ? "🔒 Saved encrypted in the device keystore"
+                  : "⚠️ Saved unencrypted in browser storage - avoid on shared computers"}
+              </Text>
+              <View style={styles.connectionRow}>
+                <TouchableOpacity
+                  onPress={handleTestConnectionPress}
+                  disabled={testingConnection}
+                  style={styles.connectionButton}
+                >
+                  {testingConnection ? (
+                    <ActivityIndicator size="small" color="#3B82F6" />
+                  ) : (
+                    <Ionicons name="pulse" size={14} color="#3B82F6" />
+                  )}
+                  <Text style={styles.providerSummaryLink}>
+                    Test connection
+                  </Text>
+                </TouchableOpacity>
+                {connectionTest && (
+                  <Text
+                    style={[
+                      styles.connectionResult,
+                      {
+                        color: CONNECTION_STATUS_COLORS[connectionTest.status],
+                      },
+                    ]}
+                    numberOfLines={2}
+                  >
+                    {CONNECTION_STATUS_LABELS[connectionTest.status]}:{" "}
+                    {connectionTest.message}
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+
+          {(compareMode || activeTab === "model") && (
+            <View style={styles.engineContainer}>
+              <Text style={styles.apiKeyLabel}>Model Engine:</Text>
+              <View style={styles.engineOptions}>
+                {(
+                  [
+                    { value: "naive-bayes", label: "Naive Bayes" },
+                    { value: "knn", label: "TF-IDF k-NN" },
+                  ] as { value: ModelEngine; label: string }[]
+                ).map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() =>
+                      setModelOptions({ ...modelOptions, engine: option.value })
+                    }
+                    style={[
+                      styles.engineOption,
+                      modelEngine === option.value && styles.activeEngineOption,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.engineOptionText,
+                        modelEngine === option.value &&
+                          styles.activeEngineOptionText,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {modelEngine === "knn" && (
+                <View style={styles.stepperRow}>
+                  <Text style={styles.apiKeyLabel}>Neighbours (k):</Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity
+                      onPress={() => handleKnnKChange(-1)}
+                      style={styles.stepperButton}
+                    >
+                      <Ionicons name="remove" size={16} color="#8B5CF6" />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{knnK}</Text>
+                    <TouchableOpacity
+                      onPress={() => handleKnnKChange(1)}
+                      style={styles.stepperButton}
+                    >
+                      <Ionicons name="add" size={16} color="#8B5CF6" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+              <Text style={[styles.apiKeyLabel, styles.preprocessingLabel]}>
+                Preprocessing:
+              </Text>
+              <View style={styles.engineOptions}>
+                {(
+                  [
+                    { value: "none", label: "No stemming" },
+                    { value: "porter", label: "Porter" },
+                    { value: "lemma", label: "Lemmatize" },
+                  ] as { value: StemmingMode; label: string }[]
+                ).map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() =>
+                      handlePreprocessingChange({ stemming: option.value })
+                    }
+                    style={[
+                      styles.engineOption,
+                      preprocessing.stemming === option.value &&
+                        styles.activeEngineOption,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.engineOptionText,
+                        preprocessing.stemming === option.value &&
+                          styles.activeEngineOptionText,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.engineOptions}>
+                {(
+                  [
+                    { key: "removeStopwords", label: "Stopwords" },
+                    { key: "expandContractions", label: "Contractions" },
+                    { key: "normalizeEntities", label: "Entities" },
+                  ] as {
+                    key:
+                      | "removeStopwords"
+                      | "expandContractions"
+                      | "normalizeEntities";
+                    label: string;
+                  }[]
+                ).map((option) => (
+                  <TouchableOpacity
+                    key={option.key}
+                    onPress={() =>
+                      handlePreprocessingChange({
+                        [option.key]: !preprocessing[option.key],
+                      })
+                    }
+                    style={[
+                      styles.engineOption,
+                      preprocessing[option.key] && styles.activeEngineOption,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.engineOptionText,
+                        preprocessing[option.key] &&
+                          styles.activeEngineOptionText,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.modelLinks}>
+                <TouchableOpacity
+                  onPress={handleToggleTokens}
+                  style={styles.metricsLink}
+                >
+                  <Ionicons name="code-slash" size={14} color="#8B5CF6" />
+                  <Text style={styles.metricsLinkText}>
+                    {showTokens ? "Hide tokens" : "Show tokens"}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleViewMetricsPress}
+                  style={styles.metricsLink}
+                >
+                  <Ionicons name="stats-chart" size={14} color="#8B5CF6" />
+                  <Text style={styles.metricsLinkText}>View model metrics</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleManageDataPress}
+                  style={styles.metricsLink}
+                >
+                  <Ionicons name="albums" size={14} color="#8B5CF6" />
+                  <Text style={styles.metricsLinkText}>
+                    Training data ({trainingData.length})
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {showTokens && (
+                <TokenStream tokens={analyzeTokens(inputText, preprocessing)} />
+              )}
             </View>
           )}
 
@@ -518,7 +709,10 @@ const SentimentAnalysisApp: React.FC = () => {
             disabled={!inputText.trim() || loading}
             style={[
               styles.analyzeButton,
-              { backgroundColor: activeTab === "api" ? "#3B82F6" : "#8B5CF6" },
+              {
+                backgroundColor:
+                  !compareMode && activeTab === "api" ? "#3B82F6" : "#8B5CF6",
+              },
               (!inputText.trim() || loading) && styles.disabledButton,
             ]}
           >
@@ -531,12 +725,112 @@ const SentimentAnalysisApp: React.FC = () => {
               {getAnalyzeButtonText(loading, activeTab)}
             </Text>
           </TouchableOpacity>
+          {loading && (
+            <TouchableOpacity
+              onPress={handleCancelPress}
+              style={styles.cancelButton}
+            >
+              <Ionicons name="close-circle" size={16} color="#EF4444" />
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Results Section */}
-        {activeTab === "api" && <ResultCard result={apiResult} type="api" />}
-        {activeTab === "model" && (
-          <ResultCard result={modelResult} type="model" />
+        {!compareMode && activeTab === "api" && (
+          <ResultCard
+            result={apiResult}
+            type="api"
+            text={resultTexts.api}
+            ratingSettings={ratingSettings}
+          />
+        )}
+        {!compareMode && activeTab === "model" && (
+          <ResultCard
+            result={modelResult}
+            type="model"
+            text={resultTexts.model}
+            ratingSettings={ratingSettings}
+          />
+        )}
+        {compareMode && comparisonResult && (
+          <>
+            <View style={styles.comparisonCard}>
+              <View style={styles.comparisonHeader}>
+                <Ionicons
+                  name={
+                    comparisonResult.agree ? "checkmark-circle" : "close-circle"
+                  }
+                  size={20}
+                  color={comparisonResult.agree ? "#10B981" : "#EF4444"}
+                />
+                <Text style={styles.comparisonTitle}>
+                  {comparisonResult.agree
+                    ? "Both engines agree"
+                    : "Engines disagree"}
+                </Text>
+              </View>
+              <View style={styles.comparisonGrid}>
+                {(
+                  [
+                    { label: "API", outcome: comparisonResult.api },
+                    { label: "DIY Model", outcome: comparisonResult.model },
+                  ] as const
+                ).map(({ label, outcome }) => (
+                  <View key={label} style={styles.comparisonItem}>
+                    <Text style={styles.comparisonLabel}>{label}</Text>
+                    <Text
+                      style={[
+                        styles.comparisonValue,
+                        { color: getSentimentColor(outcome.result.sentiment) },
+                      ]}
+                    >
+                      {outcome.result.sentiment.toUpperCase()}
+                    </Text>
+                  </View>
+                ))}
+                <View style={styles.comparisonItem}>
+                  <Text style={styles.comparisonLabel}>Confidence Δ</Text>
+                  <Text style={styles.comparisonValue}>
+                    {comparisonResult.confidenceDelta >= 0 ? "+" : ""}
+                    {(comparisonResult.confidenceDelta * 100).toFixed(1)} pts
+                  </Text>
+                </View>
+                <View style={styles.comparisonItem}>
+                  <Text style={styles.comparisonLabel}>Latency Δ</Text>
+                  <Text style={styles.comparisonValue}>
+                    {comparisonResult.latencyDeltaMs >= 0 ? "+" : "-"}
+                    {formatLatency(Math.abs(comparisonResult.latencyDeltaMs))}
+                  </Text>
+                </View>
+              </View>
+              <Text style={styles.comparisonHint}>
+                Deltas are API minus DIY model. API took{" "}
+                {formatLatency(comparisonResult.apiLatencyMs)}, model took{" "}
+                {formatLatency(comparisonResult.modelLatencyMs)}.
+              </Text>
+            </View>
+            <View style={styles.comparisonColumns}>
+              <View style={styles.comparisonColumn}>
+                <ResultCard
+                  result={comparisonResult.api.result}
+                  type="api"
+                  compact
+                  text={resultTexts.compare}
+                  ratingSettings={ratingSettings}
+                />
+              </View>
+              <View style={styles.comparisonColumn}>
+                <ResultCard
+                  result={comparisonResult.model.result}
+                  type="model"
+                  compact
+                  text={resultTexts.compare}
+                  ratingSettings={ratingSettings}
+                />
+              </View>
+            </View>
+          </>
         )}
 
         {/* Approach Information */}
@@ -618,8 +912,13 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   headerText: {
+    flex: 1,
     marginLeft: 12,
   },
+  headerButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
   headerTitle: {
     fontSize: 20,
     fontWeight: "bold",
@@ -711,6 +1010,33 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#6B7280",
   },
+  aspectSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  aspectSummaryText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  providerSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  providerSummaryText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  providerSummaryLink: {
+    fontSize: 12,
+    color: "#3B82F6",
+    fontWeight: "600",
+    marginLeft: 4,
+  },
   toggleButton: {
     fontSize: 12,
     color: "#3B82F6",
@@ -729,6 +1055,102 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontStyle: "italic",
   },
+  connectionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  connectionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  connectionResult: {
+    flex: 1,
+    fontSize: 12,
+  },
+  engineContainer: {
+    marginBottom: 16,
+  },
+  engineOptions: {
+    flexDirection: "row",
+    marginTop: 8,
+    gap: 8,
+  },
+  engineOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+  },
+  activeEngineOption: {
+    borderColor: "#8B5CF6",
+    backgroundColor: "#F5F3FF",
+  },
+  engineOptionText: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  activeEngineOptionText: {
+    color: "#8B5CF6",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperButton: {
+    padding: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 6,
+  },
+  stepperValue: {
+    minWidth: 32,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  preprocessingLabel: {
+    marginTop: 12,
+  },
+  modelLinks: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  metricsLink: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  metricsLinkText: {
+    fontSize: 12,
+    color: "#8B5CF6",
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+  cancelButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: "#EF4444",
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
   analyzeButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -746,7 +1168,7 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginLeft: 8,
   },
-  resultCard: {
+  comparisonCard: {
     backgroundColor: "white",
     borderRadius: 12,
     padding: 20,
@@ -757,53 +1179,47 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
-  resultHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 16,
-  },
-  sentimentContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  sentimentBadge: {
-    paddingHorizontal: 12,
-    paddingVertical: 4,
-    borderRadius: 20,
-    marginLeft: 8,
-  },
-  sentimentText: {
-    fontSize: 12,
-    fontWeight: "600",
-  },
-  confidenceContainer: {
+  comparisonHeader: {
     flexDirection: "row",
     alignItems: "center",
+    marginBottom: 12,
   },
-  confidenceText: {
+  comparisonTitle: {
     fontSize: 16,
-    fontWeight: "bold",
-    marginLeft: 4,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
   },
-  resultGrid: {
+  comparisonGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
   },
-  resultItem: {
+  comparisonItem: {
     width: "50%",
     marginBottom: 8,
   },
-  resultLabel: {
+  comparisonLabel: {
     fontSize: 12,
     color: "#6B7280",
   },
-  resultValue: {
+  comparisonValue: {
     fontSize: 14,
     fontWeight: "600",
     color: "#1F2937",
     marginTop: 2,
   },
+  comparisonHint: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+  },
+  comparisonColumns: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  comparisonColumn: {
+    flex: 1,
+  },
   approachContainer: {
     marginBottom: 16,
   },
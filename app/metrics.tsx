@@ -0,0 +1,823 @@
+import ReliabilityDiagram from "@/components/ReliabilityDiagram";
+import { useAnalysisEngine } from "@/hooks/useAnalysisEngine";
+import { useTrainingData } from "@/hooks/useTrainingData";
+import {
+  CalibrationEngine,
+  CalibrationMethod,
+  EvaluationReport,
+  LocalModelOptions,
+  ModelEngine,
+  SENTIMENT_TYPES,
+  StarEvaluationReport,
+} from "@/types/types";
+import {
+  CALIBRATION_METHOD_LABELS,
+  evaluateCalibration,
+  MIN_CALIBRATION_SAMPLES,
+} from "@/utils/calibration";
+import {
+  CALIBRATION_FOLDS,
+  DEFAULT_TEST_RATIO,
+  evaluateLocalModel,
+  evaluateStarRatings,
+  getKeywordCalibration,
+  getModelCalibration,
+  parseLabelledLines,
+  parseStarRatedLines,
+} from "@/utils/evaluation";
+import {
+  DEFAULT_LANGUAGE,
+  getTrainingDataForLanguage,
+} from "@/utils/languages";
+import { DEFAULT_MODEL_OPTIONS } from "@/utils/localModels";
+import { NEUTRAL_BAND_RANGE } from "@/utils/ratings";
+import { getSentimentColor, handleAnalysisError } from "@/utils/utils";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const CALIBRATION_ENGINE_LABELS: Record<CalibrationEngine, string> = {
+  model: "DIY model",
+  keywords: "Keyword lexicon",
+};
+
+const ModelMetricsScreen: React.FC = () => {
+  const params = useLocalSearchParams<{ engine?: string; k?: string }>();
+  const [testRatio, setTestRatio] = useState<number>(DEFAULT_TEST_RATIO);
+  const [useSeparateTestSet, setUseSeparateTestSet] = useState<boolean>(false);
+  const [testSetInput, setTestSetInput] = useState<string>("");
+  const [starSetInput, setStarSetInput] = useState<string>("");
+  const [calibrationEngine, setCalibrationEngine] =
+    useState<CalibrationEngine>("model");
+
+  const { trainingData, loading } = useTrainingData();
+  const {
+    modelOptions: activeModelOptions,
+    setModelOptions,
+    ratingSettings,
+    setRatingSettings,
+  } = useAnalysisEngine();
+  const { preprocessing, calibration } = activeModelOptions;
+  const engine: ModelEngine =
+    params.engine === "knn" ? "knn" : DEFAULT_MODEL_OPTIONS.engine;
+  const k = Number(params.k) || DEFAULT_MODEL_OPTIONS.k;
+
+  const testSet = useMemo(
+    () => parseLabelledLines(testSetInput),
+    [testSetInput]
+  );
+
+  const evaluation = useMemo((): {
+    report: EvaluationReport | null;
+    error: string | null;
+  } => {
+    const modelOptions: LocalModelOptions = {
+      engine,
+      k,
+      preprocessing,
+      calibration,
+    };
+
+    try {
+      return {
+        report: evaluateLocalModel(
+          getTrainingDataForLanguage(trainingData, DEFAULT_LANGUAGE),
+          modelOptions,
+          {
+            testRatio,
+            testSet: useSeparateTestSet ? testSet : undefined,
+          }
+        ),
+        error: null,
+      };
+    } catch (error) {
+      return {
+        report: null,
+        error: handleAnalysisError(error, "Evaluation failed"),
+      };
+    }
+  }, [
+    trainingData,
+    engine,
+    k,
+    preprocessing,
+    calibration,
+    testRatio,
+    useSeparateTestSet,
+    testSet,
+  ]);
+
+  const starSet = useMemo(
+    () => parseStarRatedLines(starSetInput),
+    [starSetInput]
+  );
+
+  const starEvaluation = useMemo((): {
+    report: StarEvaluationReport | null;
+    error: string | null;
+  } => {
+    if (starSet.length === 0) return { report: null, error: null };
+
+    try {
+      return {
+        report: evaluateStarRatings(
+          starSet,
+          trainingData,
+          { engine, k, preprocessing, calibration },
+          ratingSettings.neutralBand
+        ),
+        error: null,
+      };
+    } catch (error) {
+      return {
+        report: null,
+        error: handleAnalysisError(error, "Star evaluation failed"),
+      };
+    }
+  }, [
+    starSet,
+    trainingData,
+    engine,
+    k,
+    preprocessing,
+    calibration,
+    ratingSettings,
+  ]);
+
+  const handleCalibrationChange = (method: CalibrationMethod): void => {
+    setModelOptions({ ...activeModelOptions, calibration: method });
+  };
+
+  const handleNeutralBandChange = (delta: number): void => {
+    const { min, max } = NEUTRAL_BAND_RANGE;
+    setRatingSettings({
+      ...ratingSettings,
+      neutralBand: Math.min(
+        Math.max(
+          Math.round((ratingSettings.neutralBand + delta) * 100) / 100,
+          min
+        ),
+        max
+      ),
+    });
+  };
+
+  const handleTestRatioChange = (delta: number): void => {
+    setTestRatio(
+      Math.min(Math.max(Math.round((testRatio + delta) * 100) / 100, 0.1), 0.5)
+    );
+  };
+
+  const formatPercent = (value: number): string =>
+    `${(value * 100).toFixed(1)}%`;
+
+  const report = evaluation.report;
+
+  // The fits are memoized per training set and options, so switching back
+  // and forth between engines does not re-run the cross-validation.
+  const calibrationFit = useMemo(
+    () =>
+      calibrationEngine === "model"
+        ? getModelCalibration(trainingData, DEFAULT_LANGUAGE, {
+            engine,
+            k,
+            preprocessing,
+            calibration,
+          })
+        : getKeywordCalibration(trainingData, DEFAULT_LANGUAGE, calibration),
+    [calibrationEngine, trainingData, engine, k, preprocessing, calibration]
+  );
+
+  const calibrationReport = useMemo(
+    () => evaluateCalibration(calibrationFit.samples, calibration),
+    [calibrationFit, calibration]
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator color="#8B5CF6" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Evaluation Setup */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="options" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>Evaluation Setup</Text>
+          </View>
+          <Text style={styles.label}>
+            Engine: {engine === "knn" ? `TF-IDF k-NN (k=${k})` : "Naive Bayes"}
+          </Text>
+
+          <View style={styles.toggleRow}>
+            <TouchableOpacity
+              onPress={() => setUseSeparateTestSet(false)}
+              style={[
+                styles.toggleOption,
+                !useSeparateTestSet && styles.activeToggleOption,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.toggleText,
+                  !useSeparateTestSet && styles.activeToggleText,
+                ]}
+              >
+                Hold-out split
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setUseSeparateTestSet(true)}
+              style={[
+                styles.toggleOption,
+                useSeparateTestSet && styles.activeToggleOption,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.toggleText,
+                  useSeparateTestSet && styles.activeToggleText,
+                ]}
+              >
+                Separate test set
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {useSeparateTestSet ? (
+            <>
+              <TextInput
+                value={testSetInput}
+                onChangeText={setTestSetInput}
+                placeholder={
+                  "One example per line, e.g.\npositive | Great service!"
+                }
+                multiline
+                numberOfLines={4}
+                style={styles.textInput}
+                textAlignVertical="top"
+              />
+              <Text style={styles.hint}>
+                {testSet.length} labelled examples parsed
+              </Text>
+            </>
+          ) : (
+            <View style={styles.stepperRow}>
+              <Text style={styles.label}>Test split:</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  onPress={() => handleTestRatioChange(-0.05)}
+                  style={styles.stepperButton}
+                >
+                  <Ionicons name="remove" size={16} color="#8B5CF6" />
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>
+                  {Math.round(testRatio * 100)}%
+                </Text>
+                <TouchableOpacity
+                  onPress={() => handleTestRatioChange(0.05)}
+                  style={styles.stepperButton}
+                >
+                  <Ionicons name="add" size={16} color="#8B5CF6" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+
+        {evaluation.error && (
+          <View style={styles.card}>
+            <Text style={styles.errorText}>{evaluation.error}</Text>
+          </View>
+        )}
+
+        {report && (
+          <>
+            {/* Summary */}
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="stats-chart" size={20} color="#8B5CF6" />
+                <Text style={styles.cardTitle}>Summary</Text>
+              </View>
+              <View style={styles.summaryGrid}>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryValue}>
+                    {formatPercent(report.accuracy)}
+                  </Text>
+                  <Text style={styles.label}>Accuracy</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryValue}>
+                    {report.macroF1.toFixed(3)}
+                  </Text>
+                  <Text style={styles.label}>Macro-F1</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryValue}>
+                    {report.trainSamples}/{report.testSamples}
+                  </Text>
+                  <Text style={styles.label}>Train/Test</Text>
+                </View>
+              </View>
+            </View>
+
+            {/* Per-class Metrics */}
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="list" size={20} color="#8B5CF6" />
+                <Text style={styles.cardTitle}>Per-class Metrics</Text>
+              </View>
+              <View style={styles.tableRow}>
+                <Text style={[styles.tableHeader, styles.tableLabelCell]}>
+                  Class
+                </Text>
+                {["Precision", "Recall", "F1", "Support"].map((heading) => (
+                  <Text key={heading} style={styles.tableHeader}>
+                    {heading}
+                  </Text>
+                ))}
+              </View>
+              {SENTIMENT_TYPES.map((sentiment) => {
+                const metrics = report.perClass[sentiment];
+                return (
+                  <View key={sentiment} style={styles.tableRow}>
+                    <Text
+                      style={[
+                        styles.tableCell,
+                        styles.tableLabelCell,
+                        { color: getSentimentColor(sentiment) },
+                      ]}
+                    >
+                      {sentiment}
+                    </Text>
+                    <Text style={styles.tableCell}>
+                      {metrics.precision.toFixed(2)}
+                    </Text>
+                    <Text style={styles.tableCell}>
+                      {metrics.recall.toFixed(2)}
+                    </Text>
+                    <Text style={styles.tableCell}>
+                      {metrics.f1.toFixed(2)}
+                    </Text>
+                    <Text style={styles.tableCell}>{metrics.support}</Text>
+                  </View>
+                );
+              })}
+            </View>
+
+            {/* Confusion Matrix */}
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="grid" size={20} color="#8B5CF6" />
+                <Text style={styles.cardTitle}>Confusion Matrix</Text>
+              </View>
+              <Text style={styles.hint}>Rows: actual · Columns: predicted</Text>
+              <View style={styles.tableRow}>
+                <Text style={[styles.tableHeader, styles.tableLabelCell]} />
+                {SENTIMENT_TYPES.map((predicted) => (
+                  <Text key={predicted} style={styles.tableHeader}>
+                    {predicted}
+                  </Text>
+                ))}
+              </View>
+              {SENTIMENT_TYPES.map((actual) => (
+                <View key={actual} style={styles.tableRow}>
+                  <Text
+                    style={[
+                      styles.tableCell,
+                      styles.tableLabelCell,
+                      { color: getSentimentColor(actual) },
+                    ]}
+                  >
+                    {actual}
+                  </Text>
+                  {SENTIMENT_TYPES.map((predicted) => (
+                    <View
+                      key={predicted}
+                      style={[
+                        styles.matrixCell,
+                        actual === predicted && {
+                          backgroundColor: `${getSentimentColor(actual)}20`,
+                        },
+                      ]}
+                    >
+                      <Text style={styles.matrixValue}>
+                        {report.confusionMatrix[actual][predicted]}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Calibration */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="speedometer" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>Calibration</Text>
+          </View>
+          <View style={styles.toggleRow}>
+            {(["model", "keywords"] as CalibrationEngine[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setCalibrationEngine(option)}
+                style={[
+                  styles.toggleOption,
+                  calibrationEngine === option && styles.activeToggleOption,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.toggleText,
+                    calibrationEngine === option && styles.activeToggleText,
+                  ]}
+                >
+                  {CALIBRATION_ENGINE_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.toggleRow}>
+            {(["platt", "isotonic", "none"] as CalibrationMethod[]).map(
+              (method) => (
+                <TouchableOpacity
+                  key={method}
+                  onPress={() => handleCalibrationChange(method)}
+                  style={[
+                    styles.toggleOption,
+                    calibration === method && styles.activeToggleOption,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.toggleText,
+                      calibration === method && styles.activeToggleText,
+                    ]}
+                  >
+                    {CALIBRATION_METHOD_LABELS[method]}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+          <View style={styles.summaryGrid}>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>
+                {formatPercent(calibrationReport.ece)}
+              </Text>
+              <Text style={styles.label}>ECE raw</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>
+                {formatPercent(calibrationReport.calibratedEce)}
+              </Text>
+              <Text style={styles.label}>ECE calibrated</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>
+                {calibrationReport.samples}
+              </Text>
+              <Text style={styles.label}>Predictions</Text>
+            </View>
+          </View>
+          {calibrationFit.calibrator.method === "none" &&
+          calibrationFit.calibrator.skipped ? (
+            <Text style={styles.hint}>
+              Not calibrated: a curve needs {MIN_CALIBRATION_SAMPLES}{" "}
+              predictions with both hits and misses, so analyses show raw
+              confidences until there is more training data.
+            </Text>
+          ) : (
+            calibration !== "none" &&
+            calibrationReport.samples < MIN_CALIBRATION_SAMPLES * 2 && (
+              <Text style={styles.hint}>
+                Each half needs {MIN_CALIBRATION_SAMPLES} held-out predictions
+                to fit a curve; until then the calibrated figures stay raw.
+              </Text>
+            )
+          )}
+          <Text style={styles.sectionLabel}>Raw confidence</Text>
+          <ReliabilityDiagram bins={calibrationReport.bins} />
+          {calibration !== "none" && (
+            <>
+              <Text style={styles.sectionLabel}>
+                {CALIBRATION_METHOD_LABELS[calibration]} calibrated
+              </Text>
+              <ReliabilityDiagram bins={calibrationReport.calibratedBins} />
+            </>
+          )}
+          <Text style={styles.hint}>
+            Bars show how often predictions in each confidence range were right;
+            dashed outlines show where a calibrated model would reach.
+            Predictions come from {CALIBRATION_FOLDS}-fold cross-validation over
+            the training data; calibrated figures are cross-fitted on two halves
+            of them.
+          </Text>
+        </View>
+
+        {/* Rating Scale */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="star" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>Rating Scale</Text>
+          </View>
+          <View style={styles.stepperRow}>
+            <Text style={styles.label}>Neutral band:</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() =>
+                  handleNeutralBandChange(-NEUTRAL_BAND_RANGE.step)
+                }
+                style={styles.stepperButton}
+              >
+                <Ionicons name="remove" size={16} color="#8B5CF6" />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>
+                ±{ratingSettings.neutralBand.toFixed(2)}
+              </Text>
+              <TouchableOpacity
+                onPress={() => handleNeutralBandChange(NEUTRAL_BAND_RANGE.step)}
+                style={styles.stepperButton}
+              >
+                <Ionicons name="add" size={16} color="#8B5CF6" />
+              </TouchableOpacity>
+            </View>
+          </View>
+          <View style={styles.toggleRow}>
+            {[
+              { value: true, label: "Show stars" },
+              { value: false, label: "Polarity only" },
+            ].map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                onPress={() =>
+                  setRatingSettings({
+                    ...ratingSettings,
+                    showStars: option.value,
+                  })
+                }
+                style={[
+                  styles.toggleOption,
+                  ratingSettings.showStars === option.value &&
+                    styles.activeToggleOption,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.toggleText,
+                    ratingSettings.showStars === option.value &&
+                      styles.activeToggleText,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>
+            Polarities within the band rate three stars; beyond it each side
+            stretches linearly to one or five.
+          </Text>
+        </View>
+
+        {/* Star Ratings */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="star-half" size={20} color="#8B5CF6" />
+            <Text style={styles.cardTitle}>Star Rating Evaluation</Text>
+          </View>
+          <TextInput
+            value={starSetInput}
+            onChangeText={setStarSetInput}
+            placeholder={
+              "One review per line, e.g.\n4 | Works well, bit pricey"
+            }
+            multiline
+            numberOfLines={4}
+            style={styles.textInput}
+            textAlignVertical="top"
+          />
+          <Text style={styles.hint}>
+            {starSet.length} star-rated reviews parsed
+          </Text>
+          {starEvaluation.error && (
+            <Text style={styles.errorText}>{starEvaluation.error}</Text>
+          )}
+          {starEvaluation.report && (
+            <>
+              <View style={styles.tableRow}>
+                <Text style={[styles.tableHeader, styles.tableLabelCell]}>
+                  Engine
+                </Text>
+                {["MAE", "Exact", "±1 star"].map((heading) => (
+                  <Text key={heading} style={styles.tableHeader}>
+                    {heading}
+                  </Text>
+                ))}
+              </View>
+              {starEvaluation.report.rows.map((row) => (
+                <View key={row.engine} style={styles.tableRow}>
+                  <Text style={[styles.tableCell, styles.tableLabelCell]}>
+                    {row.engine}
+                  </Text>
+                  <Text style={styles.tableCell}>{row.mae.toFixed(2)}</Text>
+                  <Text style={styles.tableCell}>
+                    {formatPercent(row.exactRate)}
+                  </Text>
+                  <Text style={styles.tableCell}>
+                    {formatPercent(row.withinOneRate)}
+                  </Text>
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+    marginBottom: 8,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+    marginTop: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#EF4444",
+  },
+  toggleRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginVertical: 12,
+  },
+  toggleOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+  },
+  activeToggleOption: {
+    borderColor: "#8B5CF6",
+    backgroundColor: "#F5F3FF",
+  },
+  toggleText: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  activeToggleText: {
+    color: "#8B5CF6",
+    fontWeight: "600",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    minHeight: 100,
+    marginBottom: 8,
+  },
+  stepperRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperButton: {
+    padding: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 6,
+  },
+  stepperValue: {
+    minWidth: 48,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  summaryGrid: {
+    flexDirection: "row",
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#1F2937",
+    marginBottom: 2,
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  tableHeader: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#6B7280",
+    textAlign: "center",
+  },
+  tableLabelCell: {
+    flex: 1.2,
+    textAlign: "left",
+    textTransform: "capitalize",
+    fontWeight: "600",
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 13,
+    color: "#1F2937",
+    textAlign: "center",
+  },
+  matrixCell: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    marginHorizontal: 2,
+    borderRadius: 6,
+    backgroundColor: "#F9FAFB",
+  },
+  matrixValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+});
+
+export default ModelMetricsScreen;
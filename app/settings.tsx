@@ -0,0 +1,664 @@
+import { useAnalysisEngine } from "@/hooks/useAnalysisEngine";
+import { useSettingsPresets } from "@/hooks/useSettingsPresets";
+import {
+  ApiErrorCode,
+  FallbackAction,
+  ProviderConfig,
+  SettingsPreset,
+} from "@/types/types";
+import {
+  getDefaultProviderConfig,
+  getSentimentProvider,
+  PROVIDER_IDS,
+  switchProvider,
+} from "@/utils/providers";
+import { API_ERROR_LABELS } from "@/utils/request";
+import {
+  clearResponseCache,
+  getResponseCacheSize,
+} from "@/utils/responseCache";
+import {
+  CACHE_SIZE_RANGE,
+  CACHE_TTL_RANGE,
+  clampSetting,
+  formatCacheTtl,
+  MAX_TOKENS_RANGE,
+  PROMPT_PREVIEW_TEXT,
+  MAX_RETRIES_RANGE,
+  TEMPERATURE_RANGE,
+  TIMEOUT_RANGE,
+  upsertSettingsPreset,
+  withConfigDefaults,
+} from "@/utils/settings";
+import {
+  buildPromptMessages,
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_TEXT_PLACEHOLDER,
+} from "@/utils/prompt";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const SettingsScreen: React.FC = () => {
+  const { providerConfig, setProviderConfig } = useAnalysisEngine();
+  const { presets, updatePresets } = useSettingsPresets();
+  const [draft, setDraft] = useState<ProviderConfig>(providerConfig);
+  const [presetName, setPresetName] = useState<string>("");
+  const [cacheSize, setCacheSize] = useState<number>(0);
+
+  useEffect(() => {
+    getResponseCacheSize().then(setCacheSize);
+  }, []);
+
+  const provider = getSentimentProvider(draft.provider);
+  const hasPlaceholder = draft.promptTemplate.includes(PROMPT_TEXT_PLACEHOLDER);
+  const preview = buildPromptMessages(
+    draft.promptTemplate,
+    PROMPT_PREVIEW_TEXT
+  );
+
+  const updateDraft = <K extends keyof ProviderConfig>(
+    key: K,
+    value: ProviderConfig[K]
+  ): void => {
+    setDraft({ ...draft, [key]: value });
+  };
+
+  // Settings handlers
+  const handleSavePress = (): void => {
+    setProviderConfig({
+      ...draft,
+      baseUrl: draft.baseUrl.trim() || provider.defaultBaseUrl,
+      model: draft.model.trim() || provider.defaultModel,
+    });
+    router.back();
+  };
+
+  const handleResetPress = (): void => {
+    setDraft(getDefaultProviderConfig(draft.provider));
+  };
+
+  // Cache handlers
+  const handleClearCachePress = (): void => {
+    Alert.alert("Clear cache", `Remove ${cacheSize} cached responses?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: async () => {
+          await clearResponseCache();
+          setCacheSize(0);
+        },
+      },
+    ]);
+  };
+
+  // Preset handlers
+  const handleSavePresetPress = async (): Promise<void> => {
+    if (!presetName.trim()) return;
+
+    await updatePresets(upsertSettingsPreset(presets, presetName, draft));
+    setPresetName("");
+  };
+
+  const handleDeletePresetPress = (preset: SettingsPreset): void => {
+    Alert.alert("Delete preset", `Delete "${preset.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () =>
+          updatePresets(presets.filter((current) => current.id !== preset.id)),
+      },
+    ]);
+  };
+
+  const renderStepper = (
+    label: string,
+    value: number,
+    display: string,
+    range: { min: number; max: number; step: number },
+    onChange: (value: number) => void
+  ) => (
+    <View style={styles.stepperRow}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          onPress={() => onChange(clampSetting(value - range.step, range))}
+          style={styles.stepperButton}
+        >
+          <Ionicons name="remove" size={16} color="#3B82F6" />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{display}</Text>
+        <TouchableOpacity
+          onPress={() => onChange(clampSetting(value + range.step, range))}
+          style={styles.stepperButton}
+        >
+          <Ionicons name="add" size={16} color="#3B82F6" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Provider */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="cloud" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Provider</Text>
+          </View>
+          <View style={styles.chipRow}>
+            {PROVIDER_IDS.map((id) => (
+              <TouchableOpacity
+                key={id}
+                onPress={() => setDraft(switchProvider(draft, id))}
+                style={[
+                  styles.chip,
+                  draft.provider === id && styles.activeChip,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    draft.provider === id && styles.activeChipText,
+                  ]}
+                >
+                  {getSentimentProvider(id).label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.label}>Base URL</Text>
+          <TextInput
+            value={draft.baseUrl}
+            onChangeText={(value) => updateDraft("baseUrl", value)}
+            placeholder={provider.defaultBaseUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+          <Text style={styles.label}>Model</Text>
+          <TextInput
+            value={draft.model}
+            onChangeText={(value) => updateDraft("model", value)}
+            placeholder={provider.defaultModel}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+        </View>
+
+        {/* Generation */}
+        {provider.usesPrompt && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="options" size={20} color="#3B82F6" />
+              <Text style={styles.cardTitle}>Generation</Text>
+            </View>
+            {renderStepper(
+              "Temperature",
+              draft.temperature,
+              draft.temperature.toFixed(1),
+              TEMPERATURE_RANGE,
+              (value) => updateDraft("temperature", value)
+            )}
+            {renderStepper(
+              "Max tokens",
+              draft.maxTokens,
+              String(draft.maxTokens),
+              MAX_TOKENS_RANGE,
+              (value) => updateDraft("maxTokens", value)
+            )}
+          </View>
+        )}
+
+        {/* Prompt Template */}
+        {provider.usesPrompt && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="document-text" size={20} color="#3B82F6" />
+              <Text style={styles.cardTitle}>Prompt Template</Text>
+              <TouchableOpacity
+                onPress={() =>
+                  updateDraft("promptTemplate", DEFAULT_PROMPT_TEMPLATE)
+                }
+                style={styles.headerAction}
+              >
+                <Text style={styles.linkText}>Default</Text>
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              value={draft.promptTemplate}
+              onChangeText={(value) => updateDraft("promptTemplate", value)}
+              multiline
+              style={[styles.input, styles.templateInput]}
+              textAlignVertical="top"
+            />
+            <Text style={hasPlaceholder ? styles.hint : styles.warningText}>
+              {hasPlaceholder
+                ? `${PROMPT_TEXT_PLACEHOLDER} is replaced with the text being analysed, fenced off as data. Output format and safety rules are fixed in the system message.`
+                : `No ${PROMPT_TEXT_PLACEHOLDER} placeholder: the text will be appended to the end.`}
+            </Text>
+            <Text style={[styles.label, styles.previewLabel]}>
+              System message
+            </Text>
+            <View style={styles.previewBox}>
+              <Text style={styles.previewText}>{preview.system}</Text>
+            </View>
+            <Text style={[styles.label, styles.previewLabel]}>
+              User message
+            </Text>
+            <View style={styles.previewBox}>
+              <Text style={styles.previewText}>{preview.user}</Text>
+            </View>
+          </View>
+        )}
+
+        {/* Requests */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="refresh-circle" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Requests</Text>
+          </View>
+          {renderStepper(
+            "Timeout",
+            draft.timeoutMs,
+            `${draft.timeoutMs / 1000}s`,
+            TIMEOUT_RANGE,
+            (value) => updateDraft("timeoutMs", value)
+          )}
+          {renderStepper(
+            "Retries on 429/5xx",
+            draft.maxRetries,
+            String(draft.maxRetries),
+            MAX_RETRIES_RANGE,
+            (value) => updateDraft("maxRetries", value)
+          )}
+          <Text style={[styles.label, styles.previewLabel]}>
+            When a request fails
+          </Text>
+          {(Object.keys(API_ERROR_LABELS) as ApiErrorCode[]).map((code) => (
+            <View key={code} style={styles.policyRow}>
+              <Text style={styles.policyLabel}>{API_ERROR_LABELS[code]}</Text>
+              {(
+                [
+                  { value: "simulate", label: "Simulate" },
+                  { value: "fail", label: "Show error" },
+                ] as { value: FallbackAction; label: string }[]
+              ).map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() =>
+                    updateDraft("fallbackPolicy", {
+                      ...draft.fallbackPolicy,
+                      [code]: option.value,
+                    })
+                  }
+                  style={[
+                    styles.chip,
+                    draft.fallbackPolicy[code] === option.value &&
+                      styles.activeChip,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      draft.fallbackPolicy[code] === option.value &&
+                        styles.activeChipText,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
+
+        {/* Cache */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="archive" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Response Cache</Text>
+          </View>
+          <View style={styles.chipRow}>
+            {[
+              { value: true, label: "Use cache" },
+              { value: false, label: "Bypass" },
+            ].map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                onPress={() => updateDraft("cacheEnabled", option.value)}
+                style={[
+                  styles.chip,
+                  draft.cacheEnabled === option.value && styles.activeChip,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    draft.cacheEnabled === option.value &&
+                      styles.activeChipText,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {renderStepper(
+            "Keep answers for",
+            draft.cacheTtlMs,
+            formatCacheTtl(draft.cacheTtlMs),
+            CACHE_TTL_RANGE,
+            (value) => updateDraft("cacheTtlMs", value)
+          )}
+          {renderStepper(
+            "Max entries",
+            draft.cacheMaxEntries,
+            String(draft.cacheMaxEntries),
+            CACHE_SIZE_RANGE,
+            (value) => updateDraft("cacheMaxEntries", value)
+          )}
+          <Text style={styles.hint}>
+            Repeated texts sent to the same provider, model and prompt are
+            answered from the cache without using tokens.
+          </Text>
+          <TouchableOpacity
+            onPress={handleClearCachePress}
+            disabled={cacheSize === 0}
+            style={[
+              styles.secondaryButton,
+              styles.cacheButton,
+              cacheSize === 0 && styles.disabledButton,
+            ]}
+          >
+            <Text style={styles.secondaryButtonText}>
+              Clear cache ({cacheSize} entries)
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Presets */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="bookmarks" size={20} color="#3B82F6" />
+            <Text style={styles.cardTitle}>Presets</Text>
+          </View>
+          {presets.length === 0 && (
+            <Text style={styles.hint}>No presets saved yet.</Text>
+          )}
+          {presets.map((preset) => (
+            <View key={preset.id} style={styles.presetRow}>
+              <TouchableOpacity
+                onPress={() => setDraft(withConfigDefaults(preset.config))}
+                style={styles.presetBody}
+              >
+                <Text style={styles.presetName}>{preset.name}</Text>
+                <Text style={styles.label}>
+                  {getSentimentProvider(preset.config.provider).label} ·{" "}
+                  {preset.config.model}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeletePresetPress(preset)}>
+                <Ionicons name="trash" size={16} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.presetForm}>
+            <TextInput
+              value={presetName}
+              onChangeText={setPresetName}
+              placeholder="Preset name"
+              style={[styles.input, styles.presetInput]}
+            />
+            <TouchableOpacity
+              onPress={handleSavePresetPress}
+              disabled={!presetName.trim()}
+              style={[
+                styles.secondaryButton,
+                !presetName.trim() && styles.disabledButton,
+              ]}
+            >
+              <Text style={styles.secondaryButtonText}>Save preset</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <TouchableOpacity onPress={handleSavePress} style={styles.saveButton}>
+          <Ionicons name="checkmark" size={16} color="white" />
+          <Text style={styles.saveButtonText}>Save settings</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleResetPress} style={styles.reset}>
+          <Text style={styles.resetText}>Reset to provider defaults</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8FAFC",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginLeft: 8,
+  },
+  headerAction: {
+    marginLeft: "auto",
+  },
+  linkText: {
+    fontSize: 12,
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  label: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+  },
+  warningText: {
+    fontSize: 12,
+    color: "#B45309",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  templateInput: {
+    minHeight: 120,
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    borderRadius: 20,
+  },
+  activeChip: {
+    borderColor: "#3B82F6",
+    backgroundColor: "#EFF6FF",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  activeChipText: {
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#3B82F6",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperValue: {
+    minWidth: 48,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  previewLabel: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  previewBox: {
+    backgroundColor: "#F3F4F6",
+    borderRadius: 8,
+    padding: 12,
+  },
+  previewText: {
+    fontSize: 12,
+    color: "#374151",
+    fontFamily: "SpaceMono",
+  },
+  policyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 6,
+  },
+  policyLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  presetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  presetBody: {
+    flex: 1,
+  },
+  presetName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  presetForm: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  presetInput: {
+    flex: 1,
+    marginTop: 0,
+    marginBottom: 0,
+  },
+  secondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#3B82F6",
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3B82F6",
+  },
+  cacheButton: {
+    alignItems: "center",
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3B82F6",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  reset: {
+    alignItems: "center",
+    paddingVertical: 16,
+    marginBottom: 24,
+  },
+  resetText: {
+    fontSize: 13,
+    color: "#6B7280",
+  },
+});
+
+export default SettingsScreen;
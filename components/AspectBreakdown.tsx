@@ -0,0 +1,113 @@
+import { AspectBreakdownProps, AspectSource } from "@/types/types";
+import { getSentimentColor } from "@/utils/utils";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+const ASPECT_SOURCE_LABELS: Record<AspectSource, string> = {
+  dictionary: "dictionary",
+  llm: "LLM",
+};
+
+// One row per aspect: its own verdict and the words it rests on.
+const AspectBreakdown: React.FC<AspectBreakdownProps> = ({
+  aspects,
+  source,
+}) => (
+  <View style={styles.container}>
+    <Text style={styles.title}>
+      Aspects{source ? ` (${ASPECT_SOURCE_LABELS[source]})` : ""}:
+    </Text>
+    {aspects.length === 0 ? (
+      <Text style={styles.emptyText}>No aspects mentioned.</Text>
+    ) : (
+      aspects.map((aspect, index) => (
+        <View key={`${index}-${aspect.aspect}`} style={styles.aspectRow}>
+          <View style={styles.aspectHeader}>
+            <View
+              style={[
+                styles.aspectDot,
+                { backgroundColor: getSentimentColor(aspect.sentiment) },
+              ]}
+            />
+            <Text style={styles.aspectName}>{aspect.aspect}</Text>
+            <Text
+              style={[
+                styles.aspectSentiment,
+                { color: getSentimentColor(aspect.sentiment) },
+              ]}
+            >
+              {aspect.sentiment}
+            </Text>
+            <Text style={styles.aspectConfidence}>
+              {(aspect.confidence * 100).toFixed(0)}%
+            </Text>
+          </View>
+          {Boolean(aspect.span) && (
+            <Text style={styles.aspectSpan} numberOfLines={2}>
+              “{aspect.span}”
+            </Text>
+          )}
+        </View>
+      ))
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    fontStyle: "italic",
+  },
+  aspectRow: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  aspectHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  aspectDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  aspectName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  aspectSentiment: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "capitalize",
+    marginRight: 8,
+  },
+  aspectConfidence: {
+    width: 40,
+    fontSize: 12,
+    color: "#6B7280",
+    textAlign: "right",
+  },
+  aspectSpan: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+    marginTop: 2,
+    marginLeft: 16,
+  },
+});
+
+export default AspectBreakdown;
@@ -0,0 +1,168 @@
+import { EMOTION_COLORS, EMOTION_LABELS } from "@/constants/Emotions";
+import { EmotionChartProps, EmotionSource } from "@/types/types";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+const EMOTION_SOURCE_LABELS: Record<EmotionSource, string> = {
+  llm: "LLM",
+  lexicon: "lexicon",
+};
+
+// One bar per emotion of the scheme, in wheel order; the compact form is a
+// single stacked bar for list rows.
+const EmotionChart: React.FC<EmotionChartProps> = ({
+  emotions,
+  compact = false,
+}) => {
+  const labels = EMOTION_LABELS[emotions.scheme];
+  const maxProbability = Math.max(
+    ...labels.map((emotion) => emotions.probabilities[emotion] ?? 0)
+  );
+  const dominantText = emotions.dominant ?? "no clear emotion";
+
+  if (compact) {
+    return (
+      <View style={styles.compactContainer}>
+        <View style={styles.stackedBar}>
+          {labels.map((emotion) => (
+            <View
+              key={emotion}
+              style={{
+                flex: emotions.probabilities[emotion] ?? 0,
+                backgroundColor: EMOTION_COLORS[emotion],
+                opacity: emotions.dominant ? 1 : 0.3,
+              }}
+            />
+          ))}
+        </View>
+        <Text
+          style={[
+            styles.compactLabel,
+            emotions.dominant && { color: EMOTION_COLORS[emotions.dominant] },
+          ]}
+        >
+          {dominantText}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        Emotions ({emotions.scheme === "ekman" ? "Ekman" : "Plutchik"},{" "}
+        {EMOTION_SOURCE_LABELS[emotions.source]}):
+      </Text>
+      {labels.map((emotion) => {
+        const probability = emotions.probabilities[emotion] ?? 0;
+        const isDominant = emotion === emotions.dominant;
+        return (
+          <View key={emotion} style={styles.emotionRow}>
+            <Text
+              style={[styles.emotionLabel, isDominant && styles.dominantLabel]}
+            >
+              {emotion}
+            </Text>
+            <View style={styles.barTrack}>
+              <View
+                style={[
+                  styles.barFill,
+                  {
+                    width: `${
+                      maxProbability > 0
+                        ? (probability / maxProbability) * 100
+                        : 0
+                    }%`,
+                    backgroundColor: EMOTION_COLORS[emotion],
+                    opacity: emotions.dominant ? 1 : 0.3,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.emotionValue}>
+              {(probability * 100).toFixed(0)}%
+            </Text>
+          </View>
+        );
+      })}
+      {!emotions.dominant && (
+        <Text style={styles.emptyText}>
+          No emotion words found; every emotion is equally likely.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  emotionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+  },
+  emotionLabel: {
+    width: 88,
+    fontSize: 12,
+    color: "#374151",
+    textTransform: "capitalize",
+  },
+  dominantLabel: {
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#F3F4F6",
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  emotionValue: {
+    width: 40,
+    fontSize: 12,
+    color: "#6B7280",
+    textAlign: "right",
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+  compactContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  stackedBar: {
+    flex: 1,
+    flexDirection: "row",
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+    backgroundColor: "#F3F4F6",
+  },
+  compactLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6B7280",
+    textTransform: "capitalize",
+    marginLeft: 8,
+  },
+});
+
+export default EmotionChart;
@@ -0,0 +1,139 @@
+import { PolarityGaugeProps } from "@/types/types";
+import { clampPolarity, formatStars, polarityToStars } from "@/utils/ratings";
+import { getSentimentColor } from "@/utils/utils";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+// Position along the track, in percent: -1 is the left edge, +1 the right.
+const toPercent = (polarity: number): number =>
+  ((clampPolarity(polarity) + 1) / 2) * 100;
+
+// A -1..+1 track with the neutral band shaded and a marker at the polarity,
+// plus the star rating it maps to.
+const PolarityGauge: React.FC<PolarityGaugeProps> = ({
+  polarity,
+  settings,
+}) => {
+  const { neutralBand, showStars } = settings;
+  const sentiment =
+    polarity > neutralBand
+      ? "positive"
+      : polarity < -neutralBand
+      ? "negative"
+      : "neutral";
+  const stars = polarityToStars(polarity, neutralBand);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Polarity:</Text>
+        <Text style={[styles.value, { color: getSentimentColor(sentiment) }]}>
+          {polarity > 0 ? "+" : ""}
+          {polarity.toFixed(2)}
+        </Text>
+        {showStars && (
+          <Text style={styles.stars}>
+            {formatStars(stars)} {stars.toFixed(1)}
+          </Text>
+        )}
+      </View>
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.segment,
+            {
+              width: `${toPercent(-neutralBand)}%`,
+              backgroundColor: `${getSentimentColor("negative")}40`,
+            },
+          ]}
+        />
+        <View
+          style={[
+            styles.segment,
+            {
+              width: `${toPercent(neutralBand) - toPercent(-neutralBand)}%`,
+              backgroundColor: `${getSentimentColor("neutral")}40`,
+            },
+          ]}
+        />
+        <View
+          style={[
+            styles.segment,
+            {
+              flex: 1,
+              backgroundColor: `${getSentimentColor("positive")}40`,
+            },
+          ]}
+        />
+        <View
+          style={[
+            styles.marker,
+            {
+              left: `${toPercent(polarity)}%`,
+              backgroundColor: getSentimentColor(sentiment),
+            },
+          ]}
+        />
+      </View>
+      <View style={styles.scale}>
+        <Text style={styles.scaleText}>-1</Text>
+        <Text style={styles.scaleText}>0</Text>
+        <Text style={styles.scaleText}>+1</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginTop: 8,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
+  stars: {
+    marginLeft: "auto",
+    fontSize: 14,
+    color: "#F59E0B",
+  },
+  track: {
+    flexDirection: "row",
+    height: 10,
+    borderRadius: 5,
+    overflow: "visible",
+  },
+  segment: {
+    height: "100%",
+  },
+  marker: {
+    position: "absolute",
+    top: -3,
+    width: 4,
+    height: 16,
+    marginLeft: -2,
+    borderRadius: 2,
+  },
+  scale: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  scaleText: {
+    fontSize: 10,
+    color: "#9CA3AF",
+  },
+});
+
+export default PolarityGauge;
@@ -0,0 +1,105 @@
+import { ReliabilityDiagramProps } from "@/types/types";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+const CHART_HEIGHT = 120;
+
+// One column per confidence bin: the outline marks perfect calibration (the
+// bin's midpoint), the fill the accuracy actually observed in it.
+const ReliabilityDiagram: React.FC<ReliabilityDiagramProps> = ({ bins }) => (
+  <View style={styles.container}>
+    <View style={styles.chart}>
+      {bins.map((bin) => {
+        const expected = (bin.lower + bin.upper) / 2;
+        const overconfident = bin.accuracy < bin.meanConfidence;
+        return (
+          <View key={bin.lower} style={styles.column}>
+            <View
+              style={[styles.expectedBar, { height: expected * CHART_HEIGHT }]}
+            />
+            {bin.count > 0 && (
+              <View
+                style={[
+                  styles.accuracyBar,
+                  {
+                    height: bin.accuracy * CHART_HEIGHT,
+                    backgroundColor: overconfident ? "#F59E0B" : "#8B5CF6",
+                  },
+                ]}
+              />
+            )}
+          </View>
+        );
+      })}
+    </View>
+    <View style={styles.countRow}>
+      {bins.map((bin) => (
+        <Text key={bin.lower} style={styles.countText}>
+          {bin.count || ""}
+        </Text>
+      ))}
+    </View>
+    <View style={styles.scale}>
+      <Text style={styles.scaleText}>0%</Text>
+      <Text style={styles.scaleText}>Confidence</Text>
+      <Text style={styles.scaleText}>100%</Text>
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginVertical: 8,
+  },
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    height: CHART_HEIGHT,
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#D1D5DB",
+  },
+  column: {
+    flex: 1,
+    height: "100%",
+    justifyContent: "flex-end",
+    marginHorizontal: 1,
+  },
+  expectedBar: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#9CA3AF",
+    borderBottomWidth: 0,
+  },
+  accuracyBar: {
+    opacity: 0.8,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  countRow: {
+    flexDirection: "row",
+    marginTop: 2,
+  },
+  countText: {
+    flex: 1,
+    fontSize: 10,
+    color: "#9CA3AF",
+    textAlign: "center",
+  },
+  scale: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 2,
+  },
+  scaleText: {
+    fontSize: 10,
+    color: "#9CA3AF",
+  },
+});
+
+export default ReliabilityDiagram;
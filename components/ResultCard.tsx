@@ -0,0 +1,486 @@
+import AspectBreakdown from "@/components/AspectBreakdown";
+import EmotionChart from "@/components/EmotionChart";
+import PolarityGauge from "@/components/PolarityGauge";
+import SentenceHighlight from "@/components/SentenceHighlight";
+import TokenHighlight from "@/components/TokenHighlight";
+import {
+  ApiResult,
+  ModelResult,
+  ParseQuality,
+  ResultCardProps,
+  SENTIMENT_TYPES,
+} from "@/types/types";
+import {
+  CALIBRATION_METHOD_LABELS,
+  MIN_CALIBRATION_SAMPLES,
+} from "@/utils/calibration";
+import { getLanguageName } from "@/utils/languages";
+import { DEFAULT_RATING_SETTINGS } from "@/utils/ratings";
+import { getSentimentColor } from "@/utils/utils";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+// UI utility functions
+const getSentimentIcon = (
+  sentiment: "positive" | "negative" | "neutral"
+): string => {
+  const iconMap = {
+    positive: "thumbs-up",
+    negative: "thumbs-down",
+    neutral: "remove",
+  };
+  return iconMap[sentiment];
+};
+
+const getConfidenceColor = (confidence: number): string => {
+  if (confidence >= 0.8) return "#10B981";
+  if (confidence >= 0.6) return "#F59E0B";
+  return "#EF4444";
+};
+
+const PARSE_QUALITY_LABELS: Record<ParseQuality, string> = {
+  clean: "Clean",
+  repaired: "Repaired",
+  heuristic: "Heuristic",
+};
+
+const PARSE_QUALITY_COLORS: Record<ParseQuality, string> = {
+  clean: "#10B981",
+  repaired: "#F59E0B",
+  heuristic: "#EF4444",
+};
+
+const ResultCard: React.FC<ResultCardProps> = ({
+  result,
+  type,
+  compact = false,
+  text,
+  ratingSettings = DEFAULT_RATING_SETTINGS,
+}) => {
+  if (!result) return null;
+
+  const isApiResult = (res: ApiResult | ModelResult): res is ApiResult => {
+    return "tokens_used" in res;
+  };
+
+  // Side-by-side cards are too narrow for two detail columns.
+  const itemStyle = [styles.resultItem, compact && styles.compactResultItem];
+
+  return (
+    <View style={[styles.resultCard, compact && styles.compactResultCard]}>
+      <View
+        style={[styles.resultHeader, compact && styles.compactResultHeader]}
+      >
+        <View style={styles.sentimentContainer}>
+          <Ionicons
+            name={
+              getSentimentIcon(result.sentiment) as
+                | "thumbs-up"
+                | "thumbs-down"
+                | "remove"
+            }
+            size={20}
+            color={getSentimentColor(result.sentiment)}
+          />
+          <View
+            style={[
+              styles.sentimentBadge,
+              { backgroundColor: `${getSentimentColor(result.sentiment)}20` },
+            ]}
+          >
+            <Text
+              style={[
+                styles.sentimentText,
+                { color: getSentimentColor(result.sentiment) },
+              ]}
+            >
+              {result.sentiment.toUpperCase()}
+            </Text>
+          </View>
+        </View>
+        <View style={styles.confidenceContainer}>
+          <Ionicons name="bar-chart" size={16} color="#6B7280" />
+          <Text
+            style={[
+              styles.confidenceText,
+              { color: getConfidenceColor(result.confidence) },
+            ]}
+          >
+            {(result.confidence * 100).toFixed(1)}%
+          </Text>
+        </View>
+      </View>
+      {result.polarity !== undefined && (
+        <PolarityGauge polarity={result.polarity} settings={ratingSettings} />
+      )}
+
+      <View style={styles.resultGrid}>
+        <View style={itemStyle}>
+          <Text style={styles.resultLabel}>Processing Time:</Text>
+          <Text style={styles.resultValue}>{result.processing_time}</Text>
+        </View>
+        <View style={itemStyle}>
+          <Text style={styles.resultLabel}>Model:</Text>
+          <Text style={styles.resultValue}>{result.model}</Text>
+        </View>
+        {result.language && (
+          <View style={itemStyle}>
+            <Text style={styles.resultLabel}>Language:</Text>
+            <Text style={styles.resultValue}>
+              {getLanguageName(result.language)}
+            </Text>
+          </View>
+        )}
+        {result.calibration && result.raw_confidence !== undefined && (
+          <View style={itemStyle}>
+            <Text style={styles.resultLabel}>Calibration:</Text>
+            <Text style={styles.resultValue}>
+              {result.calibration_skipped ? (
+                <>
+                  {CALIBRATION_METHOD_LABELS[result.calibration_skipped]}{" "}
+                  skipped: needs {MIN_CALIBRATION_SAMPLES} held-out predictions
+                  with both hits and misses
+                </>
+              ) : (
+                <>
+                  {CALIBRATION_METHOD_LABELS[result.calibration]} (raw{" "}
+                  {(result.raw_confidence * 100).toFixed(1)}%)
+                </>
+              )}
+            </Text>
+          </View>
+        )}
+        {type === "api" && isApiResult(result) && (
+          <>
+            <View style={itemStyle}>
+              <Text style={styles.resultLabel}>Tokens Used:</Text>
+              <Text style={styles.resultValue}>{result.tokens_used}</Text>
+            </View>
+            <View style={itemStyle}>
+              <Text style={styles.resultLabel}>API Status:</Text>
+              <Text
+                style={[
+                  styles.resultValue,
+                  { color: result.api_used ? "#10B981" : "#F59E0B" },
+                ]}
+              >
+                {result.cache_hit
+                  ? "Real API (Cached)"
+                  : result.api_used
+                  ? "Real API"
+                  : "Simulation"}
+              </Text>
+            </View>
+            {result.parse_quality && (
+              <View style={itemStyle}>
+                <Text style={styles.resultLabel}>Response Parse:</Text>
+                <Text
+                  style={[
+                    styles.resultValue,
+                    { color: PARSE_QUALITY_COLORS[result.parse_quality] },
+                  ]}
+                >
+                  {PARSE_QUALITY_LABELS[result.parse_quality]}
+                </Text>
+              </View>
+            )}
+            {result.injection_flags && result.injection_flags.length > 0 && (
+              <View style={[styles.resultItem, styles.warningBox]}>
+                <Text style={styles.warningTitle}>
+                  Possible prompt injection
+                </Text>
+                <Text style={styles.warningText}>
+                  {result.injection_flags.join(" · ")}. The text was sent as
+                  delimited data, but treat this verdict with care.
+                </Text>
+              </View>
+            )}
+            {Boolean(result.reasoning) && (
+              <View style={[styles.resultItem, { width: "100%" }]}>
+                <Text style={styles.resultLabel}>Analysis:</Text>
+                <Text style={styles.resultValue}>{result.reasoning}</Text>
+              </View>
+            )}
+          </>
+        )}
+        {type === "model" && !isApiResult(result) && (
+          <>
+            <View style={itemStyle}>
+              <Text style={styles.resultLabel}>Training Samples:</Text>
+              <Text style={styles.resultValue}>{result.training_samples}</Text>
+            </View>
+            <View style={itemStyle}>
+              <Text style={styles.resultLabel}>Vocabulary Size:</Text>
+              <Text style={styles.resultValue}>{result.vocabulary_size}</Text>
+            </View>
+            <View style={itemStyle}>
+              <Text style={styles.resultLabel}>Features:</Text>
+              <Text style={styles.resultValue}>
+                {result.feature_extraction}
+              </Text>
+            </View>
+            <View style={itemStyle}>
+              <Text style={styles.resultLabel}>Model Accuracy:</Text>
+              <Text style={styles.resultValue}>{result.accuracy}</Text>
+            </View>
+            <View style={[styles.resultItem, { width: "100%" }]}>
+              <Text style={styles.resultLabel}>Class Probabilities:</Text>
+              {SENTIMENT_TYPES.map((sentiment) => (
+                <View key={sentiment} style={styles.probabilityRow}>
+                  <Text style={styles.probabilityLabel}>{sentiment}</Text>
+                  <View style={styles.probabilityTrack}>
+                    <View
+                      style={[
+                        styles.probabilityFill,
+                        {
+                          width: `${result.probabilities[sentiment] * 100}%`,
+                          backgroundColor: getSentimentColor(sentiment),
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.probabilityValue}>
+                    {(result.probabilities[sentiment] * 100).toFixed(1)}%
+                  </Text>
+                </View>
+              ))}
+            </View>
+            {result.neighbors && result.neighbors.length > 0 && (
+              <View style={[styles.resultItem, { width: "100%" }]}>
+                <Text style={styles.resultLabel}>
+                  Nearest Neighbours (top {result.neighbors.length}):
+                </Text>
+                {result.neighbors.map((neighbor, index) => (
+                  <View key={index} style={styles.neighborRow}>
+                    <View
+                      style={[
+                        styles.neighborDot,
+                        {
+                          backgroundColor: getSentimentColor(
+                            neighbor.sentiment
+                          ),
+                        },
+                      ]}
+                    />
+                    <Text style={styles.neighborText} numberOfLines={2}>
+                      {neighbor.text}
+                    </Text>
+                    <Text style={styles.neighborSimilarity}>
+                      {neighbor.similarity.toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+        {result.emoji && result.emoji.length > 0 && (
+          <View style={[styles.resultItem, { width: "100%" }]}>
+            <Text style={styles.resultLabel}>Emoji Signals:</Text>
+            <View style={styles.emojiRow}>
+              {result.emoji.map((signal) => (
+                <View key={signal.emoji} style={styles.emojiChip}>
+                  <Text style={styles.emojiText}>
+                    {signal.emoji}
+                    {signal.count > 1 ? ` ×${signal.count}` : ""}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.emojiValence,
+                      {
+                        color: getSentimentColor(
+                          signal.valence > 0 ? "positive" : "negative"
+                        ),
+                      },
+                    ]}
+                  >
+                    {signal.valence > 0 ? "+" : ""}
+                    {signal.valence.toFixed(1)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+      </View>
+      {result.emotions && <EmotionChart emotions={result.emotions} />}
+      {result.contributions && result.contributions.length > 0 && (
+        <TokenHighlight contributions={result.contributions} text={text} />
+      )}
+      {result.sentences && result.sentences.length > 1 && (
+        <SentenceHighlight sentences={result.sentences} />
+      )}
+      {result.aspects && (
+        <AspectBreakdown
+          aspects={result.aspects}
+          source={result.aspect_source}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  resultCard: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  compactResultCard: {
+    padding: 12,
+  },
+  resultHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  compactResultHeader: {
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  sentimentContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  sentimentBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 20,
+    marginLeft: 8,
+  },
+  sentimentText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  confidenceContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  confidenceText: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginLeft: 4,
+  },
+  resultGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  resultItem: {
+    width: "50%",
+    marginBottom: 8,
+  },
+  compactResultItem: {
+    width: "100%",
+  },
+  resultLabel: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  resultValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginTop: 2,
+  },
+  warningBox: {
+    width: "100%",
+    backgroundColor: "#FFFBEB",
+    borderRadius: 8,
+    padding: 8,
+  },
+  warningTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#B45309",
+  },
+  warningText: {
+    fontSize: 12,
+    color: "#92400E",
+    marginTop: 2,
+  },
+  probabilityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  probabilityLabel: {
+    width: 64,
+    fontSize: 12,
+    color: "#374151",
+    textTransform: "capitalize",
+  },
+  probabilityTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E5E7EB",
+    overflow: "hidden",
+  },
+  probabilityFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  probabilityValue: {
+    width: 52,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F2937",
+    textAlign: "right",
+  },
+  neighborRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  neighborDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  neighborText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#374151",
+  },
+  neighborSimilarity: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F2937",
+    textAlign: "right",
+  },
+  emojiRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 4,
+  },
+  emojiChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: "#F3F4F6",
+  },
+  emojiText: {
+    fontSize: 14,
+    color: "#1F2937",
+  },
+  emojiValence: {
+    fontSize: 11,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+});
+
+export default ResultCard;
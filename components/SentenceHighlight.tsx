@@ -0,0 +1,114 @@
+import { SENTIMENT_TYPES, SentenceHighlightProps } from "@/types/types";
+import { getSentimentColor } from "@/utils/utils";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+// The input as typed, each sentence tinted by its own verdict.
+const SentenceHighlight: React.FC<SentenceHighlightProps> = ({ sentences }) => (
+  <View style={styles.container}>
+    <Text style={styles.title}>Sentences ({sentences.length}):</Text>
+    <Text style={styles.paragraph}>
+      {sentences.map((sentence, index) => (
+        <React.Fragment key={index}>
+          <Text
+            style={{
+              color: getSentimentColor(sentence.sentiment),
+              backgroundColor: `${getSentimentColor(sentence.sentiment)}20`,
+            }}
+          >
+            {sentence.text}
+          </Text>
+          {sentence.trailing || " "}
+        </React.Fragment>
+      ))}
+    </Text>
+    {sentences.map((sentence, index) => (
+      <View key={index} style={styles.sentenceRow}>
+        <View
+          style={[
+            styles.sentenceDot,
+            { backgroundColor: getSentimentColor(sentence.sentiment) },
+          ]}
+        />
+        <Text style={styles.sentenceText} numberOfLines={1}>
+          {sentence.text}
+        </Text>
+        <Text style={styles.sentenceMeta}>
+          {(sentence.confidence * 100).toFixed(0)}% · weight{" "}
+          {(sentence.weight * 100).toFixed(0)}%
+        </Text>
+      </View>
+    ))}
+    <View style={styles.legend}>
+      {SENTIMENT_TYPES.map((sentiment) => (
+        <View key={sentiment} style={styles.legendItem}>
+          <View
+            style={[
+              styles.sentenceDot,
+              { backgroundColor: getSentimentColor(sentiment) },
+            ]}
+          />
+          <Text style={styles.legendText}>{sentiment}</Text>
+        </View>
+      ))}
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  paragraph: {
+    fontSize: 14,
+    lineHeight: 22,
+    color: "#1F2937",
+    backgroundColor: "#F9FAFB",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  sentenceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+  },
+  sentenceDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  sentenceText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#374151",
+  },
+  sentenceMeta: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginLeft: 8,
+  },
+  legend: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  legendText: {
+    fontSize: 11,
+    color: "#6B7280",
+    textTransform: "capitalize",
+  },
+});
+
+export default SentenceHighlight;
@@ -0,0 +1,198 @@
+import { TokenContribution, TokenHighlightProps } from "@/types/types";
+import { getTopDrivers, TOP_DRIVER_COUNT } from "@/utils/explanations";
+import { getSentimentColor } from "@/utils/utils";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+interface TextSegment {
+  text: string;
+  contribution?: TokenContribution;
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Cuts the text into plain runs and scored words; longer sources are tried
+// first so an emoticon such as ":-)" wins over ":". The boundaries are
+// lookarounds, so neighbours sharing one separator both match.
+const segmentText = (
+  text: string,
+  byWord: Record<string, TokenContribution>
+): TextSegment[] => {
+  const sources = Object.keys(byWord).sort((a, b) => b.length - a.length);
+  if (sources.length === 0) return [{ text }];
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${sources
+      .map(escapeRegExp)
+      .join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > position) segments.push({ text: text.slice(position, start) });
+    segments.push({
+      text: match[1],
+      contribution: byWord[match[1].toLowerCase()],
+    });
+    position = start + match[1].length;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+};
+
+// Tint strength follows the word's share of the strongest score.
+const getTint = (contribution: TokenContribution, maxScore: number): string => {
+  const strength = maxScore > 0 ? Math.abs(contribution.score) / maxScore : 0;
+  const alpha = Math.round(0x18 + strength * 0x48)
+    .toString(16)
+    .padStart(2, "0");
+  return `${getSentimentColor(contribution.sentiment)}${alpha}`;
+};
+
+const formatScore = (score: number): string =>
+  `${score > 0 ? "+" : ""}${score.toFixed(2)}`;
+
+// The input with each scoring word tinted by the class it points to, and the
+// words that moved the verdict most, for or against.
+const TokenHighlight: React.FC<TokenHighlightProps> = ({
+  contributions,
+  text,
+}) => {
+  const merged = getTopDrivers(contributions, contributions.length);
+  if (merged.length === 0) return null;
+
+  const byWord = Object.fromEntries(
+    merged.map((contribution) => [
+      contribution.source.toLowerCase(),
+      contribution,
+    ])
+  );
+  const maxScore = Math.abs(merged[0].score);
+  const drivers = merged.slice(0, TOP_DRIVER_COUNT);
+
+  return (
+    <View style={styles.container}>
+      {text && (
+        <>
+          <Text style={styles.title}>Word contributions:</Text>
+          <Text style={styles.paragraph}>
+            {segmentText(text, byWord).map((segment, index) =>
+              segment.contribution ? (
+                <Text
+                  key={index}
+                  style={{
+                    color: getSentimentColor(segment.contribution.sentiment),
+                    backgroundColor: getTint(segment.contribution, maxScore),
+                  }}
+                >
+                  {segment.text}
+                </Text>
+              ) : (
+                segment.text
+              )
+            )}
+          </Text>
+        </>
+      )}
+      <Text style={styles.title}>Top drivers:</Text>
+      {drivers.map((driver, index) => (
+        <View key={driver.source.toLowerCase()} style={styles.driverRow}>
+          <Text style={styles.driverRank}>{index + 1}.</Text>
+          <Text style={styles.driverWord} numberOfLines={1}>
+            {driver.source}
+          </Text>
+          <View style={styles.driverTrack}>
+            <View
+              style={[
+                styles.driverFill,
+                {
+                  width: `${(Math.abs(driver.score) / maxScore) * 100}%`,
+                  backgroundColor: getSentimentColor(driver.sentiment),
+                },
+              ]}
+            />
+          </View>
+          <Text
+            style={[
+              styles.driverScore,
+              { color: getSentimentColor(driver.sentiment) },
+            ]}
+          >
+            {formatScore(driver.score)}
+          </Text>
+        </View>
+      ))}
+      <Text style={styles.hint}>
+        Positive scores support the verdict; negative ones pull towards the
+        class shown in their colour.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 4,
+  },
+  paragraph: {
+    fontSize: 14,
+    lineHeight: 22,
+    color: "#1F2937",
+    backgroundColor: "#F9FAFB",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  driverRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+  },
+  driverRank: {
+    width: 18,
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+  driverWord: {
+    width: 96,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  driverTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#F3F4F6",
+    overflow: "hidden",
+  },
+  driverFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  driverScore: {
+    width: 48,
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "right",
+    marginLeft: 8,
+  },
+  hint: {
+    fontSize: 11,
+    color: "#6B7280",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+});
+
+export default TokenHighlight;
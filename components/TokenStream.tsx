@@ -0,0 +1,107 @@
+import { TokenInfo, TokenKind, TokenStreamProps } from "@/types/types";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+const TOKEN_KIND_COLORS: Record<TokenKind, string> = {
+  word: "#8B5CF6",
+  url: "#3B82F6",
+  mention: "#10B981",
+  number: "#F59E0B",
+  emoji: "#EC4899",
+  emoticon: "#EC4899",
+};
+
+// Debug view of what the local engines actually see for the current input.
+const TokenStream: React.FC<TokenStreamProps> = ({ tokens }) => {
+  const keptCount = tokens.filter((token) => !token.removed).length;
+
+  const isRewritten = (token: TokenInfo): boolean =>
+    token.token !== token.source.toLowerCase();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.summary}>
+        {keptCount} tokens kept, {tokens.length - keptCount} removed
+      </Text>
+      {tokens.length === 0 ? (
+        <Text style={styles.emptyText}>Type some text to see its tokens.</Text>
+      ) : (
+        <View style={styles.tokenList}>
+          {tokens.map((token, index) => (
+            <View
+              key={`${index}-${token.token}`}
+              style={[
+                styles.token,
+                { borderColor: TOKEN_KIND_COLORS[token.kind] },
+                token.removed && styles.removedToken,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.tokenText,
+                  { color: TOKEN_KIND_COLORS[token.kind] },
+                  token.removed && styles.removedTokenText,
+                ]}
+              >
+                {token.token}
+              </Text>
+              {isRewritten(token) && (
+                <Text style={styles.sourceText}>{token.source}</Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#F9FAFB",
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  summary: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    fontStyle: "italic",
+  },
+  tokenList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  token: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    alignItems: "center",
+    backgroundColor: "white",
+  },
+  removedToken: {
+    borderColor: "#D1D5DB",
+    borderStyle: "dashed",
+  },
+  tokenText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  removedTokenText: {
+    color: "#9CA3AF",
+    textDecorationLine: "line-through",
+  },
+  sourceText: {
+    fontSize: 10,
+    color: "#9CA3AF",
+  },
+});
+
+export default TokenStream;
@@ -0,0 +1,45 @@
+import { AspectDefinition } from "@/types/types";
+
+// Starter aspect dictionary for product and service reviews
+export const DEFAULT_ASPECT_DICTIONARY: AspectDefinition[] = [
+  {
+    id: "price",
+    name: "Price",
+    terms: ["price", "cost", "value for money", "expensive", "cheap"],
+  },
+  {
+    id: "quality",
+    name: "Quality",
+    terms: ["quality", "build", "material", "durability"],
+  },
+  {
+    id: "delivery",
+    name: "Delivery",
+    terms: ["delivery", "shipping", "package", "courier"],
+  },
+  {
+    id: "service",
+    name: "Service",
+    terms: ["service", "staff", "support", "customer service", "waiter"],
+  },
+  {
+    id: "battery",
+    name: "Battery",
+    terms: ["battery", "battery life", "charging", "charger"],
+  },
+  {
+    id: "screen",
+    name: "Screen",
+    terms: ["screen", "display", "resolution"],
+  },
+  {
+    id: "camera",
+    name: "Camera",
+    terms: ["camera", "photo", "picture", "lens"],
+  },
+  {
+    id: "food",
+    name: "Food",
+    terms: ["food", "meal", "dish", "taste", "portion"],
+  },
+];
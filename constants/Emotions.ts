@@ -0,0 +1,280 @@
+import { EmotionLabel, EmotionScheme, LanguageCode } from "@/types/types";
+
+export const EMOTION_LABELS: Record<EmotionScheme, EmotionLabel[]> = {
+  ekman: ["joy", "sadness", "anger", "fear", "surprise", "disgust"],
+  plutchik: [
+    "joy",
+    "trust",
+    "fear",
+    "surprise",
+    "sadness",
+    "disgust",
+    "anger",
+    "anticipation",
+  ],
+};
+
+// Hues follow Plutchik's wheel.
+export const EMOTION_COLORS: Record<EmotionLabel, string> = {
+  joy: "#EAB308",
+  trust: "#84CC16",
+  fear: "#059669",
+  surprise: "#06B6D4",
+  sadness: "#3B82F6",
+  disgust: "#8B5CF6",
+  anger: "#EF4444",
+  anticipation: "#F97316",
+};
+
+// Emotion words per language, after the NRC Emotion Lexicon (Mohammad &
+// Turney, 2013). A word listed under several emotions splits its weight.
+// Words missing from a language's list fall back to English.
+export const EMOTION_WORDS: Record<
+  LanguageCode,
+  Partial<Record<EmotionLabel, string[]>>
+> = {
+  en: {
+    joy: [
+      "happy",
+      "happiness",
+      "glad",
+      "joy",
+      "joyful",
+      "delighted",
+      "delight",
+      "love",
+      "loved",
+      "lovely",
+      "wonderful",
+      "amazing",
+      "great",
+      "fantastic",
+      "excellent",
+      "awesome",
+      "fun",
+      "enjoy",
+      "enjoyed",
+      "pleased",
+      "cheerful",
+      "excited",
+      "thrilled",
+      "celebrate",
+      "smile",
+      "laugh",
+      "beautiful",
+      "perfect",
+    ],
+    sadness: [
+      "sad",
+      "sadness",
+      "unhappy",
+      "depressed",
+      "miserable",
+      "cry",
+      "cried",
+      "crying",
+      "tears",
+      "lonely",
+      "grief",
+      "heartbroken",
+      "disappointed",
+      "disappointing",
+      "disappointment",
+      "sorry",
+      "regret",
+      "miss",
+      "lost",
+      "hopeless",
+      "gloomy",
+    ],
+    anger: [
+      "angry",
+      "anger",
+      "mad",
+      "furious",
+      "rage",
+      "annoyed",
+      "annoying",
+      "irritated",
+      "irritating",
+      "outraged",
+      "hate",
+      "hated",
+      "frustrated",
+      "frustrating",
+      "livid",
+      "infuriating",
+      "unacceptable",
+      "ridiculous",
+      "rude",
+    ],
+    fear: [
+      "afraid",
+      "fear",
+      "scared",
+      "frightened",
+      "terrified",
+      "terrifying",
+      "worried",
+      "worry",
+      "anxious",
+      "anxiety",
+      "nervous",
+      "panic",
+      "dread",
+      "dangerous",
+      "unsafe",
+      "threat",
+      "horror",
+      "shocked",
+    ],
+    surprise: [
+      "surprise",
+      "surprised",
+      "surprising",
+      "unexpected",
+      "unexpectedly",
+      "amazed",
+      "astonished",
+      "shocked",
+      "shocking",
+      "wow",
+      "suddenly",
+      "sudden",
+      "incredible",
+      "unbelievable",
+    ],
+    disgust: [
+      "disgusting",
+      "disgusted",
+      "gross",
+      "nasty",
+      "revolting",
+      "sickening",
+      "vile",
+      "filthy",
+      "dirty",
+      "awful",
+      "horrible",
+      "repulsive",
+      "rotten",
+      "stinks",
+    ],
+    trust: [
+      "trust",
+      "trusted",
+      "reliable",
+      "dependable",
+      "honest",
+      "safe",
+      "secure",
+      "faithful",
+      "loyal",
+      "confident",
+      "recommend",
+      "recommended",
+      "professional",
+      "helpful",
+    ],
+    anticipation: [
+      "hope",
+      "hoping",
+      "hopeful",
+      "expect",
+      "expecting",
+      "waiting",
+      "eager",
+      "soon",
+      "anticipate",
+      "plan",
+      "upcoming",
+      "finally",
+    ],
+  },
+  es: {
+    joy: ["feliz", "alegre", "alegría", "encanta", "genial", "maravilloso"],
+    sadness: ["triste", "tristeza", "decepcionado", "llorar", "solo"],
+    anger: ["enojado", "enfadado", "furioso", "odio", "molesto", "rabia"],
+    fear: ["miedo", "asustado", "preocupado", "nervioso", "pánico"],
+    surprise: ["sorprendido", "sorpresa", "inesperado", "increíble"],
+    disgust: ["asqueroso", "asco", "repugnante", "horrible", "sucio"],
+    trust: ["confianza", "confiable", "seguro", "honesto", "recomiendo"],
+    anticipation: ["espero", "esperando", "ojalá", "pronto", "ansioso"],
+  },
+  fr: {
+    joy: ["heureux", "heureuse", "joie", "ravi", "génial", "merveilleux"],
+    sadness: ["triste", "tristesse", "déçu", "déçue", "pleurer", "seul"],
+    anger: ["fâché", "furieux", "colère", "déteste", "énervé", "agacé"],
+    fear: ["peur", "effrayé", "inquiet", "inquiète", "nerveux", "angoisse"],
+    surprise: ["surpris", "surprise", "inattendu", "incroyable"],
+    disgust: ["dégoûtant", "dégoût", "répugnant", "horrible", "sale"],
+    trust: ["confiance", "fiable", "sûr", "honnête", "recommande"],
+    anticipation: ["espère", "attends", "bientôt", "impatient", "hâte"],
+  },
+  de: {
+    joy: ["glücklich", "froh", "freude", "toll", "wunderbar", "begeistert"],
+    sadness: ["traurig", "trauer", "enttäuscht", "weinen", "einsam"],
+    anger: ["wütend", "ärgerlich", "verärgert", "hasse", "sauer", "zorn"],
+    fear: ["angst", "ängstlich", "besorgt", "nervös", "panik"],
+    surprise: ["überrascht", "überraschung", "unerwartet", "unglaublich"],
+    disgust: ["ekelhaft", "eklig", "widerlich", "schrecklich", "dreckig"],
+    trust: ["vertrauen", "zuverlässig", "sicher", "ehrlich", "empfehle"],
+    anticipation: ["hoffe", "hoffentlich", "erwarte", "bald", "gespannt"],
+  },
+  hi: {
+    joy: ["खुश", "खुशी", "आनंद", "बढ़िया", "शानदार"],
+    sadness: ["दुखी", "दुख", "उदास", "निराश", "रोना"],
+    anger: ["गुस्सा", "नाराज़", "क्रोध", "नफरत"],
+    fear: ["डर", "डरा", "चिंता", "घबराहट"],
+    surprise: ["हैरान", "आश्चर्य", "अचानक"],
+    disgust: ["घिनौना", "गंदा"],
+    trust: ["भरोसा", "विश्वास", "भरोसेमंद"],
+    anticipation: ["उम्मीद", "इंतज़ार", "जल्द"],
+  },
+};
+
+// Emoji and emoticons carry the same emotions in every language.
+export const EMOJI_EMOTIONS: Record<string, EmotionLabel[]> = {
+  "😀": ["joy"],
+  "😃": ["joy"],
+  "😄": ["joy"],
+  "😁": ["joy"],
+  "😂": ["joy"],
+  "😊": ["joy"],
+  "🙂": ["joy"],
+  "😍": ["joy"],
+  "🥰": ["joy"],
+  "🥳": ["joy"],
+  "❤️": ["joy", "trust"],
+  "😢": ["sadness"],
+  "😭": ["sadness"],
+  "😞": ["sadness"],
+  "😔": ["sadness"],
+  "🙁": ["sadness"],
+  "💔": ["sadness"],
+  "😠": ["anger"],
+  "😡": ["anger"],
+  "🤬": ["anger"],
+  "😤": ["anger"],
+  "😨": ["fear"],
+  "😰": ["fear"],
+  "😱": ["fear", "surprise"],
+  "😮": ["surprise"],
+  "😲": ["surprise"],
+  "🤯": ["surprise"],
+  "🤢": ["disgust"],
+  "🤮": ["disgust"],
+  "🙏": ["trust"],
+  "🤝": ["trust"],
+  "👍": ["trust"],
+  "🤞": ["anticipation"],
+  "⏳": ["anticipation"],
+  // Emoticons, in the folded form the tokenizer produces
+  ":)": ["joy"],
+  ":D": ["joy"],
+  "<3": ["joy", "trust"],
+  ":(": ["sadness"],
+  "</3": ["sadness"],
+  ">:(": ["anger"],
+  ":O": ["surprise"],
+};
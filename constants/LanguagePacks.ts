@@ -0,0 +1,611 @@
+import { LanguageCode, LanguagePack } from "@/types/types";
+
+// Per-language data for the offline engines. Valences follow VADER's -4..+4
+// scale; profileText is a sample of ordinary prose used to build the
+// character n-gram profile for language detection.
+const ENGLISH_PACK: LanguagePack = {
+  code: "en",
+  name: "English",
+  lexicon: {
+    // Positive
+    love: 3.2,
+    loved: 2.9,
+    loves: 2.7,
+    amazing: 2.8,
+    great: 3.1,
+    excellent: 2.7,
+    wonderful: 2.7,
+    fantastic: 2.6,
+    good: 1.9,
+    best: 3.2,
+    better: 1.9,
+    nice: 1.8,
+    happy: 2.7,
+    glad: 2.0,
+    awesome: 3.1,
+    perfect: 2.7,
+    brilliant: 2.8,
+    outstanding: 3.0,
+    superb: 3.1,
+    enjoy: 2.2,
+    enjoyed: 2.3,
+    like: 1.5,
+    liked: 1.8,
+    pleased: 1.9,
+    pleasant: 2.3,
+    satisfied: 1.8,
+    impressive: 2.3,
+    impressed: 2.1,
+    beautiful: 2.9,
+    lovely: 2.8,
+    fun: 2.3,
+    recommend: 1.5,
+    helpful: 1.8,
+    friendly: 2.2,
+    easy: 1.9,
+    fast: 1.3,
+    smooth: 1.4,
+    reliable: 1.8,
+    worth: 0.9,
+    thanks: 1.9,
+    thank: 1.5,
+    win: 2.8,
+    exciting: 2.2,
+    excited: 1.4,
+    fine: 0.8,
+    ok: 0.9,
+    okay: 0.9,
+    // Negative
+    hate: -2.7,
+    hated: -3.2,
+    terrible: -2.1,
+    bad: -2.5,
+    worse: -2.1,
+    awful: -2.0,
+    horrible: -2.5,
+    worst: -3.1,
+    sad: -2.1,
+    angry: -2.3,
+    disappointed: -1.9,
+    disappointing: -2.2,
+    waste: -1.8,
+    wasted: -2.2,
+    annoying: -1.7,
+    annoyed: -1.6,
+    frustrating: -1.9,
+    frustrated: -2.4,
+    useless: -1.8,
+    broken: -2.1,
+    poor: -2.1,
+    slow: -1.0,
+    rude: -2.0,
+    boring: -1.3,
+    ugly: -2.3,
+    fail: -2.5,
+    failed: -2.3,
+    fails: -2.0,
+    problem: -1.7,
+    problems: -1.7,
+    issue: -0.6,
+    issues: -0.8,
+    bug: -1.0,
+    buggy: -1.6,
+    crash: -1.7,
+    crashes: -1.8,
+    refund: -0.5,
+    unhappy: -1.8,
+    upset: -1.6,
+    dislike: -1.6,
+    mediocre: -1.0,
+    confusing: -1.3,
+    difficult: -1.5,
+    expensive: -0.9,
+    scam: -2.6,
+    pathetic: -2.2,
+    disaster: -3.1,
+    wrong: -2.1,
+    sorry: -0.3,
+    lost: -1.3,
+    late: -0.6,
+  },
+  boosters: [
+    "absolutely",
+    "completely",
+    "considerably",
+    "deeply",
+    "enormously",
+    "entirely",
+    "especially",
+    "exceptionally",
+    "extremely",
+    "highly",
+    "hugely",
+    "incredibly",
+    "most",
+    "more",
+    "particularly",
+    "purely",
+    "quite",
+    "really",
+    "so",
+    "super",
+    "thoroughly",
+    "too",
+    "totally",
+    "truly",
+    "utterly",
+    "very",
+  ],
+  dampeners: [
+    "almost",
+    "barely",
+    "hardly",
+    "kinda",
+    "less",
+    "little",
+    "marginally",
+    "occasionally",
+    "partly",
+    "scarcely",
+    "slightly",
+    "somewhat",
+    "sorta",
+  ],
+  negations: [
+    "not",
+    "no",
+    "never",
+    "none",
+    "nobody",
+    "nothing",
+    "nowhere",
+    "neither",
+    "nor",
+    "cannot",
+    "without",
+    "aint",
+    "dont",
+    "isnt",
+    "wasnt",
+    "arent",
+    "werent",
+  ],
+  contrastWords: ["but"],
+  negationFollows: false,
+  // The main training set is English already.
+  trainingData: [],
+  profileText:
+    "The service was quick and the staff were friendly, but the room was smaller than we expected. I would not say that it is the best hotel in the city, although the price is fair and the breakfast is good. We have stayed there twice and will probably come back. Which of these should I buy? They said that this is what you get when you order online, and there is nothing more to it.",
+};
+
+const SPANISH_PACK: LanguagePack = {
+  code: "es",
+  name: "Spanish",
+  lexicon: {
+    // Positive
+    bueno: 1.9,
+    buena: 1.9,
+    buenos: 1.9,
+    buenas: 1.9,
+    mejor: 2.2,
+    excelente: 2.7,
+    genial: 2.8,
+    increíble: 2.8,
+    fantástico: 2.6,
+    fantástica: 2.6,
+    maravilloso: 2.7,
+    maravillosa: 2.7,
+    perfecto: 2.7,
+    perfecta: 2.7,
+    encanta: 3.0,
+    encantó: 3.0,
+    amo: 3.1,
+    feliz: 2.7,
+    contento: 2.2,
+    contenta: 2.2,
+    bonito: 2.1,
+    bonita: 2.1,
+    rápido: 1.3,
+    fácil: 1.8,
+    recomiendo: 1.9,
+    gracias: 1.9,
+    agradable: 2.1,
+    útil: 1.6,
+    // Negative
+    malo: -2.5,
+    mala: -2.5,
+    malos: -2.5,
+    peor: -2.6,
+    terrible: -2.1,
+    horrible: -2.5,
+    pésimo: -3.0,
+    pésima: -3.0,
+    odio: -2.7,
+    triste: -2.1,
+    enojado: -2.3,
+    decepcionado: -1.9,
+    decepcionante: -2.2,
+    inútil: -1.8,
+    lento: -1.0,
+    lenta: -1.0,
+    roto: -2.1,
+    problema: -1.7,
+    caro: -0.9,
+    desastre: -3.1,
+    aburrido: -1.3,
+    basura: -2.6,
+  },
+  boosters: [
+    "muy",
+    "mucho",
+    "muchísimo",
+    "súper",
+    "totalmente",
+    "realmente",
+    "bastante",
+    "tan",
+    "demasiado",
+    "extremadamente",
+    "absolutamente",
+  ],
+  dampeners: ["poco", "algo", "apenas", "casi", "ligeramente"],
+  negations: ["no", "nunca", "jamás", "ni", "nada", "tampoco", "sin", "nadie"],
+  contrastWords: ["pero", "aunque", "sino"],
+  negationFollows: false,
+  trainingData: [
+    {
+      text: "Me encanta este producto, es excelente.",
+      sentiment: "positive",
+      confidence: 0.95,
+    },
+    {
+      text: "Muy buena atención y entrega rápida.",
+      sentiment: "positive",
+      confidence: 0.9,
+    },
+    {
+      text: "Es horrible, no funciona y el servicio es pésimo.",
+      sentiment: "negative",
+      confidence: 0.93,
+    },
+    {
+      text: "Qué decepción, una pérdida de dinero.",
+      sentiment: "negative",
+      confidence: 0.88,
+    },
+    {
+      text: "El paquete llegó el martes por la tarde.",
+      sentiment: "neutral",
+      confidence: 0.8,
+    },
+    {
+      text: "Está bien, nada especial.",
+      sentiment: "neutral",
+      confidence: 0.75,
+    },
+  ],
+  sampleText: "¡Me encanta esta aplicación! Es muy fácil de usar.",
+  profileText:
+    "El servicio fue rápido y el personal muy amable, pero la habitación era más pequeña de lo que esperábamos. No diría que es el mejor hotel de la ciudad, aunque el precio es justo y el desayuno está bien. Hemos estado allí dos veces y probablemente volveremos. ¿Cuál de estos debería comprar? Dijeron que esto es lo que recibes cuando pides por internet, y que no hay nada más que hacer.",
+};
+
+const FRENCH_PACK: LanguagePack = {
+  code: "fr",
+  name: "French",
+  lexicon: {
+    // Positive
+    bon: 1.9,
+    bonne: 1.9,
+    bien: 1.6,
+    meilleur: 2.2,
+    meilleure: 2.2,
+    excellent: 2.7,
+    excellente: 2.7,
+    génial: 2.8,
+    géniale: 2.8,
+    super: 2.5,
+    parfait: 2.7,
+    parfaite: 2.7,
+    magnifique: 2.9,
+    merveilleux: 2.7,
+    incroyable: 2.6,
+    adore: 3.1,
+    aime: 2.3,
+    heureux: 2.7,
+    heureuse: 2.7,
+    content: 2.2,
+    contente: 2.2,
+    agréable: 2.1,
+    facile: 1.8,
+    rapide: 1.3,
+    recommande: 1.9,
+    merci: 1.9,
+    // Negative
+    mauvais: -2.5,
+    mauvaise: -2.5,
+    pire: -2.6,
+    terrible: -2.1,
+    horrible: -2.5,
+    nul: -2.4,
+    nulle: -2.4,
+    déteste: -2.8,
+    triste: -2.1,
+    déçu: -1.9,
+    déçue: -1.9,
+    décevant: -2.2,
+    inutile: -1.8,
+    lent: -1.0,
+    lente: -1.0,
+    cassé: -2.1,
+    problème: -1.7,
+    cher: -0.9,
+    catastrophe: -3.0,
+    ennuyeux: -1.3,
+    arnaque: -2.6,
+  },
+  boosters: [
+    "très",
+    "vraiment",
+    "tellement",
+    "trop",
+    "extrêmement",
+    "absolument",
+    "totalement",
+    "super",
+    "si",
+  ],
+  dampeners: ["peu", "assez", "plutôt", "légèrement", "presque"],
+  negations: ["pas", "jamais", "rien", "aucun", "aucune", "sans", "ni"],
+  contrastWords: ["mais", "cependant", "pourtant"],
+  negationFollows: false,
+  trainingData: [
+    {
+      text: "J'adore ce produit, il est vraiment excellent.",
+      sentiment: "positive",
+      confidence: 0.95,
+    },
+    {
+      text: "Service rapide et personnel très agréable.",
+      sentiment: "positive",
+      confidence: 0.9,
+    },
+    {
+      text: "C'est nul, rien ne fonctionne.",
+      sentiment: "negative",
+      confidence: 0.92,
+    },
+    {
+      text: "Très déçu, une vraie perte d'argent.",
+      sentiment: "negative",
+      confidence: 0.89,
+    },
+    {
+      text: "La livraison est prévue pour jeudi matin.",
+      sentiment: "neutral",
+      confidence: 0.8,
+    },
+    {
+      text: "C'est correct, sans plus.",
+      sentiment: "neutral",
+      confidence: 0.74,
+    },
+  ],
+  sampleText: "Le service était lent et le repas vraiment décevant.",
+  profileText:
+    "Le service était rapide et le personnel très aimable, mais la chambre était plus petite que prévu. Je ne dirais pas que c'est le meilleur hôtel de la ville, même si le prix est correct et le petit déjeuner est bon. Nous y sommes allés deux fois et nous reviendrons sans doute. Lequel de ces produits devrais-je acheter ? Ils ont dit que c'est ce que l'on reçoit quand on commande en ligne, et qu'il n'y a rien de plus.",
+};
+
+const GERMAN_PACK: LanguagePack = {
+  code: "de",
+  name: "German",
+  lexicon: {
+    // Positive
+    gut: 1.9,
+    gute: 1.9,
+    guter: 1.9,
+    gutes: 1.9,
+    besser: 2.0,
+    beste: 3.0,
+    besten: 3.0,
+    super: 2.5,
+    toll: 2.7,
+    tolle: 2.7,
+    großartig: 2.9,
+    ausgezeichnet: 2.8,
+    hervorragend: 2.9,
+    perfekt: 2.7,
+    wunderbar: 2.7,
+    schön: 2.3,
+    liebe: 3.0,
+    lieben: 3.0,
+    glücklich: 2.7,
+    zufrieden: 2.0,
+    freundlich: 2.2,
+    schnell: 1.3,
+    einfach: 1.2,
+    empfehlen: 1.9,
+    danke: 1.9,
+    // Negative
+    schlecht: -2.5,
+    schlechte: -2.5,
+    schlechter: -2.5,
+    schlimm: -2.3,
+    schrecklich: -2.5,
+    furchtbar: -2.6,
+    hasse: -2.8,
+    traurig: -2.1,
+    enttäuscht: -1.9,
+    enttäuschend: -2.2,
+    nutzlos: -1.8,
+    langsam: -1.0,
+    kaputt: -2.1,
+    problem: -1.7,
+    teuer: -0.9,
+    katastrophe: -3.0,
+    langweilig: -1.3,
+    ärgerlich: -1.9,
+  },
+  boosters: [
+    "sehr",
+    "wirklich",
+    "total",
+    "extrem",
+    "absolut",
+    "echt",
+    "so",
+    "zu",
+    "äußerst",
+    "richtig",
+  ],
+  dampeners: ["etwas", "wenig", "kaum", "ziemlich", "fast", "leicht"],
+  negations: [
+    "nicht",
+    "kein",
+    "keine",
+    "keinen",
+    "keinem",
+    "keiner",
+    "nie",
+    "niemals",
+    "nichts",
+    "ohne",
+  ],
+  contrastWords: ["aber", "jedoch", "sondern"],
+  negationFollows: false,
+  trainingData: [
+    {
+      text: "Ich liebe dieses Produkt, es ist wirklich toll.",
+      sentiment: "positive",
+      confidence: 0.95,
+    },
+    {
+      text: "Schnelle Lieferung und sehr freundlicher Service.",
+      sentiment: "positive",
+      confidence: 0.9,
+    },
+    {
+      text: "Schrecklich, es ist nach einem Tag kaputt gegangen.",
+      sentiment: "negative",
+      confidence: 0.92,
+    },
+    {
+      text: "Sehr enttäuscht, das war Geldverschwendung.",
+      sentiment: "negative",
+      confidence: 0.88,
+    },
+    {
+      text: "Das Paket kommt am Donnerstag an.",
+      sentiment: "neutral",
+      confidence: 0.8,
+    },
+    {
+      text: "Es ist in Ordnung, nichts Besonderes.",
+      sentiment: "neutral",
+      confidence: 0.75,
+    },
+  ],
+  sampleText: "Das Essen war gut, aber der Service war furchtbar langsam.",
+  profileText:
+    "Der Service war schnell und das Personal sehr freundlich, aber das Zimmer war kleiner als wir erwartet hatten. Ich würde nicht sagen, dass es das beste Hotel der Stadt ist, obwohl der Preis fair und das Frühstück gut ist. Wir waren schon zweimal dort und werden wahrscheinlich wiederkommen. Welches davon soll ich kaufen? Sie sagten, dass man das bekommt, wenn man im Internet bestellt, und mehr gibt es dazu nicht zu sagen.",
+};
+
+const HINDI_PACK: LanguagePack = {
+  code: "hi",
+  name: "Hindi",
+  lexicon: {
+    // Positive
+    अच्छा: 1.9,
+    अच्छी: 1.9,
+    अच्छे: 1.9,
+    बढ़िया: 2.6,
+    बेहतरीन: 3.0,
+    शानदार: 2.9,
+    उत्कृष्ट: 2.8,
+    सुंदर: 2.3,
+    खुश: 2.7,
+    प्यार: 3.0,
+    पसंद: 2.1,
+    मज़ा: 2.2,
+    आसान: 1.8,
+    तेज़: 1.3,
+    धन्यवाद: 1.9,
+    शुक्रिया: 1.9,
+    // Negative
+    बुरा: -2.5,
+    बुरी: -2.5,
+    बुरे: -2.5,
+    खराब: -2.5,
+    ख़राब: -2.5,
+    बेकार: -2.3,
+    घटिया: -2.8,
+    दुखी: -2.1,
+    नाराज़: -2.3,
+    निराश: -1.9,
+    नफ़रत: -2.8,
+    धीमा: -1.0,
+    धीमी: -1.0,
+    धीमे: -1.0,
+    टूटा: -2.1,
+    समस्या: -1.7,
+    महंगा: -0.9,
+    बकवास: -2.6,
+  },
+  boosters: [
+    "बहुत",
+    "काफ़ी",
+    "काफी",
+    "बेहद",
+    "एकदम",
+    "बिल्कुल",
+    "ज़्यादा",
+    "अत्यंत",
+  ],
+  dampeners: ["थोड़ा", "थोड़ी", "कुछ", "ज़रा"],
+  negations: ["नहीं", "न", "मत", "बिना"],
+  contrastWords: ["लेकिन", "मगर", "किंतु"],
+  // "अच्छा नहीं है": the negation comes after the adjective.
+  negationFollows: true,
+  trainingData: [
+    {
+      text: "मुझे यह उत्पाद बहुत पसंद है, शानदार है।",
+      sentiment: "positive",
+      confidence: 0.95,
+    },
+    {
+      text: "सेवा बढ़िया थी और डिलीवरी तेज़ थी।",
+      sentiment: "positive",
+      confidence: 0.9,
+    },
+    {
+      text: "यह बिल्कुल बेकार है, काम नहीं करता।",
+      sentiment: "negative",
+      confidence: 0.92,
+    },
+    {
+      text: "बहुत निराश हूँ, पैसे की बर्बादी।",
+      sentiment: "negative",
+      confidence: 0.88,
+    },
+    {
+      text: "पैकेट गुरुवार को पहुँचेगा।",
+      sentiment: "neutral",
+      confidence: 0.8,
+    },
+    {
+      text: "ठीक है, कुछ ख़ास नहीं।",
+      sentiment: "neutral",
+      confidence: 0.74,
+    },
+  ],
+  sampleText: "खाना बहुत अच्छा था लेकिन सेवा धीमी थी।",
+  profileText:
+    "सेवा तेज़ थी और कर्मचारी बहुत विनम्र थे, लेकिन कमरा हमारी उम्मीद से छोटा था। मैं यह नहीं कहूँगा कि यह शहर का सबसे अच्छा होटल है, हालाँकि कीमत ठीक है और नाश्ता अच्छा है। हम वहाँ दो बार रुके हैं और शायद फिर आएँगे।",
+};
+
+export const LANGUAGE_PACKS: Record<LanguageCode, LanguagePack> = {
+  en: ENGLISH_PACK,
+  es: SPANISH_PACK,
+  fr: FRENCH_PACK,
+  de: GERMAN_PACK,
+  hi: HINDI_PACK,
+};
@@ -0,0 +1,45 @@
+import { TrainingDataItem } from "@/types/types";
+
+// Sample training data for DIY approach
+export const SEED_TRAINING_DATA: TrainingDataItem[] = [
+  {
+    text: "I love this product! It's amazing.",
+    sentiment: "positive",
+    confidence: 0.95,
+  },
+  {
+    text: "This is terrible. I hate it.",
+    sentiment: "negative",
+    confidence: 0.92,
+  },
+  {
+    text: "It's okay, nothing special.",
+    sentiment: "neutral",
+    confidence: 0.78,
+  },
+  {
+    text: "Best purchase I've ever made!",
+    sentiment: "positive",
+    confidence: 0.98,
+  },
+  {
+    text: "Waste of money. Very disappointed.",
+    sentiment: "negative",
+    confidence: 0.89,
+  },
+  {
+    text: "The weather is nice today.",
+    sentiment: "positive",
+    confidence: 0.75,
+  },
+  {
+    text: "I'm feeling sad and lonely.",
+    sentiment: "negative",
+    confidence: 0.87,
+  },
+  {
+    text: "This is just a regular day.",
+    sentiment: "neutral",
+    confidence: 0.82,
+  },
+];
@@ -0,0 +1,216 @@
+import {
+  AnalysisEngine,
+  AspectSettings,
+  EmotionMode,
+  LocalModelOptions,
+  ProviderConfig,
+  ProviderId,
+  RatingSettings,
+} from "@/types/types";
+import {
+  DEFAULT_ASPECT_SETTINGS,
+  loadAspectSettings,
+  saveAspectSettings,
+} from "@/utils/aspects";
+import {
+  DEFAULT_EMOTION_MODE,
+  loadEmotionMode,
+  saveEmotionMode,
+} from "@/utils/emotions";
+import {
+  DEFAULT_MODEL_OPTIONS,
+  loadModelOptions,
+  saveModelOptions,
+} from "@/utils/localModels";
+import { getDefaultProviderConfig, PROVIDER_IDS } from "@/utils/providers";
+import {
+  DEFAULT_RATING_SETTINGS,
+  loadRatingSettings,
+  saveRatingSettings,
+} from "@/utils/ratings";
+import { loadApiKeys, saveApiKey } from "@/utils/secureKeys";
+import { loadProviderConfig, saveProviderConfig } from "@/utils/settings";
+import { handleAnalysisError, showErrorAlert } from "@/utils/utils";
+import React, {
+  createContext,
+  PropsWithChildren,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+interface AnalysisEngineContextValue {
+  activeEngine: AnalysisEngine;
+  setActiveEngine: (engine: AnalysisEngine) => void;
+  apiKey: string;
+  setApiKey: (apiKey: string) => void;
+  providerConfig: ProviderConfig;
+  setProviderConfig: (config: ProviderConfig) => void;
+  modelOptions: LocalModelOptions;
+  setModelOptions: (options: LocalModelOptions) => void;
+  aspectSettings: AspectSettings;
+  setAspectSettings: (settings: AspectSettings) => void;
+  emotionMode: EmotionMode;
+  setEmotionMode: (mode: EmotionMode) => void;
+  ratingSettings: RatingSettings;
+  setRatingSettings: (settings: RatingSettings) => void;
+}
+
+const AnalysisEngineContext = createContext<AnalysisEngineContextValue | null>(
+  null
+);
+
+// Setters update state at once and save in the background; a failed save is
+// reported rather than left as an unhandled rejection.
+const persist = (save: Promise<void>, what: string): void => {
+  save.catch((error) => {
+    showErrorAlert(
+      "Not saved",
+      handleAnalysisError(error, `Could not save the ${what}`)
+    );
+  });
+};
+
+/**
+ * Holds the engine the user currently has selected so that other screens
+ * (e.g. history re-runs) analyse text the same way the main screen would.
+ * Provider, model, aspect, emotion and rating settings are persisted as
+ * JSON; API keys go to the platform keystore, one entry per provider.
+ */
+export function AnalysisEngineProvider({ children }: PropsWithChildren) {
+  const [activeEngine, setActiveEngine] = useState<AnalysisEngine>("api");
+  const [apiKeys, setApiKeys] = useState<Partial<Record<ProviderId, string>>>(
+    {}
+  );
+  const [providerConfig, setProviderConfigState] = useState<ProviderConfig>(
+    getDefaultProviderConfig
+  );
+  const [modelOptions, setModelOptionsState] = useState<LocalModelOptions>(
+    DEFAULT_MODEL_OPTIONS
+  );
+  const [aspectSettings, setAspectSettingsState] = useState<AspectSettings>(
+    DEFAULT_ASPECT_SETTINGS
+  );
+  const [emotionMode, setEmotionModeState] =
+    useState<EmotionMode>(DEFAULT_EMOTION_MODE);
+  const [ratingSettings, setRatingSettingsState] = useState<RatingSettings>(
+    DEFAULT_RATING_SETTINGS
+  );
+
+  useEffect(() => {
+    let active = true;
+
+    loadProviderConfig().then((config) => {
+      if (active) setProviderConfigState(config);
+    });
+    loadApiKeys(PROVIDER_IDS).then((keys) => {
+      if (active) setApiKeys(keys);
+    });
+    loadModelOptions().then((options) => {
+      if (active) setModelOptionsState(options);
+    });
+    loadAspectSettings().then((settings) => {
+      if (active) setAspectSettingsState(settings);
+    });
+    loadEmotionMode().then((mode) => {
+      if (active) setEmotionModeState(mode);
+    });
+    loadRatingSettings().then((settings) => {
+      if (active) setRatingSettingsState(settings);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const setProviderConfig = useCallback((config: ProviderConfig): void => {
+    setProviderConfigState(config);
+    persist(saveProviderConfig(config), "provider settings");
+  }, []);
+
+  const setModelOptions = useCallback((options: LocalModelOptions): void => {
+    setModelOptionsState(options);
+    persist(saveModelOptions(options), "model options");
+  }, []);
+
+  const setAspectSettings = useCallback((settings: AspectSettings): void => {
+    setAspectSettingsState(settings);
+    persist(saveAspectSettings(settings), "aspect settings");
+  }, []);
+
+  const setEmotionMode = useCallback((mode: EmotionMode): void => {
+    setEmotionModeState(mode);
+    persist(saveEmotionMode(mode), "emotion mode");
+  }, []);
+
+  const setRatingSettings = useCallback((settings: RatingSettings): void => {
+    setRatingSettingsState(settings);
+    persist(saveRatingSettings(settings), "rating settings");
+  }, []);
+
+  const apiKey = apiKeys[providerConfig.provider] ?? "";
+
+  const setApiKey = useCallback(
+    (key: string): void => {
+      setApiKeys((current) => ({
+        ...current,
+        [providerConfig.provider]: key,
+      }));
+      persist(saveApiKey(providerConfig.provider, key), "API key");
+    },
+    [providerConfig.provider]
+  );
+
+  const value = useMemo(
+    () => ({
+      activeEngine,
+      setActiveEngine,
+      apiKey,
+      setApiKey,
+      providerConfig,
+      setProviderConfig,
+      modelOptions,
+      setModelOptions,
+      aspectSettings,
+      setAspectSettings,
+      emotionMode,
+      setEmotionMode,
+      ratingSettings,
+      setRatingSettings,
+    }),
+    [
+      activeEngine,
+      apiKey,
+      setApiKey,
+      providerConfig,
+      setProviderConfig,
+      modelOptions,
+      setModelOptions,
+      aspectSettings,
+      setAspectSettings,
+      emotionMode,
+      setEmotionMode,
+      ratingSettings,
+      setRatingSettings,
+    ]
+  );
+
+  return (
+    <AnalysisEngineContext.Provider value={value}>
+      {children}
+    </AnalysisEngineContext.Provider>
+  );
+}
+
+export function useAnalysisEngine(): AnalysisEngineContextValue {
+  const context = useContext(AnalysisEngineContext);
+  if (!context) {
+    throw new Error(
+      "useAnalysisEngine must be used inside an AnalysisEngineProvider"
+    );
+  }
+  return context;
+}
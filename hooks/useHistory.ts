@@ -0,0 +1,34 @@
+import { HistoryEntry } from "@/types/types";
+import { loadHistory, saveHistory } from "@/utils/history";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+
+/**
+ * Reads the saved analysis history, refreshing on focus so entries recorded
+ * on the main and batch screens show up when returning to the history screen.
+ */
+export function useHistory() {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const reloadHistory = useCallback(async (): Promise<void> => {
+    setHistory(await loadHistory());
+    setLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      reloadHistory();
+    }, [reloadHistory])
+  );
+
+  const updateHistory = useCallback(
+    async (entries: HistoryEntry[]): Promise<void> => {
+      setHistory(entries);
+      await saveHistory(entries);
+    },
+    []
+  );
+
+  return { history, loading, reloadHistory, updateHistory };
+}
@@ -0,0 +1,35 @@
+import { SettingsPreset } from "@/types/types";
+import { loadSettingsPresets, saveSettingsPresets } from "@/utils/settings";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+
+/**
+ * Loads the saved API settings presets and keeps them in sync with storage.
+ */
+export function useSettingsPresets() {
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+
+      loadSettingsPresets().then((items) => {
+        if (active) setPresets(items);
+      });
+
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  const updatePresets = useCallback(
+    async (items: SettingsPreset[]): Promise<void> => {
+      setPresets(items);
+      await saveSettingsPresets(items);
+    },
+    []
+  );
+
+  return { presets, updatePresets };
+}
@@ -0,0 +1,68 @@
+import { DatasetItem } from "@/types/types";
+import {
+  loadTrainingData,
+  restoreSeedTrainingData,
+  saveTrainingData,
+} from "@/utils/trainingData";
+import { handleAnalysisError, showErrorAlert } from "@/utils/utils";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+
+// A failed write is shown rather than left as an unhandled rejection, and the
+// callers learn whether the change was kept.
+const reportSaveError = (error: unknown): false => {
+  showErrorAlert(
+    "Not saved",
+    handleAnalysisError(error, "Could not save the training data")
+  );
+  return false;
+};
+
+/**
+ * Loads the persisted training set and reloads it whenever the screen regains
+ * focus, so edits made on the dataset screen reach the model straight away.
+ */
+export function useTrainingData() {
+  const [trainingData, setTrainingData] = useState<DatasetItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+
+      loadTrainingData().then((items) => {
+        if (!active) return;
+        setTrainingData(items);
+        setLoading(false);
+      });
+
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  const updateTrainingData = useCallback(
+    async (items: DatasetItem[]): Promise<boolean> => {
+      setTrainingData(items);
+      try {
+        await saveTrainingData(items);
+        return true;
+      } catch (error) {
+        return reportSaveError(error);
+      }
+    },
+    []
+  );
+
+  const restoreSeed = useCallback(async (): Promise<boolean> => {
+    try {
+      setTrainingData(await restoreSeedTrainingData());
+      return true;
+    } catch (error) {
+      return reportSaveError(error);
+    }
+  }, []);
+
+  return { trainingData, loading, updateTrainingData, restoreSeed };
+}
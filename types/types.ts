@@ -1,12 +1,49 @@
 // Define interfaces for type safety
 export type SentimentType = "positive" | "negative" | "neutral";
 
+export const SENTIMENT_TYPES: SentimentType[] = [
+  "positive",
+  "negative",
+  "neutral",
+];
+
 export interface TrainingDataItem {
   text: string;
   sentiment: SentimentType;
   confidence: number;
 }
 
+export interface DatasetItem extends TrainingDataItem {
+  id: string;
+}
+
+export type ClassBalance = Record<SentimentType, number>;
+
+export type DatasetFormat = "csv" | "jsonl";
+
+export interface ParsedTable {
+  columns: string[];
+  rows: string[][];
+}
+
+// Column indexes into ParsedTable.columns; confidence is optional.
+export interface ColumnMapping {
+  text: number;
+  sentiment: number;
+  confidence: number | null;
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  items: TrainingDataItem[];
+  errors: ImportRowError[];
+  duplicates: number;
+}
+
 export interface SimilarityItem extends TrainingDataItem {
   similarity: number;
 }
@@ -14,26 +51,485 @@ export interface SimilarityItem extends TrainingDataItem {
 export interface ApiResult {
   sentiment: SentimentType;
   confidence: number;
+  // From -1 (most negative) to +1 (most positive); absent on old entries.
+  polarity?: number;
   processing_time: string;
   model: string;
   tokens_used: number;
   reasoning: string;
   api_used: boolean;
+  // Reasons the input looks like an attempt to steer the verdict.
+  injection_flags?: string[];
+  // How the provider's answer was understood; absent for simulations.
+  parse_quality?: ParseQuality;
+  // Served from the response cache rather than a fresh request.
+  cache_hit?: boolean;
+  // Emoji behind a local (simulated) verdict.
+  emoji?: EmojiSignal[];
+  language?: LanguageCode;
+  aspects?: AspectSentiment[];
+  aspect_source?: AspectSource;
+  // Present for multi-sentence input; the verdict above aggregates them.
+  sentences?: SentenceSentiment[];
+  // Why a local engine reached its verdict, token by token in text order.
+  contributions?: TokenContribution[];
+  emotions?: EmotionAnalysis;
+  // The simulation's own confidence, before calibration.
+  raw_confidence?: number;
+  calibration?: CalibrationMethod;
+  // The method that was asked for but had too little held-out data to fit.
+  calibration_skipped?: CalibrationMethod;
 }
 
 export interface ModelResult {
   sentiment: SentimentType;
   confidence: number;
+  // From -1 (most negative) to +1 (most positive); absent on old entries.
+  polarity?: number;
   processing_time: string;
   model: string;
   training_samples: number;
+  vocabulary_size: number;
   feature_extraction: string;
   accuracy: string;
+  probabilities: SentimentProbabilities;
+  // The classifier's own confidence, before calibration.
+  raw_confidence?: number;
+  calibration?: CalibrationMethod;
+  // The method that was asked for but had too little held-out data to fit.
+  calibration_skipped?: CalibrationMethod;
+  neighbors?: SimilarityItem[];
+  // Emoji in the input, with their lexicon valence.
+  emoji?: EmojiSignal[];
+  language?: LanguageCode;
+  aspects?: AspectSentiment[];
+  aspect_source?: AspectSource;
+  // Present for multi-sentence input; the verdict above aggregates them.
+  sentences?: SentenceSentiment[];
+  // Why a local engine reached its verdict, token by token in text order.
+  contributions?: TokenContribution[];
+  emotions?: EmotionAnalysis;
+}
+
+export type ModelEngine = "naive-bayes" | "knn";
+
+export type SentimentProbabilities = Record<SentimentType, number>;
+
+export type LanguageCode = "en" | "es" | "fr" | "de" | "hi";
+
+export interface LanguageDetection {
+  language: LanguageCode;
+  confidence: number;
+}
+
+export interface LanguagePack {
+  code: LanguageCode;
+  name: string;
+  lexicon: Record<string, number>;
+  boosters: string[];
+  dampeners: string[];
+  negations: string[];
+  contrastWords: string[];
+  // True where the negation follows the word it negates, as in Hindi.
+  negationFollows: boolean;
+  // Added to the user's training set when the input is in this language.
+  trainingData: TrainingDataItem[];
+  sampleText?: string;
+  profileText: string;
+}
+
+// "llm" asks the provider to find the aspects itself; local engines, and
+// providers that cannot, fall back to the dictionary.
+export type AspectMode = "off" | "dictionary" | "llm";
+
+export type AspectSource = Exclude<AspectMode, "off">;
+
+export interface AspectDefinition {
+  id: string;
+  name: string;
+  // Words and phrases that mention the aspect, matched case-insensitively.
+  terms: string[];
+}
+
+export interface AspectSettings {
+  mode: AspectMode;
+  dictionary: AspectDefinition[];
+}
+
+export interface AspectSentiment {
+  aspect: string;
+  sentiment: SentimentType;
+  confidence: number;
+  // The words of the input the verdict rests on.
+  span: string;
+}
+
+export interface RatingSettings {
+  showStars: boolean;
+  // Polarities within ±neutralBand count as three stars.
+  neutralBand: number;
+}
+
+export interface StarRatedItem {
+  text: string;
+  stars: number;
+}
+
+export interface StarEvaluationRow {
+  engine: string;
+  // Mean absolute error in stars.
+  mae: number;
+  // Share predicted exactly, and within one star.
+  exactRate: number;
+  withinOneRate: number;
+}
+
+export interface StarEvaluationReport {
+  rows: StarEvaluationRow[];
+  samples: number;
+}
+
+// Plutchik's eight basic emotions; Ekman's six are the first six.
+export type EmotionLabel =
+  | "joy"
+  | "sadness"
+  | "anger"
+  | "fear"
+  | "surprise"
+  | "disgust"
+  | "trust"
+  | "anticipation";
+
+export type EmotionScheme = "ekman" | "plutchik";
+
+export type EmotionMode = "off" | EmotionScheme;
+
+export type EmotionSource = "llm" | "lexicon";
+
+export type EmotionProbabilities = Partial<Record<EmotionLabel, number>>;
+
+export interface EmotionAnalysis {
+  scheme: EmotionScheme;
+  // One entry per label of the scheme; sums to 1.
+  probabilities: EmotionProbabilities;
+  // Null when the text carries no emotion the scheme knows of.
+  dominant: EmotionLabel | null;
+  source: EmotionSource;
+}
+
+export interface SentenceSpan {
+  text: string;
+  // Whitespace up to the next sentence, so the input can be rebuilt.
+  trailing: string;
+}
+
+export interface SentenceSentiment extends SentenceSpan {
+  sentiment: SentimentType;
+  confidence: number;
+  // Share of the document verdict, from length and intensity; sums to 1.
+  weight: number;
+}
+
+export interface SentenceScore {
+  span: SentenceSpan;
+  probabilities: SentimentProbabilities;
+}
+
+export interface SentenceAggregate {
+  sentiment: SentimentType;
+  confidence: number;
+  probabilities: SentimentProbabilities;
+  sentences: SentenceSentiment[];
+}
+
+export interface AspectRollup {
+  aspect: string;
+  mentions: number;
+  distribution: ClassBalance;
+  meanConfidence: number;
+}
+
+export interface TokenContribution {
+  // The feature the engine scored, e.g. a stem.
+  token: string;
+  // The word as it appears in the input.
+  source: string;
+  // Support for the verdict: positive backs it, negative argues against it.
+  score: number;
+  // The class the token itself points to.
+  sentiment: SentimentType;
+}
+
+export interface KeywordScore {
+  sentiment: SentimentType;
+  confidence: number;
+  // Normalised valence sum in [-1, 1].
+  compound: number;
+  // Share of positive, negative and neutral evidence; sums to 1.
+  proportions: SentimentProbabilities;
+  emoji: EmojiSignal[];
+  contributions: TokenContribution[];
+}
+
+export interface NaiveBayesModel {
+  classes: SentimentType[];
+  vocabulary: string[];
+  classPriors: SentimentProbabilities;
+  tokenCounts: Record<SentimentType, Record<string, number>>;
+  totalTokenCounts: SentimentProbabilities;
+  trainingSamples: number;
+  smoothing: number;
+  preprocessing: PreprocessingOptions;
+}
+
+export interface ClassifierPrediction {
+  sentiment: SentimentType;
+  probabilities: SentimentProbabilities;
+  neighbors?: SimilarityItem[];
+}
+
+export interface LocalModelOptions {
+  engine: ModelEngine;
+  k: number;
+  preprocessing: PreprocessingOptions;
+  calibration: CalibrationMethod;
+}
+
+// How held-out predictions map raw confidences to observed accuracy.
+export type CalibrationMethod = "none" | "platt" | "isotonic";
+
+// Which scorer's cross-validated predictions the calibration view shows.
+export type CalibrationEngine = "model" | "keywords";
+
+export interface CalibrationSample {
+  confidence: number;
+  correct: boolean;
+}
+
+// Platt: sigmoid(slope * logit(confidence) + intercept). Isotonic: a
+// non-decreasing step curve, interpolated between its points.
+export type Calibrator =
+  // skipped names the method that was asked for but could not be fitted.
+  | { method: "none"; skipped?: CalibrationMethod }
+  | { method: "platt"; slope: number; intercept: number }
+  | {
+      method: "isotonic";
+      points: { confidence: number; accuracy: number }[];
+    };
+
+export interface CalibrationFit {
+  samples: CalibrationSample[];
+  calibrator: Calibrator;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface CalibrationReport {
+  method: CalibrationMethod;
+  samples: number;
+  bins: ReliabilityBin[];
+  // Expected calibration error: the count-weighted mean gap between each
+  // bin's confidence and accuracy.
+  ece: number;
+  // After calibration, measured on samples the calibrator was not fitted on.
+  calibratedBins: ReliabilityBin[];
+  calibratedEce: number;
+}
+
+export type StemmingMode = "none" | "porter" | "lemma";
+
+export interface PreprocessingOptions {
+  lowercase: boolean;
+  expandContractions: boolean;
+  removeStopwords: boolean;
+  stemming: StemmingMode;
+  // Replace URLs, @mentions and numbers with placeholder tokens.
+  normalizeEntities: boolean;
+}
+
+export type TokenKind =
+  | "word"
+  | "url"
+  | "mention"
+  | "number"
+  | "emoji"
+  | "emoticon";
+
+export interface EmojiSignal {
+  // Normalised: skin tones removed, emoticon noses folded away.
+  emoji: string;
+  count: number;
+  valence: number;
+}
+
+export interface TokenInfo {
+  // The text as it appeared in the input, before any rewriting.
+  source: string;
+  token: string;
+  kind: TokenKind;
+  removed: boolean;
+}
+
+export interface LocalClassifier {
+  name: string;
+  featureExtraction: string;
+  vocabularySize: number;
+  trainingSamples: number;
+  predict: (text: string) => ClassifierPrediction;
+  // Per-token support for the given verdict on text.
+  explain: (text: string, sentiment: SentimentType) => TokenContribution[];
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+// Rows are the true label, columns the predicted label.
+export type ConfusionMatrix = Record<
+  SentimentType,
+  Record<SentimentType, number>
+>;
+
+export interface EvaluationReport {
+  accuracy: number;
+  macroF1: number;
+  perClass: Record<SentimentType, ClassMetrics>;
+  confusionMatrix: ConfusionMatrix;
+  trainSamples: number;
+  testSamples: number;
+}
+
+export interface EvaluationOptions {
+  testRatio?: number;
+  seed?: number;
+  testSet?: TrainingDataItem[];
+}
+
+export type AnalysisEngine = "api" | "model";
+
+export type AnalysisResult = ApiResult | ModelResult;
+
+export interface ReliabilityDiagramProps {
+  bins: ReliabilityBin[];
+}
+
+export interface TokenStreamProps {
+  tokens: TokenInfo[];
+}
+
+export interface TokenHighlightProps {
+  contributions: TokenContribution[];
+  // The analysed input; without it only the driver list is shown.
+  text?: string;
+}
+
+export interface SentenceHighlightProps {
+  sentences: SentenceSentiment[];
+}
+
+export interface AspectBreakdownProps {
+  aspects: AspectSentiment[];
+  source?: AspectSource;
+}
+
+export interface PolarityGaugeProps {
+  polarity: number;
+  settings: RatingSettings;
+}
+
+export interface EmotionChartProps {
+  emotions: EmotionAnalysis;
+  // A single row of bars, for lists.
+  compact?: boolean;
 }
 
 export interface ResultCardProps {
-  result: ApiResult | ModelResult | null;
-  type: "api" | "model";
+  result: AnalysisResult | null;
+  type: AnalysisEngine;
+  compact?: boolean;
+  // The input the result is for, used to highlight its words.
+  text?: string;
+  ratingSettings?: RatingSettings;
+}
+
+export interface AnalysisOptions {
+  apiKey: string;
+  providerConfig: ProviderConfig;
+  modelOptions: LocalModelOptions;
+  trainingData: TrainingDataItem[];
+  aspectSettings: AspectSettings;
+  emotionMode: EmotionMode;
+  onFallback?: (message: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AnalysisOutcome {
+  result: AnalysisResult;
+  provider: string;
+}
+
+export interface HistoryEntry extends AnalysisOutcome {
+  id: string;
+  text: string;
+  timestamp: number;
+  engine: AnalysisEngine;
+}
+
+export interface ComparisonResult {
+  api: AnalysisOutcome;
+  model: AnalysisOutcome;
+  apiLatencyMs: number;
+  modelLatencyMs: number;
+  agree: boolean;
+  confidenceDelta: number;
+  latencyDeltaMs: number;
+}
+
+export interface AgreementReport {
+  total: number;
+  agreementRate: number;
+  kappa: number;
+}
+
+export type BatchRowStatus = "pending" | "done" | "error" | "cancelled";
+
+export interface BatchRow {
+  index: number;
+  text: string;
+  status: BatchRowStatus;
+  outcome?: AnalysisOutcome;
+  compareOutcome?: AnalysisOutcome;
+  error?: string;
+  warning?: string;
+}
+
+export interface BatchSummary {
+  distribution: ClassBalance;
+  meanConfidence: number;
+  completed: number;
+  failed: number;
+  agreement: AgreementReport | null;
+  aspects: AspectRollup[];
+}
+
+export type HistoryDateRange = "all" | "today" | "7d" | "30d";
+
+export interface HistoryFilters {
+  query: string;
+  sentiment: SentimentType | "all";
+  engine: AnalysisEngine | "all";
+  dateRange: HistoryDateRange;
+  minConfidence: number;
+  maxConfidence: number;
 }
 
 export interface SampleText {
@@ -41,7 +537,108 @@ export interface SampleText {
   type: string;
 }
 
+export type ProviderId =
+  | "openai"
+  | "anthropic"
+  | "ollama"
+  | "llamacpp"
+  | "huggingface";
+
+// Everything but the key, which is kept out of persisted settings.
+export interface ProviderConfig {
+  provider: ProviderId;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  promptTemplate: string;
+  timeoutMs: number;
+  maxRetries: number;
+  fallbackPolicy: FallbackPolicy;
+  cacheEnabled: boolean;
+  cacheTtlMs: number;
+  cacheMaxEntries: number;
+}
+
+export interface ResponseCacheEntry {
+  key: string;
+  result: ApiResult;
+  storedAt: number;
+  lastUsedAt: number;
+}
+
+export type ApiErrorCode =
+  | "AUTH_INVALID"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "TIMEOUT"
+  | "NETWORK"
+  | "SERVER"
+  | "INVALID_RESPONSE"
+  | "API_ERROR";
+
+// "simulate" answers with the keyword simulation, "fail" surfaces the error.
+export type FallbackAction = "simulate" | "fail";
+
+export type FallbackPolicy = Record<ApiErrorCode, FallbackAction>;
+
+export type ConnectionStatus = "valid" | "invalid" | "no-quota" | "error";
+
+export interface ConnectionTestResult {
+  status: ConnectionStatus;
+  message: string;
+}
+
+export interface RequestOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: AnalysisError) => void;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  config: ProviderConfig;
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface ProviderResponse extends SentimentParse {
+  tokensUsed?: number;
+  model?: string;
+}
+
+// Breakdowns requested on top of the verdict.
+export interface PromptExtras {
+  aspects?: boolean;
+  emotions?: EmotionScheme;
+  // Multi-sentence input: one verdict per sentence, in the same request.
+  sentences?: SentenceSpan[];
+}
+
+export interface SentimentProvider {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  // Classification endpoints ignore the prompt and generation settings.
+  usesPrompt: boolean;
+  buildRequest: (
+    text: string,
+    config: ProviderConfig,
+    apiKey: string,
+    extras?: PromptExtras
+  ) => ProviderRequest;
+  parseResponse: (data: unknown) => ProviderResponse;
+}
+
 export interface OpenAIResponse {
+  model?: string;
   choices: {
     message: {
       content: string;
@@ -52,10 +649,83 @@ export interface OpenAIResponse {
   };
 }
 
+export interface AnthropicResponse {
+  model?: string;
+  content: {
+    type: string;
+    text?: string;
+    name?: string;
+    input?: unknown;
+  }[];
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export interface OllamaChatResponse {
+  model?: string;
+  message: {
+    content: string;
+  };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export interface LlamaCppCompletionResponse {
+  model?: string;
+  content: string;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+}
+
+export interface HuggingFaceLabelScore {
+  label: string;
+  score: number;
+}
+
+// Single inputs come back either flat or wrapped in an outer array.
+export type HuggingFaceClassificationResponse =
+  | HuggingFaceLabelScore[]
+  | HuggingFaceLabelScore[][];
+
 export interface ParsedSentimentResult {
   sentiment: SentimentType;
   confidence: number;
   reasoning: string;
+  polarity?: number;
+  aspects?: AspectSentiment[];
+  emotions?: EmotionProbabilities;
+  sentences?: SentenceVerdict[];
+}
+
+export interface SentenceVerdict {
+  sentiment: SentimentType;
+  confidence: number;
+  polarity?: number;
+}
+
+// clean: valid as returned; repaired: valid after fixing fences, percentages
+// and the like; heuristic: pulled out of free text.
+export type ParseQuality = "clean" | "repaired" | "heuristic";
+
+export interface SentimentParse {
+  result: ParsedSentimentResult;
+  parseQuality: ParseQuality;
+}
+
+export type SparseVector = Record<string, number>;
+
+export interface TfidfVectorizer {
+  idf: Record<string, number>;
+  documentCount: number;
+  preprocessing: PreprocessingOptions;
+}
+
+export interface TfidfIndex {
+  vectorizer: TfidfVectorizer;
+  items: TrainingDataItem[];
+  vectors: SparseVector[];
 }
 
 // Error handling utilities
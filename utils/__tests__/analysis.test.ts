@@ -0,0 +1,66 @@
+import { testProviderConnection } from "@/utils/analysis";
+import { getDefaultProviderConfig } from "@/utils/providers";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const respondWith = (status: number, body: object) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    text: async () => JSON.stringify(body),
+  }) as unknown as typeof fetch;
+
+describe("testProviderConnection", () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("reports Anthropic's low credit balance as no quota", async () => {
+    global.fetch = respondWith(400, {
+      type: "error",
+      error: {
+        type: "invalid_request_error",
+        message:
+          "Your credit balance is too low to access the Anthropic API. Please go to Plans & Billing to upgrade or purchase credits.",
+      },
+    });
+
+    const result = await testProviderConnection(
+      getDefaultProviderConfig("anthropic"),
+      "sk-ant-test"
+    );
+    expect(result.status).toBe("no-quota");
+  });
+
+  it("reports OpenAI's insufficient_quota as no quota", async () => {
+    global.fetch = respondWith(429, {
+      error: {
+        message: "You exceeded your current quota.",
+        type: "insufficient_quota",
+        code: "insufficient_quota",
+      },
+    });
+
+    const result = await testProviderConnection(
+      getDefaultProviderConfig("openai"),
+      "sk-test"
+    );
+    expect(result.status).toBe("no-quota");
+  });
+
+  it("treats a rate limit as proof the key was accepted", async () => {
+    global.fetch = respondWith(429, {
+      error: { message: "Rate limit reached", code: "rate_limit_exceeded" },
+    });
+
+    const result = await testProviderConnection(
+      getDefaultProviderConfig("openai"),
+      "sk-test"
+    );
+    expect(result.status).toBe("valid");
+  });
+});
@@ -0,0 +1,121 @@
+import { AspectDefinition, AspectSentiment } from "@/types/types";
+import {
+  analyzeAspects,
+  AspectSpanScorer,
+  parseAspectTerms,
+  rollupAspects,
+  upsertAspectDefinition,
+} from "@/utils/aspects";
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const DICTIONARY: AspectDefinition[] = [
+  { id: "screen", name: "Screen", terms: ["screen", "display"] },
+  { id: "battery", name: "Battery", terms: ["battery life", "battery"] },
+  { id: "price", name: "Price", terms: ["price"] },
+];
+
+const scoreSpan: AspectSpanScorer = (span) => {
+  const { sentiment, confidence } = analyzeSentimentWithKeywords(span, "en");
+  return { sentiment, confidence };
+};
+
+const aspect = (
+  name: string,
+  sentiment: AspectSentiment["sentiment"],
+  confidence: number
+): AspectSentiment => ({ aspect: name, sentiment, confidence, span: "" });
+
+describe("parseAspectTerms", () => {
+  it("splits, lowercases and de-duplicates terms", () => {
+    expect(parseAspectTerms("Battery life, charger;\nbattery LIFE,")).toEqual([
+      "battery life",
+      "charger",
+    ]);
+  });
+});
+
+describe("upsertAspectDefinition", () => {
+  it("replaces the terms of an aspect saved under an existing name", () => {
+    const dictionary = upsertAspectDefinition(DICTIONARY, " screen ", [
+      "panel",
+    ]);
+    expect(dictionary).toHaveLength(DICTIONARY.length);
+    expect(dictionary[0]).toEqual({ ...DICTIONARY[0], terms: ["panel"] });
+  });
+
+  it("adds a new aspect otherwise", () => {
+    const dictionary = upsertAspectDefinition(DICTIONARY, "Sound", ["audio"]);
+    expect(dictionary[dictionary.length - 1]).toMatchObject({
+      name: "Sound",
+      terms: ["audio"],
+    });
+  });
+});
+
+describe("analyzeAspects", () => {
+  it("scores each aspect on its own clause, in text order", () => {
+    const aspects = analyzeAspects(
+      "The battery is awful but the screen is great.",
+      DICTIONARY,
+      scoreSpan,
+      "en"
+    );
+    expect(
+      aspects.map(({ aspect, sentiment, span }) => [aspect, sentiment, span])
+    ).toEqual([
+      ["Battery", "negative", "The battery is awful"],
+      ["Screen", "positive", "the screen is great"],
+    ]);
+  });
+
+  it("matches whole words and plurals only", () => {
+    const aspects = analyzeAspects(
+      "Took a screenshot. The displays are lovely.",
+      DICTIONARY,
+      scoreSpan,
+      "en"
+    );
+    expect(aspects.map(({ aspect, span }) => [aspect, span])).toEqual([
+      ["Screen", "The displays are lovely"],
+    ]);
+  });
+
+  it("prefers an opinion over a neutral mention", () => {
+    const aspects = analyzeAspects(
+      "I checked the price. The price is terrible.",
+      DICTIONARY,
+      scoreSpan,
+      "en"
+    );
+    expect(aspects).toHaveLength(1);
+    expect(aspects[0].sentiment).toBe("negative");
+  });
+});
+
+describe("rollupAspects", () => {
+  it("groups names regardless of case, most mentioned first", () => {
+    expect(
+      rollupAspects([
+        [aspect("Price", "positive", 0.6)],
+        [aspect(" price", "negative", 0.8), aspect("Screen", "neutral", 1)],
+      ])
+    ).toEqual([
+      {
+        aspect: "Price",
+        mentions: 2,
+        distribution: { positive: 1, negative: 1, neutral: 0 },
+        meanConfidence: 0.7,
+      },
+      {
+        aspect: "Screen",
+        mentions: 1,
+        distribution: { positive: 0, negative: 0, neutral: 1 },
+        meanConfidence: 1,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { AnalysisError, AnalysisOutcome, BatchRow } from "@/types/types";
+import {
+  createBatchRows,
+  getBatchHistoryDrafts,
+  parseBatchInput,
+  runBatch,
+  summarizeBatch,
+} from "@/utils/batch";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const outcome = (
+  sentiment: "positive" | "negative" | "neutral",
+  confidence: number
+): AnalysisOutcome => ({
+  provider: "Test",
+  result: { sentiment, confidence, model: "test" } as AnalysisOutcome["result"],
+});
+
+describe("parseBatchInput", () => {
+  it("splits lines and strips list markers", () => {
+    expect(
+      parseBatchInput("- Great\r\n\n* Slow\n• Fine\n1. Cold\n2) Hot")
+    ).toEqual(["Great", "Slow", "Fine", "Cold", "Hot"]);
+  });
+});
+
+describe("runBatch", () => {
+  it("records failures and warnings per row and carries on", async () => {
+    const rows = createBatchRows(["good", "boom", "meh"]);
+    const updates: BatchRow[] = [];
+    const results = await runBatch(
+      rows,
+      async (text, onWarning) => {
+        if (text === "boom") throw new AnalysisError("Exploded", "API_ERROR");
+        if (text === "meh") onWarning("Used fallback");
+        return { outcome: outcome("positive", 0.8) };
+      },
+      { onRowUpdate: (row) => updates.push(row) }
+    );
+
+    expect(results.map((row) => row.status)).toEqual(["done", "error", "done"]);
+    expect(results[1].error).toBe("Exploded");
+    expect(results[2].warning).toBe("Used fallback");
+    expect(updates).toHaveLength(3);
+  });
+
+  it("marks the remaining rows cancelled once aborted", async () => {
+    const controller = new AbortController();
+    const results = await runBatch(
+      createBatchRows(["one", "two", "three"]),
+      async () => {
+        controller.abort();
+        return { outcome: outcome("neutral", 0.5) };
+      },
+      { signal: controller.signal }
+    );
+    expect(results.map((row) => row.status)).toEqual([
+      "done",
+      "cancelled",
+      "cancelled",
+    ]);
+  });
+});
+
+describe("summarizeBatch", () => {
+  it("summarises completed rows and agreement in compare mode", () => {
+    const rows: BatchRow[] = [
+      {
+        index: 0,
+        text: "a",
+        status: "done",
+        outcome: outcome("positive", 0.9),
+        compareOutcome: outcome("positive", 0.7),
+      },
+      {
+        index: 1,
+        text: "b",
+        status: "done",
+        outcome: outcome("negative", 0.5),
+        compareOutcome: outcome("neutral", 0.6),
+      },
+      { index: 2, text: "c", status: "error", error: "Failed" },
+    ];
+    const summary = summarizeBatch(rows);
+
+    expect(summary.distribution).toEqual({
+      positive: 1,
+      negative: 1,
+      neutral: 0,
+    });
+    expect(summary.meanConfidence).toBeCloseTo(0.7);
+    expect(summary).toMatchObject({ completed: 2, failed: 1 });
+    expect(summary.agreement?.agreementRate).toBeCloseTo(0.5);
+  });
+
+  it("has no agreement without compared rows", () => {
+    expect(summarizeBatch([]).agreement).toBeNull();
+  });
+});
+
+describe("getBatchHistoryDrafts", () => {
+  it("saves completed rows under the engine that produced them", () => {
+    const rows: BatchRow[] = [
+      {
+        index: 0,
+        text: "a",
+        status: "done",
+        outcome: outcome("positive", 0.9),
+        compareOutcome: outcome("neutral", 0.6),
+      },
+      { index: 1, text: "b", status: "cancelled" },
+    ];
+    expect(
+      getBatchHistoryDrafts(rows, "api").map(({ text, engine, result }) => [
+        text,
+        engine,
+        result.sentiment,
+      ])
+    ).toEqual([
+      ["a", "api", "positive"],
+      ["a", "model", "neutral"],
+    ]);
+  });
+});
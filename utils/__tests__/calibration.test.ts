@@ -0,0 +1,130 @@
+import { CalibrationSample } from "@/types/types";
+import {
+  applyCalibration,
+  computeEce,
+  computeReliabilityBins,
+  fitCalibrator,
+  MIN_CALIBRATION_SAMPLES,
+} from "@/utils/calibration";
+
+// Higher raw confidences are right more often, but less often than claimed.
+const overconfidentSamples = (count: number): CalibrationSample[] =>
+  Array.from({ length: count }, (_, index) => {
+    const confidence = 0.5 + (0.5 * index) / count;
+    return { confidence, correct: index % 10 < (index * 10) / count };
+  });
+
+describe("fitCalibrator", () => {
+  it("leaves confidences raw below the minimum sample count", () => {
+    const samples = overconfidentSamples(MIN_CALIBRATION_SAMPLES - 1);
+    expect(fitCalibrator(samples, "platt")).toEqual({
+      method: "none",
+      skipped: "platt",
+    });
+  });
+
+  it("leaves confidences raw when every prediction was wrong", () => {
+    const samples = Array.from({ length: 40 }, (_, index) => ({
+      confidence: 0.4 + index / 100,
+      correct: false,
+    }));
+    expect(fitCalibrator(samples, "platt")).toEqual({
+      method: "none",
+      skipped: "platt",
+    });
+    expect(fitCalibrator(samples, "isotonic")).toEqual({
+      method: "none",
+      skipped: "isotonic",
+    });
+  });
+
+  it("does not mark an explicit opt-out as skipped", () => {
+    expect(fitCalibrator(overconfidentSamples(40), "none")).toEqual({
+      method: "none",
+    });
+  });
+
+  it("fits a non-decreasing Platt curve", () => {
+    const calibrator = fitCalibrator(overconfidentSamples(60), "platt");
+    expect(calibrator.method).toBe("platt");
+    if (calibrator.method !== "platt") return;
+    expect(calibrator.slope).toBeGreaterThanOrEqual(0);
+    expect(Number.isFinite(calibrator.intercept)).toBe(true);
+  });
+
+  it("does not overshoot on perfectly separated samples", () => {
+    const samples = Array.from({ length: 40 }, (_, index) => ({
+      confidence: index < 10 ? 0.6 : 0.7 + index / 200,
+      correct: index >= 10,
+    }));
+    const calibrator = fitCalibrator(samples, "platt");
+    if (calibrator.method !== "platt") throw new Error("expected a fit");
+    expect(calibrator.slope).toBeLessThan(100);
+  });
+
+  it("fits a non-decreasing isotonic curve", () => {
+    const calibrator = fitCalibrator(overconfidentSamples(60), "isotonic");
+    if (calibrator.method !== "isotonic") throw new Error("expected a fit");
+    const accuracies = calibrator.points.map((point) => point.accuracy);
+    expect(accuracies).toEqual([...accuracies].sort((a, b) => a - b));
+  });
+});
+
+describe("applyCalibration", () => {
+  it("returns the raw confidence without a fitted curve", () => {
+    expect(applyCalibration({ method: "none", skipped: "platt" }, 0.73)).toBe(
+      0.73
+    );
+  });
+
+  it("never maps the top class below a uniform guess", () => {
+    expect(
+      applyCalibration({ method: "platt", slope: 0, intercept: -2.2 }, 0.73)
+    ).toBeCloseTo(1 / 3);
+    expect(
+      applyCalibration(
+        {
+          method: "isotonic",
+          points: [
+            { confidence: 0.5, accuracy: 0 },
+            { confidence: 0.9, accuracy: 1 },
+          ],
+        },
+        0.4
+      )
+    ).toBeCloseTo(1 / 3);
+  });
+
+  it("interpolates between isotonic points", () => {
+    expect(
+      applyCalibration(
+        {
+          method: "isotonic",
+          points: [
+            { confidence: 0.5, accuracy: 0.4 },
+            { confidence: 0.9, accuracy: 0.8 },
+          ],
+        },
+        0.7
+      )
+    ).toBeCloseTo(0.6);
+  });
+});
+
+describe("computeEce", () => {
+  it("averages the gap between confidence and accuracy over bins", () => {
+    const samples = [
+      { confidence: 0.95, correct: true },
+      { confidence: 0.55, correct: true },
+      { confidence: 0.55, correct: false },
+    ];
+    const bins = computeReliabilityBins(samples);
+    expect(bins).toHaveLength(10);
+    expect(computeEce(bins)).toBeCloseTo(0.05);
+  });
+
+  it("counts a confidence of exactly 1 in the last bin", () => {
+    const bins = computeReliabilityBins([{ confidence: 1, correct: true }]);
+    expect(bins[bins.length - 1].count).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  buildImportPreview,
+  detectFormat,
+  guessColumnMapping,
+  normalizeSentimentLabel,
+  parseCsv,
+  parseDataset,
+  parseJsonl,
+  serializeDataset,
+} from "@/utils/datasetIO";
+
+describe("parseCsv", () => {
+  it("handles quoted commas, newlines and escaped quotes", () => {
+    expect(
+      parseCsv('text,label\r\n"Hello, ""world""",pos\n"two\nlines",neg\n')
+    ).toEqual([
+      ["text", "label"],
+      ['Hello, "world"', "pos"],
+      ["two\nlines", "neg"],
+    ]);
+  });
+
+  it("drops blank lines and keeps a last row without a newline", () => {
+    expect(parseCsv("a,b\n\n,\nc,d")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+});
+
+describe("parseJsonl", () => {
+  it("collects the union of keys as columns", () => {
+    expect(
+      parseJsonl('{"text":"ok","label":1}\n{"text":"meh","score":0.5}')
+    ).toEqual({
+      columns: ["text", "label", "score"],
+      rows: [
+        ["ok", "1", ""],
+        ["meh", "", "0.5"],
+      ],
+    });
+  });
+
+  it("reports the line of invalid JSON", () => {
+    expect(() => parseJsonl('{"text":"ok"}\nnot json')).toThrow(
+      "Line 2 is not valid JSON"
+    );
+  });
+});
+
+describe("format and mapping", () => {
+  it("detects the format from the file name, then the content", () => {
+    expect(detectFormat("a,b", "data.jsonl")).toBe("jsonl");
+    expect(detectFormat('{"text":"x"}')).toBe("jsonl");
+    expect(detectFormat("text,label")).toBe("csv");
+  });
+
+  it("names columns when there is no header", () => {
+    expect(parseDataset("a,b\nc", "csv", false).columns).toEqual([
+      "Column 1",
+      "Column 2",
+    ]);
+  });
+
+  it("guesses columns from common names", () => {
+    expect(guessColumnMapping(["id", "Review", "Polarity", "Score"])).toEqual({
+      text: 1,
+      sentiment: 2,
+      confidence: 3,
+    });
+  });
+
+  it.each([
+    ["POS", "positive"],
+    ["-1", "negative"],
+    ["0", "neutral"],
+    ["maybe", null],
+  ])("reads the label %s as %s", (raw, sentiment) => {
+    expect(normalizeSentimentLabel(raw)).toBe(sentiment);
+  });
+});
+
+describe("buildImportPreview", () => {
+  const table = parseDataset(
+    [
+      "text,label,confidence",
+      "Loved it,pos,90%",
+      "  loved   IT ,pos,1",
+      ",neg,1",
+      "Fine,unsure,1",
+      "Broken,neg,abc",
+      "Already here,neg,0.4",
+    ].join("\n"),
+    "csv"
+  );
+  const preview = buildImportPreview(
+    table,
+    { text: 0, sentiment: 1, confidence: 2 },
+    [{ text: "already here", sentiment: "negative", confidence: 1 }]
+  );
+
+  it("imports valid rows with percentages read as fractions", () => {
+    expect(preview.items).toEqual([
+      { text: "Loved it", sentiment: "positive", confidence: 0.9 },
+    ]);
+  });
+
+  it("reports bad rows by their data row number", () => {
+    expect(preview.errors).toEqual([
+      { row: 3, message: "Empty text" },
+      { row: 4, message: 'Unrecognised label "unsure"' },
+      { row: 5, message: 'Invalid confidence "abc"' },
+    ]);
+  });
+
+  it("skips duplicates within the file and of existing data", () => {
+    expect(preview.duplicates).toBe(2);
+  });
+});
+
+describe("serializeDataset", () => {
+  const items = [
+    { text: 'Say "hi", then go', sentiment: "neutral" as const, confidence: 1 },
+  ];
+
+  it("round-trips through CSV", () => {
+    const table = parseDataset(serializeDataset(items, "csv"), "csv");
+    expect(table.rows).toEqual([['Say "hi", then go', "neutral", "1"]]);
+  });
+
+  it("writes one JSON object per line", () => {
+    expect(JSON.parse(serializeDataset(items, "jsonl"))).toEqual(items[0]);
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  formatEmojiSignals,
+  getEmojiValence,
+  summarizeEmojiSignals,
+} from "@/utils/emoji";
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+import { preprocessText } from "@/utils/preprocessing";
+
+describe("getEmojiValence", () => {
+  it("ignores skin tones and presentation selectors", () => {
+    expect(getEmojiValence("👍🏽")).toBe(getEmojiValence("👍"));
+    expect(getEmojiValence("❤")).toBe(getEmojiValence("❤️"));
+  });
+
+  it("scores emoticons and leaves other tokens unscored", () => {
+    expect(getEmojiValence(":)")).toBeGreaterThan(0);
+    expect(getEmojiValence(":(")).toBeLessThan(0);
+    expect(getEmojiValence("hello")).toBeUndefined();
+  });
+});
+
+describe("tokenizing emoji", () => {
+  it("folds noses and repeated mouths into one emoticon token", () => {
+    expect(preprocessText("fine :-))) ok")).toEqual(["fine", ":)", "ok"]);
+  });
+
+  it("splits emoji written without spaces", () => {
+    expect(preprocessText("great😂😂")).toEqual(["great", "😂", "😂"]);
+  });
+});
+
+describe("summarizeEmojiSignals", () => {
+  it("counts each emoji and puts the strongest first", () => {
+    const signals = summarizeEmojiSignals(["😂", "ok", "😡", "😡"]);
+    expect(signals.map(({ emoji, count }) => [emoji, count])).toEqual([
+      ["😡", 2],
+      ["😂", 1],
+    ]);
+    expect(formatEmojiSignals(signals)).toBe("😡 ×2 😂");
+  });
+});
+
+describe("emoji in the keyword scorer", () => {
+  it("gives a verdict to text that is only emoji", () => {
+    expect(analyzeSentimentWithKeywords("😡", "en").sentiment).toBe("negative");
+    expect(analyzeSentimentWithKeywords("👍", "en").sentiment).toBe("positive");
+  });
+
+  it("lets repeats add less each time", () => {
+    const once = analyzeSentimentWithKeywords("😡", "en").compound;
+    const twice = analyzeSentimentWithKeywords("😡😡", "en").compound;
+    const thrice = analyzeSentimentWithKeywords("😡😡😡", "en").compound;
+    expect(twice).toBeLessThan(once);
+    expect(thrice - twice).toBeGreaterThan(twice - once);
+  });
+});
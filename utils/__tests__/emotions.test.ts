@@ -0,0 +1,77 @@
+import {
+  analyzeEmotionsWithLexicon,
+  getNextEmotionMode,
+  normalizeEmotionScores,
+} from "@/utils/emotions";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const sumOf = (probabilities: Record<string, number | undefined>): number =>
+  Object.values(probabilities).reduce<number>(
+    (sum, value) => sum + (value ?? 0),
+    0
+  );
+
+describe("normalizeEmotionScores", () => {
+  it("keeps only the scheme's labels and sums to one", () => {
+    const analysis = normalizeEmotionScores(
+      { joy: 3, anger: 1, trust: 5 },
+      "ekman",
+      "llm"
+    );
+    expect(Object.keys(analysis.probabilities)).toHaveLength(6);
+    expect(analysis.probabilities.trust).toBeUndefined();
+    expect(analysis.probabilities.joy).toBeCloseTo(0.75);
+    expect(sumOf(analysis.probabilities)).toBeCloseTo(1);
+    expect(analysis.dominant).toBe("joy");
+  });
+
+  it("spreads evenly with no dominant emotion when there is no evidence", () => {
+    const analysis = normalizeEmotionScores({}, "plutchik", "lexicon");
+    expect(analysis.dominant).toBeNull();
+    expect(analysis.probabilities.anticipation).toBeCloseTo(1 / 8);
+  });
+});
+
+describe("analyzeEmotionsWithLexicon", () => {
+  it("finds the dominant emotion from emotion words and emoji", () => {
+    expect(
+      analyzeEmotionsWithLexicon("I was furious 😡", "ekman", "en").dominant
+    ).toBe("anger");
+  });
+
+  it("uses labels that only the Plutchik scheme has", () => {
+    expect(
+      analyzeEmotionsWithLexicon("A reliable seller", "plutchik", "en").dominant
+    ).toBe("trust");
+    expect(
+      analyzeEmotionsWithLexicon("A reliable seller", "ekman", "en").dominant
+    ).toBeNull();
+  });
+
+  it("leaves negated emotion words out", () => {
+    expect(
+      analyzeEmotionsWithLexicon("I was not scared", "ekman", "en").dominant
+    ).toBeNull();
+  });
+
+  it("smooths so one word does not read as certainty", () => {
+    const { probabilities } = analyzeEmotionsWithLexicon(
+      "So happy",
+      "ekman",
+      "en"
+    );
+    expect(probabilities.joy).toBeLessThan(1);
+    expect(probabilities.sadness).toBeGreaterThan(0);
+  });
+});
+
+describe("getNextEmotionMode", () => {
+  it("cycles off, Ekman, Plutchik", () => {
+    expect(getNextEmotionMode("off")).toBe("ekman");
+    expect(getNextEmotionMode("ekman")).toBe("plutchik");
+    expect(getNextEmotionMode("plutchik")).toBe("off");
+  });
+});
@@ -0,0 +1,217 @@
+import { SEED_TRAINING_DATA } from "@/constants/TrainingData";
+import { SentimentType, TrainingDataItem } from "@/types/types";
+import { MIN_CALIBRATION_SAMPLES } from "@/utils/calibration";
+import {
+  computeAgreement,
+  computeMetrics,
+  crossValidatePredictions,
+  evaluateLocalModel,
+  evaluateStarRatings,
+  formatSampleAccuracy,
+  getModelCalibration,
+  parseLabelledLines,
+  parseStarRatedLines,
+  splitTrainTest,
+} from "@/utils/evaluation";
+import { DEFAULT_MODEL_OPTIONS } from "@/utils/localModels";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const makeItems = (
+  sentiment: SentimentType,
+  count: number
+): TrainingDataItem[] =>
+  Array.from({ length: count }, (_, index) => ({
+    text: `${sentiment} example ${index}`,
+    sentiment,
+    confidence: 1,
+  }));
+
+describe("splitTrainTest", () => {
+  const data = [
+    ...makeItems("positive", 8),
+    ...makeItems("negative", 4),
+    ...makeItems("neutral", 1),
+  ];
+
+  it("holds out each class in proportion and keeps singletons for training", () => {
+    const { train, test } = splitTrainTest(data, 0.25);
+    const held = (sentiment: SentimentType) =>
+      test.filter((item) => item.sentiment === sentiment).length;
+    expect(held("positive")).toBe(2);
+    expect(held("negative")).toBe(1);
+    expect(held("neutral")).toBe(0);
+    expect(train.length + test.length).toBe(data.length);
+  });
+
+  it("is reproducible for a seed", () => {
+    expect(splitTrainTest(data, 0.25, 7)).toEqual(
+      splitTrainTest(data, 0.25, 7)
+    );
+  });
+});
+
+describe("computeMetrics", () => {
+  it("computes accuracy, per-class scores and the confusion matrix", () => {
+    const report = computeMetrics(
+      ["positive", "positive", "negative", "neutral"],
+      ["positive", "negative", "negative", "neutral"]
+    );
+    expect(report.accuracy).toBeCloseTo(0.75);
+    expect(report.perClass.positive).toMatchObject({
+      precision: 1,
+      recall: 0.5,
+      support: 2,
+    });
+    expect(report.perClass.negative.precision).toBeCloseTo(0.5);
+    expect(report.confusionMatrix.positive.negative).toBe(1);
+  });
+
+  it("leaves classes missing from the test set out of the macro F1", () => {
+    const report = computeMetrics(["positive"], ["positive"]);
+    expect(report.macroF1).toBe(1);
+  });
+});
+
+describe("parseLabelledLines", () => {
+  it("reads label | text lines and skips the rest", () => {
+    expect(
+      parseLabelledLines("Positive | Loved it\nno separator\nmixed | meh\n")
+    ).toEqual([{ text: "Loved it", sentiment: "positive", confidence: 1 }]);
+  });
+});
+
+describe("computeAgreement", () => {
+  it("corrects the agreement rate for chance", () => {
+    const report = computeAgreement([
+      ["positive", "positive"],
+      ["positive", "negative"],
+      ["negative", "negative"],
+      ["negative", "negative"],
+    ]);
+    expect(report.agreementRate).toBeCloseTo(0.75);
+    // Chance agreement is 0.5 * 0.25 + 0.5 * 0.75 = 0.5.
+    expect(report.kappa).toBeCloseTo(0.5);
+  });
+
+  it("treats unanimous single-label agreement as perfect", () => {
+    expect(
+      computeAgreement([
+        ["neutral", "neutral"],
+        ["neutral", "neutral"],
+      ]).kappa
+    ).toBe(1);
+  });
+
+  it("is empty without pairs", () => {
+    expect(computeAgreement([])).toEqual({
+      total: 0,
+      agreementRate: 0,
+      kappa: 0,
+    });
+  });
+});
+
+describe("evaluateLocalModel", () => {
+  it("needs enough examples to hold out a test set", () => {
+    expect(() =>
+      evaluateLocalModel(makeItems("positive", 1), DEFAULT_MODEL_OPTIONS)
+    ).toThrow(expect.objectContaining({ code: "INSUFFICIENT_DATA" }));
+  });
+
+  it("reports train and test sizes", () => {
+    const report = evaluateLocalModel(
+      [...makeItems("positive", 4), ...makeItems("negative", 4)],
+      DEFAULT_MODEL_OPTIONS
+    );
+    expect(report.trainSamples + report.testSamples).toBe(8);
+    expect(report.testSamples).toBe(2);
+  });
+});
+
+describe("parseStarRatedLines", () => {
+  it("reads star ratings and skips lines out of range", () => {
+    expect(
+      parseStarRatedLines(
+        "4 | Good value\n5 stars | Superb | really\n6 | Too many\n2.5 | Half\nNo rating"
+      )
+    ).toEqual([
+      { stars: 4, text: "Good value" },
+      { stars: 5, text: "Superb | really" },
+    ]);
+  });
+});
+
+describe("evaluateStarRatings", () => {
+  it("needs at least one rated example", () => {
+    expect(() =>
+      evaluateStarRatings([], SEED_TRAINING_DATA, DEFAULT_MODEL_OPTIONS, 0.1)
+    ).toThrow(expect.objectContaining({ code: "INSUFFICIENT_DATA" }));
+  });
+
+  it("scores both offline engines on rounded stars", () => {
+    const report = evaluateStarRatings(
+      [
+        { stars: 5, text: "Absolutely wonderful, I love it" },
+        { stars: 1, text: "Terrible, awful, a complete waste of money" },
+      ],
+      SEED_TRAINING_DATA,
+      DEFAULT_MODEL_OPTIONS,
+      0.1
+    );
+    expect(report.samples).toBe(2);
+    expect(report.rows).toHaveLength(2);
+    report.rows.forEach((row) => {
+      expect(row.mae).toBeGreaterThanOrEqual(0);
+      expect(row.mae).toBeLessThanOrEqual(4);
+      expect(row.withinOneRate).toBeGreaterThanOrEqual(row.exactRate);
+    });
+    expect(report.rows[1]).toMatchObject({
+      engine: "Keyword lexicon",
+      withinOneRate: 1,
+    });
+  });
+});
+
+describe("crossValidatePredictions", () => {
+  const data = [
+    ...makeItems("positive", 6),
+    ...makeItems("negative", 6),
+    ...makeItems("neutral", 3),
+  ];
+
+  it("holds out every example exactly once", () => {
+    const samples = crossValidatePredictions(data, DEFAULT_MODEL_OPTIONS);
+    expect(samples).toHaveLength(data.length);
+    expect(formatSampleAccuracy(samples)).toMatch(/\(15 cross-validated\)$/);
+  });
+
+  it("is repeatable for a given seed", () => {
+    expect(crossValidatePredictions(data, DEFAULT_MODEL_OPTIONS)).toEqual(
+      crossValidatePredictions(data, DEFAULT_MODEL_OPTIONS)
+    );
+  });
+});
+
+describe("getModelCalibration", () => {
+  it("reuses the fit until the training set is replaced", () => {
+    const data = makeItems("positive", 4);
+    const fit = getModelCalibration(data, "en", DEFAULT_MODEL_OPTIONS);
+    expect(getModelCalibration(data, "en", DEFAULT_MODEL_OPTIONS)).toBe(fit);
+    expect(
+      getModelCalibration([...data], "en", DEFAULT_MODEL_OPTIONS)
+    ).not.toBe(fit);
+  });
+
+  it("leaves a small set uncalibrated and says why", () => {
+    const { samples, calibrator } = getModelCalibration(
+      makeItems("negative", 6),
+      "en",
+      { ...DEFAULT_MODEL_OPTIONS, calibration: "isotonic" }
+    );
+    expect(samples.length).toBeLessThan(MIN_CALIBRATION_SAMPLES);
+    expect(calibrator).toEqual({ method: "none", skipped: "isotonic" });
+  });
+});
@@ -0,0 +1,106 @@
+import { SentimentType, TokenContribution } from "@/types/types";
+import {
+  buildSourceLookup,
+  formatDrivers,
+  getTopDrivers,
+  rebaseContributions,
+  scoreAgainstRivals,
+} from "@/utils/explanations";
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+import { DEFAULT_PREPROCESSING_OPTIONS } from "@/utils/preprocessing";
+
+const contribution = (
+  source: string,
+  score: number,
+  sentiment: SentimentType
+): TokenContribution => ({
+  token: source.toLowerCase(),
+  source,
+  score,
+  sentiment,
+});
+
+describe("buildSourceLookup", () => {
+  it("maps stems back to the first word that produced them", () => {
+    expect(
+      buildSourceLookup("Disappointed, disappointing", {
+        ...DEFAULT_PREPROCESSING_OPTIONS,
+        stemming: "porter",
+      })
+    ).toEqual({ disappoint: "Disappointed" });
+  });
+});
+
+describe("scoreAgainstRivals", () => {
+  it("scores the margin of the verdict over its strongest rival", () => {
+    expect(
+      scoreAgainstRivals(
+        "great",
+        "Great",
+        { positive: 2, negative: -1, neutral: 0.5 },
+        "positive"
+      )
+    ).toEqual(contribution("Great", 1.5, "positive"));
+  });
+
+  it("gives evidence for another class a negative score", () => {
+    const result = scoreAgainstRivals(
+      "slow",
+      "slow",
+      { positive: -1, negative: 1, neutral: 0 },
+      "positive"
+    );
+    expect(result.score).toBe(-2);
+    expect(result.sentiment).toBe("negative");
+  });
+});
+
+describe("rebaseContributions", () => {
+  it("re-signs scores against a new verdict", () => {
+    expect(
+      rebaseContributions(
+        [
+          contribution("good", 1, "positive"),
+          contribution("bad", 2, "negative"),
+        ],
+        "negative"
+      ).map(({ score }) => score)
+    ).toEqual([-1, 2]);
+  });
+});
+
+describe("getTopDrivers", () => {
+  it("merges repeats and ranks by strength either way", () => {
+    const drivers = getTopDrivers(
+      [
+        contribution("Good", 0.5, "positive"),
+        contribution("slow", -1.2, "negative"),
+        contribution("good", 0.9, "positive"),
+        contribution("the", 0, "neutral"),
+        contribution("fine", 0.1, "neutral"),
+      ],
+      2
+    );
+    expect(drivers.map(({ source, score }) => [source, score])).toEqual([
+      ["good", expect.closeTo(1.4)],
+      ["slow", -1.2],
+    ]);
+    expect(formatDrivers(drivers)).toBe("good +1.4, slow -1.2");
+  });
+});
+
+describe("keyword scorer contributions", () => {
+  it("lists the words behind the verdict, signed against it", () => {
+    const { sentiment, contributions } = analyzeSentimentWithKeywords(
+      "Great view, but an awful bed",
+      "en"
+    );
+    expect(sentiment).toBe("negative");
+    expect(
+      contributions.map(({ source, score }) => [source, Math.sign(score)])
+    ).toEqual([
+      ["Great", -1],
+      ["awful", 1],
+    ]);
+  });
+});
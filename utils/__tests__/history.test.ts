@@ -0,0 +1,142 @@
+import { AnalysisOutcome, HistoryEntry } from "@/types/types";
+import {
+  addHistoryEntries,
+  addHistoryEntry,
+  DEFAULT_HISTORY_FILTERS,
+  filterHistory,
+  loadHistory,
+  MAX_HISTORY_ENTRIES,
+  pairHistoryByText,
+  saveHistory,
+} from "@/utils/history";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const outcome = (
+  sentiment: "positive" | "negative" | "neutral",
+  confidence: number,
+  reasoning = ""
+): AnalysisOutcome => ({
+  provider: "Test",
+  result: {
+    sentiment,
+    confidence,
+    reasoning,
+    model: "test-model",
+  } as AnalysisOutcome["result"],
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("history persistence", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("keeps the newest entry first", async () => {
+    await addHistoryEntry("first", "api", outcome("positive", 0.9));
+    await addHistoryEntry("second", "model", outcome("negative", 0.8));
+    expect((await loadHistory()).map((entry) => entry.text)).toEqual([
+      "second",
+      "first",
+    ]);
+  });
+
+  it("records a batch in one write with its last row newest", async () => {
+    await addHistoryEntry("earlier", "api", outcome("neutral", 0.5));
+    await addHistoryEntries([
+      { text: "row 1", engine: "model", ...outcome("positive", 0.7) },
+      { text: "row 2", engine: "model", ...outcome("negative", 0.6) },
+    ]);
+    expect((await loadHistory()).map((entry) => entry.text)).toEqual([
+      "row 2",
+      "row 1",
+      "earlier",
+    ]);
+  });
+
+  it("drops the oldest entries past the limit", async () => {
+    await saveHistory(
+      Array.from({ length: MAX_HISTORY_ENTRIES + 5 }, (_, index) => ({
+        id: String(index),
+        text: `entry ${index}`,
+        timestamp: index,
+        engine: "api",
+        ...outcome("neutral", 0.5),
+      }))
+    );
+    const history = await loadHistory();
+    expect(history).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history[0].id).toBe("0");
+  });
+});
+
+describe("filterHistory", () => {
+  const now = 100 * DAY_MS;
+  const entries: HistoryEntry[] = [
+    {
+      id: "a",
+      text: "Loved the staff",
+      timestamp: now - DAY_MS / 2,
+      engine: "api",
+      ...outcome("positive", 0.9, "friendly service"),
+    },
+    {
+      id: "b",
+      text: "Cold food",
+      timestamp: now - 3 * DAY_MS,
+      engine: "model",
+      ...outcome("negative", 0.6),
+    },
+    {
+      id: "c",
+      text: "Opened in 2019",
+      timestamp: now - 20 * DAY_MS,
+      engine: "api",
+      ...outcome("neutral", 0.4),
+    },
+  ];
+  const ids = (filters: Partial<typeof DEFAULT_HISTORY_FILTERS>) =>
+    filterHistory(entries, { ...DEFAULT_HISTORY_FILTERS, ...filters }, now).map(
+      (entry) => entry.id
+    );
+
+  it("matches the query against text and reasoning", () => {
+    expect(ids({ query: "FOOD" })).toEqual(["b"]);
+    expect(ids({ query: "service" })).toEqual(["a"]);
+  });
+
+  it("filters by sentiment, engine, date range and confidence", () => {
+    expect(ids({ sentiment: "negative" })).toEqual(["b"]);
+    expect(ids({ engine: "api" })).toEqual(["a", "c"]);
+    expect(ids({ dateRange: "7d" })).toEqual(["a", "b"]);
+    expect(ids({ minConfidence: 0.5, maxConfidence: 0.8 })).toEqual(["b"]);
+  });
+});
+
+describe("pairHistoryByText", () => {
+  it("pairs the latest API and model verdicts for the same text", () => {
+    const entry = (
+      id: string,
+      text: string,
+      engine: "api" | "model",
+      sentiment: "positive" | "negative" | "neutral"
+    ): HistoryEntry => ({
+      id,
+      text,
+      timestamp: 0,
+      engine,
+      ...outcome(sentiment, 0.5),
+    });
+
+    expect(
+      pairHistoryByText([
+        entry("1", "Great  Food", "api", "positive"),
+        entry("2", "great food", "model", "neutral"),
+        entry("3", "great food", "api", "negative"),
+        entry("4", "Only API", "api", "positive"),
+      ])
+    ).toEqual([["positive", "neutral"]]);
+  });
+});
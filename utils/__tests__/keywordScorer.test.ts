@@ -0,0 +1,53 @@
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+
+const compoundOf = (text: string): number =>
+  analyzeSentimentWithKeywords(text, "en").compound;
+
+describe("analyzeSentimentWithKeywords", () => {
+  it("reads plain positive, negative and neutral text", () => {
+    expect(
+      analyzeSentimentWithKeywords("The food was good", "en").sentiment
+    ).toBe("positive");
+    expect(
+      analyzeSentimentWithKeywords("The food was awful", "en").sentiment
+    ).toBe("negative");
+    const neutral = analyzeSentimentWithKeywords(
+      "The bus leaves at noon",
+      "en"
+    );
+    expect(neutral.sentiment).toBe("neutral");
+    expect(neutral.confidence).toBe(1);
+  });
+
+  it("flips a negated word, including contractions", () => {
+    expect(compoundOf("The food was not good")).toBeLessThan(0);
+    expect(compoundOf("The food isn't good")).toBeLessThan(0);
+  });
+
+  it("grows with boosters, emphasis and exclamations", () => {
+    const plain = compoundOf("The food was good");
+    expect(compoundOf("The food was very good")).toBeGreaterThan(plain);
+    expect(compoundOf("The food was GOOD")).toBeGreaterThan(plain);
+    expect(compoundOf("The food was good!!")).toBeGreaterThan(plain);
+  });
+
+  it("does not treat text shouted throughout as emphasis", () => {
+    expect(compoundOf("THE FOOD WAS GOOD")).toBeCloseTo(
+      compoundOf("the food was good")
+    );
+  });
+
+  it("weights the clause after a contrast word", () => {
+    expect(
+      compoundOf("The food was good but the service was awful")
+    ).toBeLessThan(0);
+  });
+
+  it("keeps the compound within [-1, 1]", () => {
+    const compound = compoundOf(
+      "AMAZING!!! wonderful, brilliant, fantastic and so very very good!!!!"
+    );
+    expect(compound).toBeGreaterThan(0.9);
+    expect(compound).toBeLessThanOrEqual(1);
+  });
+});
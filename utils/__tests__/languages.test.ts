@@ -0,0 +1,59 @@
+import { TrainingDataItem } from "@/types/types";
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+import {
+  detectLanguage,
+  getLanguagePack,
+  getTrainingDataForLanguage,
+} from "@/utils/languages";
+
+describe("detectLanguage", () => {
+  it.each([
+    ["The hotel was lovely and the staff were very friendly", "en"],
+    ["El hotel era muy bonito y el personal fue muy amable", "es"],
+    ["L'hôtel était très joli et le personnel vraiment gentil", "fr"],
+    ["Das Hotel war sehr schön und das Personal sehr freundlich", "de"],
+    ["होटल बहुत अच्छा था", "hi"],
+  ])("detects %s as %s", (text, language) => {
+    expect(detectLanguage(text).language).toBe(language);
+  });
+
+  it("falls back to English with no confidence on too little text", () => {
+    expect(detectLanguage("ok")).toEqual({ language: "en", confidence: 0 });
+  });
+});
+
+describe("getTrainingDataForLanguage", () => {
+  const userData: TrainingDataItem[] = [
+    { text: "Great", sentiment: "positive", confidence: 0.9 },
+  ];
+
+  it("adds the language's examples to the user's set", () => {
+    const data = getTrainingDataForLanguage(userData, "es");
+    expect(data[0]).toBe(userData[0]);
+    expect(data).toHaveLength(1 + getLanguagePack("es").trainingData.length);
+  });
+
+  it("leaves English input with the user's set only", () => {
+    expect(getTrainingDataForLanguage(userData, "en")).toEqual(userData);
+  });
+});
+
+describe("scoring other languages", () => {
+  it("uses the detected language's lexicon and negations", () => {
+    expect(
+      analyzeSentimentWithKeywords("La comida fue excelente").sentiment
+    ).toBe("positive");
+    expect(
+      analyzeSentimentWithKeywords("La comida no fue excelente").sentiment
+    ).toBe("negative");
+  });
+
+  it("applies Hindi negations that follow the word", () => {
+    expect(analyzeSentimentWithKeywords("खाना अच्छा है", "hi").sentiment).toBe(
+      "positive"
+    );
+    expect(
+      analyzeSentimentWithKeywords("खाना अच्छा नहीं है", "hi").sentiment
+    ).toBe("negative");
+  });
+});
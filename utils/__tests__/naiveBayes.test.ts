@@ -0,0 +1,69 @@
+import { TrainingDataItem } from "@/types/types";
+import { predictNaiveBayes, trainNaiveBayes } from "@/utils/naiveBayes";
+
+const TRAINING: TrainingDataItem[] = [
+  { text: "great product, love it", sentiment: "positive", confidence: 1 },
+  { text: "love the great design", sentiment: "positive", confidence: 1 },
+  { text: "terrible quality, hate it", sentiment: "negative", confidence: 1 },
+  { text: "hate the terrible support", sentiment: "negative", confidence: 1 },
+  { text: "it arrived on monday", sentiment: "neutral", confidence: 1 },
+];
+
+describe("trainNaiveBayes", () => {
+  it("rejects an empty training set", () => {
+    expect(() => trainNaiveBayes([])).toThrow(
+      expect.objectContaining({ code: "MODEL_NOT_TRAINED" })
+    );
+  });
+
+  it("weights class priors by label confidence", () => {
+    const model = trainNaiveBayes([
+      { text: "good", sentiment: "positive", confidence: 0.9 },
+      { text: "bad", sentiment: "negative", confidence: 0.3 },
+    ]);
+    expect(model.classPriors.positive).toBeCloseTo(0.75);
+    expect(model.classPriors.negative).toBeCloseTo(0.25);
+    expect(model.classes).toEqual(["positive", "negative"]);
+  });
+
+  it("gives a zero-confidence example the least weight, not the most", () => {
+    const model = trainNaiveBayes([
+      { text: "good", sentiment: "positive", confidence: 1 },
+      { text: "bad", sentiment: "negative", confidence: 0 },
+    ]);
+    expect(model.classPriors.negative).toBeGreaterThan(0);
+    expect(model.classPriors.negative).toBeLessThan(0.1);
+  });
+});
+
+describe("predictNaiveBayes", () => {
+  const model = trainNaiveBayes(TRAINING);
+
+  it.each([
+    ["I love this great phone", "positive"],
+    ["What terrible service, I hate waiting", "negative"],
+  ])("classifies %s as %s", (text, sentiment) => {
+    expect(predictNaiveBayes(model, text).sentiment).toBe(sentiment);
+  });
+
+  it("returns probabilities that sum to one", () => {
+    const { probabilities } = predictNaiveBayes(model, "love it");
+    const total =
+      probabilities.positive + probabilities.negative + probabilities.neutral;
+    expect(total).toBeCloseTo(1);
+  });
+
+  it("falls back to the priors for unseen words", () => {
+    const { probabilities } = predictNaiveBayes(model, "zyxw qwerty");
+    expect(probabilities.positive).toBeCloseTo(model.classPriors.positive);
+    expect(probabilities.neutral).toBeCloseTo(model.classPriors.neutral);
+  });
+
+  it("does not underflow on long inputs", () => {
+    const { probabilities } = predictNaiveBayes(
+      model,
+      "love great ".repeat(500)
+    );
+    expect(probabilities.positive).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  analyzeTokens,
+  DEFAULT_PREPROCESSING_OPTIONS,
+  lemmatize,
+  porterStem,
+  preprocessText,
+} from "@/utils/preprocessing";
+
+describe("porterStem", () => {
+  // Examples from Porter's paper.
+  it.each([
+    ["caresses", "caress"],
+    ["ponies", "poni"],
+    ["hopping", "hop"],
+    ["hoping", "hope"],
+    ["agreed", "agre"],
+    ["relational", "relat"],
+    ["generalization", "gener"],
+    ["adjustable", "adjust"],
+    ["controlling", "control"],
+    ["sky", "sky"],
+  ])("stems %s to %s", (word, stem) => {
+    expect(porterStem(word)).toBe(stem);
+  });
+});
+
+describe("lemmatize", () => {
+  it.each([
+    ["children", "child"],
+    ["stories", "story"],
+    ["boxes", "box"],
+    ["loved", "love"],
+    ["glass", "glass"],
+  ])("maps %s to %s", (word, lemma) => {
+    expect(lemmatize(word)).toBe(lemma);
+  });
+});
+
+describe("preprocessText", () => {
+  it("expands contractions and drops possessive endings", () => {
+    expect(preprocessText("I don't think it's Sam's")).toEqual([
+      "i",
+      "do",
+      "not",
+      "think",
+      "it",
+      "is",
+      "sam",
+    ]);
+  });
+
+  it("replaces URLs, mentions and numbers with placeholders", () => {
+    expect(preprocessText("@anna paid 20 at https://shop.example.com")).toEqual(
+      ["<mention>", "paid", "<number>", "at", "<url>"]
+    );
+  });
+
+  it("drops stopwords but keeps negations", () => {
+    expect(
+      preprocessText("The room was not clean", {
+        ...DEFAULT_PREPROCESSING_OPTIONS,
+        removeStopwords: true,
+      })
+    ).toEqual(["room", "not", "clean"]);
+  });
+
+  it("stems with the chosen stemmer", () => {
+    expect(
+      preprocessText("Loving the views", {
+        ...DEFAULT_PREPROCESSING_OPTIONS,
+        stemming: "porter",
+      })
+    ).toEqual(["love", "the", "view"]);
+  });
+});
+
+describe("analyzeTokens", () => {
+  it("keeps removed tokens and their source for the debug view", () => {
+    const tokens = analyzeTokens("The cats", {
+      ...DEFAULT_PREPROCESSING_OPTIONS,
+      removeStopwords: true,
+      stemming: "lemma",
+    });
+    expect(tokens).toEqual([
+      { source: "The", token: "the", kind: "word", removed: true },
+      { source: "cats", token: "cat", kind: "word", removed: false },
+    ]);
+  });
+});
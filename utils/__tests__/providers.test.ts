@@ -0,0 +1,141 @@
+import { ProviderId } from "@/types/types";
+import {
+  getDefaultProviderConfig,
+  getSentimentProvider,
+  switchProvider,
+} from "@/utils/providers";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const VERDICT = '{"sentiment":"positive","confidence":0.9,"reasoning":"Warm"}';
+
+const buildRequest = (id: ProviderId, baseUrl?: string) => {
+  const config = getDefaultProviderConfig(id);
+  const { url, init } = getSentimentProvider(id).buildRequest(
+    "Lovely day",
+    { ...config, baseUrl: baseUrl ?? config.baseUrl },
+    " secret "
+  );
+  return {
+    url,
+    headers: init.headers as Record<string, string>,
+    body: JSON.parse(init.body as string),
+  };
+};
+
+describe("buildRequest", () => {
+  it("joins the base URL without doubling slashes", () => {
+    expect(buildRequest("openai", "https://example.com/v1//").url).toBe(
+      "https://example.com/v1/chat/completions"
+    );
+  });
+
+  it("sends a trimmed bearer key to OpenAI-compatible servers", () => {
+    const { headers, body } = buildRequest("openai");
+    expect(headers.Authorization).toBe("Bearer secret");
+    expect(body.model).toBe("gpt-4o-mini");
+    expect(body.messages[1].content).toContain("Lovely day");
+  });
+
+  it("uses Anthropic's key header and version", () => {
+    const { url, headers } = buildRequest("anthropic");
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(headers["x-api-key"]).toBe("secret");
+    expect(headers["anthropic-version"]).toBe("2023-06-01");
+  });
+
+  it("sends the raw text to Hugging Face classifiers", () => {
+    const { url, body } = buildRequest("huggingface");
+    expect(url).toMatch(/twitter-roberta-base-sentiment-latest$/);
+    expect(body).toEqual({ inputs: "Lovely day" });
+  });
+});
+
+describe("parseResponse", () => {
+  it("reads OpenAI message content and usage", () => {
+    const parsed = getSentimentProvider("openai").parseResponse({
+      model: "gpt-4o-mini",
+      choices: [{ message: { content: VERDICT } }],
+      usage: { total_tokens: 42 },
+    });
+    expect(parsed.result).toMatchObject({
+      sentiment: "positive",
+      confidence: 0.9,
+    });
+    expect(parsed.tokensUsed).toBe(42);
+  });
+
+  it("reads Anthropic's forced tool call", () => {
+    const parsed = getSentimentProvider("anthropic").parseResponse({
+      model: "claude",
+      content: [
+        {
+          type: "tool_use",
+          name: "record_sentiment",
+          input: { sentiment: "negative", confidence: 0.7, reasoning: "Cold" },
+        },
+      ],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+    expect(parsed.result.sentiment).toBe("negative");
+    expect(parsed.tokensUsed).toBe(15);
+  });
+
+  it("reads Ollama and llama.cpp completions", () => {
+    expect(
+      getSentimentProvider("ollama").parseResponse({
+        message: { content: VERDICT },
+        prompt_eval_count: 3,
+        eval_count: 4,
+      }).tokensUsed
+    ).toBe(7);
+    expect(
+      getSentimentProvider("llamacpp").parseResponse({ content: VERDICT })
+        .result.sentiment
+    ).toBe("positive");
+  });
+
+  it("rejects an empty completion", () => {
+    expect(() =>
+      getSentimentProvider("openai").parseResponse({
+        choices: [{ message: { content: " " } }],
+      })
+    ).toThrow(expect.objectContaining({ code: "INVALID_RESPONSE" }));
+  });
+
+  it("maps indexed Hugging Face labels", () => {
+    const { result } = getSentimentProvider("huggingface").parseResponse([
+      [
+        { label: "LABEL_0", score: 0.1 },
+        { label: "LABEL_1", score: 0.2 },
+        { label: "LABEL_2", score: 0.7 },
+      ],
+    ]);
+    expect(result).toMatchObject({ sentiment: "positive", confidence: 0.7 });
+  });
+
+  it("adds up star ratings that map to the same class", () => {
+    const { result } = getSentimentProvider("huggingface").parseResponse([
+      [
+        { label: "5 stars", score: 0.3 },
+        { label: "4 stars", score: 0.3 },
+        { label: "1 star", score: 0.4 },
+      ],
+    ]);
+    expect(result.sentiment).toBe("positive");
+    expect(result.confidence).toBeCloseTo(0.6);
+  });
+});
+
+describe("switchProvider", () => {
+  it("resets the endpoint but keeps tuned settings", () => {
+    const config = { ...getDefaultProviderConfig("openai"), temperature: 0.7 };
+    expect(switchProvider(config, "ollama")).toMatchObject({
+      provider: "ollama",
+      baseUrl: "http://localhost:11434",
+      temperature: 0.7,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  formatStars,
+  polarityFromLabel,
+  polarityFromProbabilities,
+  polarityToStars,
+  roundStars,
+  starsToPolarity,
+} from "@/utils/ratings";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+describe("polarityToStars", () => {
+  it.each([
+    [1, 5],
+    [-1, 1],
+    [0.05, 3],
+    [-0.1, 3],
+    [0.55, 4],
+    [-0.55, 2],
+  ])("maps polarity %d to %d stars with a ±0.1 band", (polarity, stars) => {
+    expect(polarityToStars(polarity, 0.1)).toBeCloseTo(stars);
+  });
+
+  it("clamps polarities outside [-1, 1]", () => {
+    expect(polarityToStars(3, 0.1)).toBe(5);
+  });
+
+  it("round-trips through starsToPolarity without a band", () => {
+    [1, 2, 3, 4, 5].forEach((stars) => {
+      expect(polarityToStars(starsToPolarity(stars), 0)).toBeCloseTo(stars);
+    });
+  });
+});
+
+describe("polarity", () => {
+  it("is the positive minus the negative probability", () => {
+    expect(
+      polarityFromProbabilities({ positive: 0.7, negative: 0.2, neutral: 0.1 })
+    ).toBeCloseTo(0.5);
+  });
+
+  it("leans the label's way when only a confidence is known", () => {
+    expect(polarityFromLabel("negative", 0.9)).toBeCloseTo(-0.85);
+    expect(polarityFromLabel("neutral", 0.9)).toBeCloseTo(0);
+  });
+});
+
+describe("formatStars", () => {
+  it("rounds and clamps to whole stars", () => {
+    expect(roundStars(0.2)).toBe(1);
+    expect(formatStars(3.6)).toBe("★★★★☆");
+  });
+});
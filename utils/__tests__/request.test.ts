@@ -0,0 +1,159 @@
+import { AnalysisError } from "@/types/types";
+import {
+  classifyHttpError,
+  DEFAULT_FALLBACK_POLICY,
+  fetchJsonWithRetry,
+  getFallbackAction,
+  parseRetryAfter,
+} from "@/utils/request";
+
+// Verbatim shape of OpenAI's 429 responses; the rate-limit message links to
+// the billing page.
+const OPENAI_RATE_LIMIT_BODY = JSON.stringify({
+  error: {
+    message:
+      "Rate limit reached for gpt-4o-mini in organization org-abc123 on requests per min (RPM): Limit 3, Used 3, Requested 1. Please try again in 20s. Visit https://platform.openai.com/account/rate-limits to learn more. You can increase your rate limit by adding a payment method to your account at https://platform.openai.com/account/billing.",
+    type: "requests",
+    param: null,
+    code: "rate_limit_exceeded",
+  },
+});
+
+const OPENAI_QUOTA_BODY = JSON.stringify({
+  error: {
+    message:
+      "You exceeded your current quota, please check your plan and billing details. For more information on this error, read the docs: https://platform.openai.com/docs/guides/error-codes/api-errors.",
+    type: "insufficient_quota",
+    param: null,
+    code: "insufficient_quota",
+  },
+});
+
+const ANTHROPIC_CREDIT_BODY = JSON.stringify({
+  type: "error",
+  error: {
+    type: "invalid_request_error",
+    message:
+      "Your credit balance is too low to access the Anthropic API. Please go to Plans & Billing to upgrade or purchase credits.",
+  },
+});
+
+const mockResponse = (status: number, body: string) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: (name: string) => (name === "Retry-After" ? "0" : null) },
+  text: async () => body,
+});
+
+describe("classifyHttpError", () => {
+  it("treats OpenAI's rate-limit body as a retryable rate limit", () => {
+    const error = classifyHttpError(429, OPENAI_RATE_LIMIT_BODY);
+    expect(error.code).toBe("RATE_LIMITED");
+    expect(getFallbackAction(error, DEFAULT_FALLBACK_POLICY)).toBe("simulate");
+  });
+
+  it("reports OpenAI's insufficient_quota code as exhausted quota", () => {
+    expect(classifyHttpError(429, OPENAI_QUOTA_BODY).code).toBe(
+      "QUOTA_EXCEEDED"
+    );
+  });
+
+  it("reports Anthropic's low credit balance as exhausted quota", () => {
+    expect(classifyHttpError(400, ANTHROPIC_CREDIT_BODY).code).toBe(
+      "QUOTA_EXCEEDED"
+    );
+  });
+
+  it("keeps other Anthropic request errors as API errors", () => {
+    const body = JSON.stringify({
+      type: "error",
+      error: {
+        type: "invalid_request_error",
+        message: "max_tokens: Field required",
+      },
+    });
+    expect(classifyHttpError(400, body).code).toBe("API_ERROR");
+  });
+
+  it("does not read quota from free text", () => {
+    expect(classifyHttpError(429, "quota, billing or credit").code).toBe(
+      "RATE_LIMITED"
+    );
+  });
+
+  it.each([
+    [401, "AUTH_INVALID"],
+    [403, "AUTH_INVALID"],
+    [402, "QUOTA_EXCEEDED"],
+    [503, "SERVER"],
+    [404, "API_ERROR"],
+  ])("maps status %i to %s", (status, code) => {
+    expect(classifyHttpError(status, "").code).toBe(code);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and ignores junk", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("fetchJsonWithRetry", () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("retries a rate limit and resolves to the parsed body", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(mockResponse(429, OPENAI_RATE_LIMIT_BODY))
+      .mockResolvedValueOnce(mockResponse(200, '{"ok":true}'));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const onRetry = jest.fn();
+
+    await expect(
+      fetchJsonWithRetry(
+        "https://api.example.com",
+        {},
+        { timeoutMs: 1000, maxRetries: 2, onRetry }
+      )
+    ).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails at once on exhausted quota", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValue(mockResponse(429, OPENAI_QUOTA_BODY));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(
+      fetchJsonWithRetry(
+        "https://api.example.com",
+        {},
+        { timeoutMs: 1000, maxRetries: 2 }
+      )
+    ).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a body that is not JSON as an invalid response", async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue(
+        mockResponse(200, "<html>Bad gateway</html>")
+      ) as unknown as typeof fetch;
+
+    const result = fetchJsonWithRetry(
+      "https://api.example.com",
+      {},
+      { timeoutMs: 1000, maxRetries: 0 }
+    );
+    await expect(result).rejects.toBeInstanceOf(AnalysisError);
+    await expect(result).rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+  });
+});
@@ -0,0 +1,93 @@
+import { ApiResult } from "@/types/types";
+import { getDefaultProviderConfig } from "@/utils/providers";
+import {
+  buildCacheKey,
+  clearResponseCache,
+  getCachedResult,
+  getPromptVersion,
+  getResponseCacheSize,
+  setCachedResult,
+} from "@/utils/responseCache";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const config = {
+  ...getDefaultProviderConfig("openai"),
+  cacheTtlMs: 1000,
+  cacheMaxEntries: 2,
+};
+
+const RESULT: ApiResult = {
+  sentiment: "positive",
+  confidence: 0.9,
+  processing_time: "1.2s",
+  model: "gpt-4o-mini",
+  tokens_used: 42,
+  reasoning: "Warm",
+  api_used: true,
+};
+
+describe("buildCacheKey", () => {
+  it("ignores trailing slashes on the base URL and text formatting", () => {
+    expect(buildCacheKey("Great  day!", config)).toBe(
+      buildCacheKey(" great day! ", {
+        ...config,
+        baseUrl: `${config.baseUrl}//`,
+      })
+    );
+  });
+
+  it("retires keys when the prompt template changes", () => {
+    const edited = { ...config, promptTemplate: `${config.promptTemplate} ` };
+    expect(getPromptVersion(edited)).not.toBe(getPromptVersion(config));
+    expect(buildCacheKey("Great day", edited)).not.toBe(
+      buildCacheKey("Great day", config)
+    );
+  });
+});
+
+describe("response cache", () => {
+  let now = 0;
+
+  beforeEach(async () => {
+    now = 10_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    await clearResponseCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("serves a stored answer as a free cache hit", async () => {
+    await setCachedResult("Great day", config, RESULT);
+    await expect(getCachedResult("great day", config)).resolves.toEqual({
+      ...RESULT,
+      processing_time: "0.0s",
+      tokens_used: 0,
+      cache_hit: true,
+    });
+  });
+
+  it("misses once an entry outlives its TTL", async () => {
+    await setCachedResult("Great day", config, RESULT);
+    now += config.cacheTtlMs + 1;
+    await expect(getCachedResult("Great day", config)).resolves.toBeNull();
+  });
+
+  it("evicts the least recently used entry beyond the limit", async () => {
+    await setCachedResult("first", config, RESULT);
+    now += 1;
+    await setCachedResult("second", config, RESULT);
+    now += 1;
+    await getCachedResult("first", config);
+    now += 1;
+    await setCachedResult("third", config, RESULT);
+
+    await expect(getResponseCacheSize()).resolves.toBe(2);
+    await expect(getCachedResult("second", config)).resolves.toBeNull();
+    await expect(getCachedResult("first", config)).resolves.not.toBeNull();
+  });
+});
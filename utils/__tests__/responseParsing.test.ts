@@ -0,0 +1,94 @@
+import {
+  extractSentimentFromText,
+  parseSentimentResponse,
+} from "@/utils/responseParsing";
+
+describe("parseSentimentResponse", () => {
+  it("accepts a valid JSON verdict as clean", () => {
+    expect(
+      parseSentimentResponse(
+        '{"sentiment":"negative","confidence":0.8,"reasoning":"Late"}'
+      )
+    ).toEqual({
+      result: { sentiment: "negative", confidence: 0.8, reasoning: "Late" },
+      parseQuality: "clean",
+    });
+  });
+
+  it("repairs fenced JSON with prose, percentages and trailing commas", () => {
+    const parse = parseSentimentResponse(
+      'Sure! ```json\n{"sentiment": "Positive", "confidence": "87%",}\n```'
+    );
+    expect(parse.parseQuality).toBe("repaired");
+    expect(parse.result).toEqual({
+      sentiment: "positive",
+      confidence: 0.87,
+      reasoning: "",
+    });
+  });
+
+  it("falls back to an explicit label in free text", () => {
+    const parse = parseSentimentResponse(
+      "The sentiment is neutral with confidence 60%."
+    );
+    expect(parse.parseQuality).toBe("heuristic");
+    expect(parse.result).toMatchObject({
+      sentiment: "neutral",
+      confidence: 0.6,
+    });
+  });
+
+  it("rejects an answer without a sentiment label", () => {
+    expect(() => parseSentimentResponse("I like it a lot")).toThrow(
+      expect.objectContaining({ code: "INVALID_RESPONSE" })
+    );
+  });
+
+  it("rejects an out-of-range confidence it cannot repair", () => {
+    expect(() =>
+      parseSentimentResponse(
+        '{"sentiment":"happy","confidence":-3,"reasoning":""}'
+      )
+    ).toThrow(/sentiment must be one of/);
+  });
+
+  it("reads a polarity and drops one out of range", () => {
+    const verdict = (polarity: unknown) =>
+      parseSentimentResponse(
+        JSON.stringify({
+          sentiment: "negative",
+          confidence: 0.8,
+          reasoning: "Late",
+          polarity,
+        })
+      ).result.polarity;
+    expect(verdict("-0.6")).toBe(-0.6);
+    expect(verdict(-4)).toBeUndefined();
+  });
+
+  it("keeps well-formed aspects and drops malformed ones", () => {
+    const parse = parseSentimentResponse(
+      JSON.stringify({
+        sentiment: "neutral",
+        confidence: 0.6,
+        reasoning: "Mixed",
+        aspects: [
+          { aspect: " Screen ", sentiment: "Positive", confidence: "90%" },
+          { aspect: "Battery", sentiment: "awful", confidence: 0.8 },
+          { aspect: "", sentiment: "negative", confidence: 0.7 },
+        ],
+      })
+    );
+    expect(parse.result.aspects).toEqual([
+      { aspect: "Screen", sentiment: "positive", confidence: 0.9, span: "" },
+    ]);
+  });
+});
+
+describe("extractSentimentFromText", () => {
+  it("defaults the confidence when none is given", () => {
+    expect(extractSentimentFromText("Sentiment: positive")?.confidence).toBe(
+      0.5
+    );
+  });
+});
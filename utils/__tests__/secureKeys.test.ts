@@ -0,0 +1,31 @@
+import { maskApiKey, redactSecrets } from "@/utils/secureKeys";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+describe("maskApiKey", () => {
+  it("shows only the ends of a key", () => {
+    expect(maskApiKey(" sk-abcdefghijklmnop ")).toBe("sk-a…mnop");
+  });
+
+  it("hides short keys entirely", () => {
+    expect(maskApiKey("abc123")).toBe("••••••");
+  });
+});
+
+describe("redactSecrets", () => {
+  it("masks provider keys and bearer tokens in messages", () => {
+    expect(
+      redactSecrets(
+        "Incorrect API key provided: sk-proj-abcdefghijkl1234. Header was Bearer hf_ABCDEFGHIJKLmnop"
+      )
+    ).toBe(
+      "Incorrect API key provided: sk-p…1234. Header was Bearer hf_A…mnop"
+    );
+  });
+
+  it("leaves ordinary text alone", () => {
+    expect(redactSecrets("Rate limit reached")).toBe("Rate limit reached");
+  });
+});
@@ -0,0 +1,96 @@
+import { SentenceSpan, SentimentProbabilities } from "@/types/types";
+import {
+  aggregateSentenceScores,
+  labelProbabilities,
+  splitSentences,
+} from "@/utils/sentences";
+
+const texts = (text: string): string[] =>
+  splitSentences(text).map((span) => span.text);
+
+const rebuild = (spans: SentenceSpan[]): string =>
+  spans.map((span) => span.text + span.trailing).join("");
+
+describe("splitSentences", () => {
+  it("splits on terminators, closing quotes and line breaks", () => {
+    expect(texts('Loved it! Was it worth it? "Yes."\nWould return')).toEqual([
+      "Loved it!",
+      "Was it worth it?",
+      '"Yes."',
+      "Would return",
+    ]);
+  });
+
+  it("keeps abbreviations, initials, decimals and domains together", () => {
+    expect(
+      texts(
+        "Dr. Smith paid approx. 3.5 dollars, e.g. on example.com. J. K. Rowling agreed."
+      )
+    ).toEqual([
+      "Dr. Smith paid approx. 3.5 dollars, e.g. on example.com.",
+      "J. K. Rowling agreed.",
+    ]);
+  });
+
+  it("splits on the Devanagari full stop", () => {
+    expect(texts("खाना अच्छा था। सेवा धीमी थी।")).toEqual([
+      "खाना अच्छा था।",
+      "सेवा धीमी थी।",
+    ]);
+  });
+
+  it("keeps fragments without words with the sentence before", () => {
+    expect(texts("Well. ... Fine.")).toEqual(["Well. ...", "Fine."]);
+  });
+
+  it("rebuilds the input from the spans", () => {
+    const text = "First one.  Second one!\n\nThird";
+    expect(rebuild(splitSentences(text))).toBe(text);
+  });
+});
+
+describe("labelProbabilities", () => {
+  it("shares the remainder and keeps the label the likeliest", () => {
+    expect(labelProbabilities("positive", 0.8)).toEqual({
+      positive: 0.8,
+      negative: expect.closeTo(0.1),
+      neutral: expect.closeTo(0.1),
+    });
+    expect(labelProbabilities("negative", 0.2).negative).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("aggregateSentenceScores", () => {
+  const score = (text: string, probabilities: SentimentProbabilities) => ({
+    span: { text, trailing: " " },
+    probabilities,
+  });
+
+  it("lets opinionated sentences outweigh neutral filler", () => {
+    const aggregate = aggregateSentenceScores([
+      score("We arrived on Tuesday and checked in at the front desk", {
+        positive: 0.05,
+        negative: 0.05,
+        neutral: 0.9,
+      }),
+      score("Awful room", { positive: 0.05, negative: 0.9, neutral: 0.05 }),
+    ]);
+    expect(aggregate.sentiment).toBe("negative");
+    expect(aggregate.sentences.map((sentence) => sentence.sentiment)).toEqual([
+      "neutral",
+      "negative",
+    ]);
+  });
+
+  it("gives sentence weights that sum to one", () => {
+    const aggregate = aggregateSentenceScores([
+      score("Good", labelProbabilities("positive", 0.7)),
+      score("Fine I guess", labelProbabilities("neutral", 0.9)),
+    ]);
+    const total = aggregate.sentences.reduce(
+      (sum, sentence) => sum + sentence.weight,
+      0
+    );
+    expect(total).toBeCloseTo(1);
+  });
+});
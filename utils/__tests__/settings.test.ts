@@ -0,0 +1,67 @@
+import { FallbackPolicy } from "@/types/types";
+import { getDefaultProviderConfig } from "@/utils/providers";
+import {
+  clampSetting,
+  formatCacheTtl,
+  TEMPERATURE_RANGE,
+  upsertSettingsPreset,
+  withConfigDefaults,
+} from "@/utils/settings";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+describe("withConfigDefaults", () => {
+  it("fills fields missing from older saved settings", () => {
+    const config = withConfigDefaults({
+      provider: "ollama",
+      model: "mistral",
+      fallbackPolicy: { TIMEOUT: "fail" } as FallbackPolicy,
+    });
+    const defaults = getDefaultProviderConfig("ollama");
+    expect(config.model).toBe("mistral");
+    expect(config.baseUrl).toBe(defaults.baseUrl);
+    expect(config.fallbackPolicy).toEqual({
+      ...defaults.fallbackPolicy,
+      TIMEOUT: "fail",
+    });
+  });
+
+  it("starts from the OpenAI defaults when nothing was saved", () => {
+    expect(withConfigDefaults(null)).toEqual(getDefaultProviderConfig());
+  });
+});
+
+describe("upsertSettingsPreset", () => {
+  const config = getDefaultProviderConfig();
+
+  it("replaces a preset saved under the same name", () => {
+    const presets = upsertSettingsPreset([], " Fast ", config);
+    const updated = upsertSettingsPreset(presets, "fast", {
+      ...config,
+      temperature: 1,
+    });
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toMatchObject({
+      id: presets[0].id,
+      name: "Fast",
+      config: { temperature: 1 },
+    });
+  });
+});
+
+describe("clampSetting", () => {
+  it("snaps to the step and stays in range", () => {
+    expect(clampSetting(0.73, TEMPERATURE_RANGE)).toBe(0.7);
+    expect(clampSetting(5, TEMPERATURE_RANGE)).toBe(2);
+    expect(clampSetting(-1, TEMPERATURE_RANGE)).toBe(0);
+  });
+});
+
+describe("formatCacheTtl", () => {
+  it("shows whole days as days and the rest as hours", () => {
+    expect(formatCacheTtl(48 * 60 * 60 * 1000)).toBe("2d");
+    expect(formatCacheTtl(6 * 60 * 60 * 1000)).toBe("6h");
+  });
+});
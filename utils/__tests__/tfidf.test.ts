@@ -0,0 +1,72 @@
+import { TrainingDataItem } from "@/types/types";
+import {
+  buildTfidfIndex,
+  buildTfidfVectorizer,
+  classifyWithKnn,
+  cosineSimilarity,
+  vectorize,
+} from "@/utils/tfidf";
+
+const TRAINING: TrainingDataItem[] = [
+  { text: "great product, love it", sentiment: "positive", confidence: 1 },
+  { text: "love the great design", sentiment: "positive", confidence: 1 },
+  { text: "terrible quality, hate it", sentiment: "negative", confidence: 1 },
+  { text: "it arrived on monday", sentiment: "neutral", confidence: 1 },
+];
+
+describe("buildTfidfVectorizer", () => {
+  it("uses the smoothed idf", () => {
+    const { idf } = buildTfidfVectorizer(["apple banana", "apple"]);
+    expect(idf.apple).toBeCloseTo(1);
+    expect(idf.banana).toBeCloseTo(Math.log(3 / 2) + 1);
+  });
+});
+
+describe("vectorize", () => {
+  const vectorizer = buildTfidfVectorizer(["apple banana", "apple cherry"]);
+
+  it("returns a unit-length vector over known tokens", () => {
+    const vector = vectorize(vectorizer, "apple banana durian");
+    expect(Object.keys(vector).sort()).toEqual(["apple", "banana"]);
+    const norm = Math.hypot(...Object.values(vector));
+    expect(norm).toBeCloseTo(1);
+  });
+
+  it("returns an empty vector for unseen text", () => {
+    expect(vectorize(vectorizer, "durian")).toEqual({});
+  });
+});
+
+describe("cosineSimilarity", () => {
+  const vectorizer = buildTfidfVectorizer(["apple banana", "apple cherry"]);
+
+  it("is 1 for identical texts and 0 without overlap", () => {
+    const a = vectorize(vectorizer, "apple banana");
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(cosineSimilarity(vectorize(vectorizer, "banana"), {})).toBe(0);
+  });
+});
+
+describe("classifyWithKnn", () => {
+  const index = buildTfidfIndex(TRAINING);
+
+  it("votes by similarity among the nearest neighbours", () => {
+    const prediction = classifyWithKnn(index, "I love the great colours", 3);
+    expect(prediction.sentiment).toBe("positive");
+    expect(prediction.neighbors).toHaveLength(3);
+    expect(prediction.neighbors?.[0].sentiment).toBe("positive");
+  });
+
+  it("falls back to the class distribution without overlap", () => {
+    const { probabilities } = classifyWithKnn(index, "zyxw", 3);
+    expect(probabilities.positive).toBeCloseTo(0.5);
+    expect(probabilities.negative).toBeCloseTo(0.25);
+    expect(probabilities.neutral).toBeCloseTo(0.25);
+  });
+
+  it("rejects an empty training set", () => {
+    expect(() => buildTfidfIndex([])).toThrow(
+      expect.objectContaining({ code: "MODEL_NOT_TRAINED" })
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { SEED_TRAINING_DATA } from "@/constants/TrainingData";
+import {
+  createDatasetItem,
+  getClassBalance,
+  loadTrainingData,
+  searchTrainingData,
+} from "@/utils/trainingData";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+describe("createDatasetItem", () => {
+  it("trims the text and clamps the confidence", () => {
+    const item = createDatasetItem({
+      text: "  fine  ",
+      sentiment: "neutral",
+      confidence: 1.4,
+    });
+    expect(item).toMatchObject({ text: "fine", confidence: 1 });
+    expect(item.id).toEqual(expect.any(String));
+  });
+});
+
+describe("loadTrainingData", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("writes the seed set on first launch", async () => {
+    const items = await loadTrainingData();
+    expect(items).toHaveLength(SEED_TRAINING_DATA.length);
+    expect(await loadTrainingData()).toEqual(items);
+  });
+});
+
+describe("query utilities", () => {
+  const items = [
+    { text: "Great value", sentiment: "positive" as const, confidence: 1 },
+    { text: "Great, it broke", sentiment: "negative" as const, confidence: 1 },
+    { text: "It is blue", sentiment: "neutral" as const, confidence: 1 },
+  ].map(createDatasetItem);
+
+  it("counts examples per class", () => {
+    expect(getClassBalance(items)).toEqual({
+      positive: 1,
+      negative: 1,
+      neutral: 1,
+    });
+  });
+
+  it("searches case-insensitively within a class", () => {
+    expect(searchTrainingData(items, "great")).toHaveLength(2);
+    expect(
+      searchTrainingData(items, "GREAT", "negative").map((item) => item.text)
+    ).toEqual(["Great, it broke"]);
+  });
+});
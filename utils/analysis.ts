@@ -0,0 +1,599 @@
+import {
+  AnalysisEngine,
+  AnalysisError,
+  AnalysisOptions,
+  AnalysisOutcome,
+  ApiResult,
+  AspectSettings,
+  Calibrator,
+  ConnectionTestResult,
+  EmotionMode,
+  LanguageCode,
+  LocalModelOptions,
+  ModelResult,
+  PromptExtras,
+  ProviderConfig,
+  SentenceSpan,
+  SentenceVerdict,
+  TrainingDataItem,
+} from "@/types/types";
+import { analyzeAspects, AspectSpanScorer } from "@/utils/aspects";
+import { applyCalibration } from "@/utils/calibration";
+import {
+  formatEmojiSignals,
+  mergeEmojiSignals,
+  summarizeEmojiSignals,
+} from "@/utils/emoji";
+import {
+  analyzeEmotionsWithLexicon,
+  normalizeEmotionScores,
+} from "@/utils/emotions";
+import {
+  formatSampleAccuracy,
+  getKeywordCalibration,
+  getModelCalibration,
+} from "@/utils/evaluation";
+import {
+  formatDrivers,
+  getTopDrivers,
+  rebaseContributions,
+} from "@/utils/explanations";
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+import { detectLanguage, getTrainingDataForLanguage } from "@/utils/languages";
+import { trainLocalClassifier } from "@/utils/localModels";
+import { preprocessText } from "@/utils/preprocessing";
+import { detectPromptInjection } from "@/utils/prompt";
+import { getSentimentProvider } from "@/utils/providers";
+import { polarityFromLabel, polarityFromProbabilities } from "@/utils/ratings";
+import {
+  fetchJsonWithRetry,
+  getFallbackAction,
+  isCancellation,
+  throwIfCancelled,
+} from "@/utils/request";
+import { getCachedResult, setCachedResult } from "@/utils/responseCache";
+import {
+  aggregateSentenceScores,
+  labelProbabilities,
+  splitSentences,
+} from "@/utils/sentences";
+import { delay, handleAnalysisError, validateInput } from "@/utils/utils";
+
+// API analysis functions
+export const callProviderAPI = async (
+  text: string,
+  config: ProviderConfig,
+  apiKey: string,
+  signal?: AbortSignal,
+  extras: PromptExtras = {}
+): Promise<ApiResult> => {
+  const provider = getSentimentProvider(config.provider);
+  const startTime = Date.now();
+
+  const { url, init } = provider.buildRequest(text, config, apiKey, extras);
+  const body = await fetchJsonWithRetry(url, init, {
+    timeoutMs: config.timeoutMs,
+    maxRetries: config.maxRetries,
+    signal,
+  });
+
+  const { result, parseQuality, tokensUsed, model } =
+    provider.parseResponse(body);
+
+  const endTime = Date.now();
+  const processingTime = ((endTime - startTime) / 1000).toFixed(1);
+
+  const apiResult: ApiResult = {
+    sentiment: result.sentiment,
+    confidence: parseFloat(result.confidence.toFixed(2)),
+    polarity: parseFloat(
+      (
+        result.polarity ??
+        polarityFromLabel(result.sentiment, result.confidence)
+      ).toFixed(2)
+    ),
+    processing_time: `${processingTime}s`,
+    // Prefer the model the server says answered over the one requested.
+    model: model || config.model,
+    tokens_used: tokensUsed || Math.floor(text.split(" ").length * 1.3),
+    reasoning: result.reasoning || "API analysis",
+    api_used: true,
+    parse_quality: parseQuality,
+  };
+  // Providers without a prompt, or answers missing a breakdown, leave it to
+  // the dictionary and the emotion lexicon.
+  if (extras.aspects && result.aspects) {
+    apiResult.aspects = result.aspects;
+    apiResult.aspect_source = "llm";
+  }
+  if (extras.emotions && result.emotions) {
+    apiResult.emotions = normalizeEmotionScores(
+      result.emotions,
+      extras.emotions,
+      "llm"
+    );
+  }
+  return extras.sentences
+    ? withSentenceVerdicts(apiResult, extras.sentences, result.sentences)
+    : apiResult;
+};
+
+// The document verdict becomes the weighted aggregate of the sentence
+// verdicts, as for the local engines.
+const withSentenceVerdicts = (
+  apiResult: ApiResult,
+  sentences: SentenceSpan[],
+  verdicts: SentenceVerdict[] | undefined
+): ApiResult => {
+  if (verdicts?.length !== sentences.length) {
+    throw new AnalysisError(
+      `Expected ${sentences.length} sentence verdicts, got ${
+        verdicts?.length ?? 0
+      }`,
+      "INVALID_RESPONSE"
+    );
+  }
+
+  const aggregate = aggregateSentenceScores(
+    verdicts.map((verdict, index) => ({
+      span: sentences[index],
+      probabilities: labelProbabilities(verdict.sentiment, verdict.confidence),
+    }))
+  );
+  return {
+    ...apiResult,
+    sentiment: aggregate.sentiment,
+    confidence: parseFloat(aggregate.confidence.toFixed(2)),
+    // Weighted like the verdict.
+    polarity: parseFloat(
+      verdicts
+        .reduce(
+          (sum, verdict, index) =>
+            sum +
+            (verdict.polarity ??
+              polarityFromLabel(verdict.sentiment, verdict.confidence)) *
+              aggregate.sentences[index].weight,
+          0
+        )
+        .toFixed(2)
+    ),
+    sentences: aggregate.sentences,
+  };
+};
+
+// The smallest real request the provider accepts, so that both the key and
+// the account's quota are exercised.
+export const testProviderConnection = async (
+  config: ProviderConfig,
+  apiKey: string
+): Promise<ConnectionTestResult> => {
+  const provider = getSentimentProvider(config.provider);
+  if (provider.requiresApiKey && !apiKey.trim()) {
+    return { status: "invalid", message: "No API key entered" };
+  }
+
+  const { url, init } = provider.buildRequest(
+    "ok",
+    { ...config, maxTokens: 1 },
+    apiKey
+  );
+
+  try {
+    await fetchJsonWithRetry(url, init, {
+      timeoutMs: config.timeoutMs,
+      maxRetries: 0,
+    });
+    return { status: "valid", message: `Connected to ${provider.label}` };
+  } catch (error) {
+    const message = handleAnalysisError(error, "Connection failed");
+    if (error instanceof AnalysisError && error.code === "AUTH_INVALID") {
+      return { status: "invalid", message };
+    }
+    if (error instanceof AnalysisError && error.code === "QUOTA_EXCEEDED") {
+      return { status: "no-quota", message };
+    }
+    // A rate limit still proves the key was accepted.
+    if (error instanceof AnalysisError && error.code === "RATE_LIMITED") {
+      return { status: "valid", message: `Key accepted; ${message}` };
+    }
+    return { status: "error", message };
+  }
+};
+
+type ApiAnalysisOptions = Partial<
+  Pick<
+    AnalysisOptions,
+    | "onFallback"
+    | "signal"
+    | "aspectSettings"
+    | "emotionMode"
+    | "trainingData"
+    | "modelOptions"
+  >
+>;
+
+// Calibration functions
+// Only the headline confidence is mapped onto the observed hit rate; the raw
+// value is kept alongside it.
+const withCalibration = <T extends ApiResult | ModelResult>(
+  result: T,
+  calibrator: Calibrator
+): T => ({
+  ...result,
+  confidence: parseFloat(
+    applyCalibration(calibrator, result.confidence).toFixed(2)
+  ),
+  raw_confidence: result.confidence,
+  calibration: calibrator.method,
+  calibration_skipped:
+    calibrator.method === "none" ? calibrator.skipped : undefined,
+});
+
+// The simulation is calibrated against the labelled data when the caller
+// passes it along.
+const getSimulationCalibrator = (
+  text: string,
+  options: ApiAnalysisOptions
+): Calibrator =>
+  options.trainingData && options.modelOptions
+    ? getKeywordCalibration(
+        options.trainingData,
+        detectLanguage(text).language,
+        options.modelOptions.calibration
+      ).calibrator
+    : { method: "none" };
+
+// fallbackFor names the API model the simulation is standing in for, if any.
+export const performSimulationAnalysis = async (
+  text: string,
+  fallbackFor: string | null,
+  calibrator: Calibrator = { method: "none" }
+): Promise<ApiResult> => {
+  await delay(1500);
+
+  const { sentiment, confidence, compound, emoji, contributions } =
+    analyzeSentimentWithKeywords(text);
+  const drivers = getTopDrivers(contributions, 3);
+  const notes = [`compound ${compound.toFixed(2)}`];
+  if (drivers.length > 0) notes.push(`drivers ${formatDrivers(drivers)}`);
+  if (emoji.length > 0) notes.push(`emoji ${formatEmojiSignals(emoji)}`);
+
+  return withCalibration(
+    {
+      sentiment,
+      confidence: parseFloat(confidence.toFixed(2)),
+      polarity: parseFloat(compound.toFixed(2)),
+      processing_time: "1.3s",
+      model: fallbackFor ? `${fallbackFor} (Fallback)` : "Demo Simulation",
+      tokens_used: Math.floor(text.split(" ").length * 1.3),
+      reasoning: `Rule-based valence scoring (${notes.join("; ")})`,
+      api_used: false,
+      emoji,
+      contributions,
+    },
+    calibrator
+  );
+};
+
+// Either the provider's answer, or the model the simulation should stand in
+// for (null when no key is set).
+type ProviderOutcome =
+  | { result: ApiResult }
+  | { result: null; fallbackFor: string | null };
+
+// onFallback receives the API error message when the simulation is to step
+// in; errors whose policy is "fail", and cancellations, are rethrown. Only
+// real provider answers are cached, never simulations.
+const requestProviderResult = async (
+  text: string,
+  config: ProviderConfig,
+  apiKey: string,
+  options: ApiAnalysisOptions,
+  sentences?: SentenceSpan[]
+): Promise<ProviderOutcome> => {
+  const provider = getSentimentProvider(config.provider);
+  if (provider.requiresApiKey && !apiKey?.trim()) {
+    return { result: null, fallbackFor: null };
+  }
+
+  const extras: PromptExtras = {
+    aspects: options.aspectSettings?.mode === "llm",
+    emotions:
+      options.emotionMode && options.emotionMode !== "off"
+        ? options.emotionMode
+        : undefined,
+    sentences,
+  };
+  if (config.cacheEnabled) {
+    const cached = await getCachedResult(text, config, extras);
+    if (cached) return { result: cached };
+  }
+
+  try {
+    const result = await callProviderAPI(
+      text,
+      config,
+      apiKey,
+      options.signal,
+      extras
+    );
+    if (config.cacheEnabled) {
+      await setCachedResult(text, config, result, extras);
+    }
+    return { result };
+  } catch (error) {
+    if (
+      isCancellation(error) ||
+      getFallbackAction(error, config.fallbackPolicy) === "fail"
+    ) {
+      throw error;
+    }
+    options.onFallback?.(handleAnalysisError(error, "API call failed"));
+    return { result: null, fallbackFor: config.model };
+  }
+};
+
+export const performApiAnalysis = async (
+  text: string,
+  config: ProviderConfig,
+  apiKey: string,
+  options: ApiAnalysisOptions = {}
+): Promise<ApiResult> => {
+  const outcome = await requestProviderResult(text, config, apiKey, options);
+  return (
+    outcome.result ??
+    performSimulationAnalysis(
+      text,
+      outcome.fallbackFor,
+      getSimulationCalibrator(text, options)
+    )
+  );
+};
+
+// Sentence functions
+// The provider scores every sentence in one request. When the simulation
+// steps in, it scores the sentences one by one; the document verdict is their
+// weighted aggregate and the metadata is pooled.
+const performSentenceApiAnalysis = async (
+  text: string,
+  sentences: SentenceSpan[],
+  config: ProviderConfig,
+  apiKey: string,
+  options: ApiAnalysisOptions
+): Promise<ApiResult> => {
+  const startTime = Date.now();
+  const outcome = await requestProviderResult(
+    text,
+    config,
+    apiKey,
+    options,
+    sentences
+  );
+  if (outcome.result) return outcome.result;
+
+  const results = await Promise.all(
+    sentences.map((span) =>
+      performSimulationAnalysis(span.text, outcome.fallbackFor)
+    )
+  );
+  const emoji = mergeEmojiSignals(results.map((result) => result.emoji ?? []));
+  const aggregated = withSentenceVerdicts(
+    {
+      ...results[0],
+      processing_time: `${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+      tokens_used: results.reduce((sum, result) => sum + result.tokens_used, 0),
+      reasoning: `Weighted aggregate of ${sentences.length} sentence verdicts`,
+      emoji: emoji.length > 0 ? emoji : undefined,
+    },
+    sentences,
+    results
+  );
+  // Each sentence's words were scored against its own verdict.
+  const contributions = rebaseContributions(
+    results.flatMap((result) => result.contributions ?? []),
+    aggregated.sentiment
+  );
+  return withCalibration(
+    {
+      ...aggregated,
+      contributions: contributions.length > 0 ? contributions : undefined,
+    },
+    getSimulationCalibrator(text, options)
+  );
+};
+
+// Aspect functions
+// Dictionary aspects are added unless aspects are off or the provider already
+// listed its own.
+const withDictionaryAspects = <T extends ApiResult | ModelResult>(
+  result: T,
+  text: string,
+  aspectSettings: AspectSettings | undefined,
+  scoreSpan: AspectSpanScorer,
+  language: LanguageCode
+): T => {
+  if (!aspectSettings || aspectSettings.mode === "off") return result;
+  if (result.aspect_source === "llm") return result;
+
+  return {
+    ...result,
+    aspects: analyzeAspects(
+      text,
+      aspectSettings.dictionary,
+      scoreSpan,
+      language
+    ),
+    aspect_source: "dictionary",
+  };
+};
+
+const scoreSpanWithKeywords =
+  (language: LanguageCode): AspectSpanScorer =>
+  (span) => {
+    const { sentiment, confidence } = analyzeSentimentWithKeywords(
+      span,
+      language
+    );
+    return { sentiment, confidence: parseFloat(confidence.toFixed(2)) };
+  };
+
+// Emotion functions
+// Lexicon emotions are added unless emotions are off or the provider already
+// scored them.
+const withLexiconEmotions = <T extends ApiResult | ModelResult>(
+  result: T,
+  text: string,
+  emotionMode: EmotionMode | undefined,
+  language: LanguageCode
+): T => {
+  if (!emotionMode || emotionMode === "off" || result.emotions) return result;
+  return {
+    ...result,
+    emotions: analyzeEmotionsWithLexicon(text, emotionMode, language),
+  };
+};
+
+// Model analysis functions
+export const performModelAnalysis = (
+  text: string,
+  trainingData: TrainingDataItem[],
+  modelOptions: LocalModelOptions,
+  aspectSettings?: AspectSettings
+): ModelResult => {
+  const { language } = detectLanguage(text);
+  const classifier = trainLocalClassifier(
+    getTrainingDataForLanguage(trainingData, language),
+    modelOptions
+  );
+
+  const startTime = performance.now();
+  const prediction = classifier.predict(text);
+  // Multi-sentence input is judged sentence by sentence, then aggregated.
+  const sentences = splitSentences(text);
+  const aggregate =
+    sentences.length > 1
+      ? aggregateSentenceScores(
+          sentences.map((span) => ({
+            span,
+            probabilities: classifier.predict(span.text).probabilities,
+          }))
+        )
+      : null;
+  const inferenceTime = performance.now() - startTime;
+  const sentiment = aggregate?.sentiment ?? prediction.sentiment;
+  const probabilities = aggregate?.probabilities ?? prediction.probabilities;
+  const { samples, calibrator } = getModelCalibration(
+    trainingData,
+    language,
+    modelOptions
+  );
+
+  // Each aspect's clause goes through the same classifier as the whole text.
+  const scoreSpan: AspectSpanScorer = (span) => {
+    const spanPrediction = classifier.predict(span);
+    return {
+      sentiment: spanPrediction.sentiment,
+      confidence: parseFloat(
+        spanPrediction.probabilities[spanPrediction.sentiment].toFixed(2)
+      ),
+    };
+  };
+
+  const result: ModelResult = {
+    sentiment,
+    confidence: parseFloat(probabilities[sentiment].toFixed(2)),
+    polarity: parseFloat(polarityFromProbabilities(probabilities).toFixed(2)),
+    processing_time: `${inferenceTime.toFixed(2)}ms`,
+    model: classifier.name,
+    training_samples: classifier.trainingSamples,
+    vocabulary_size: classifier.vocabularySize,
+    feature_extraction: classifier.featureExtraction,
+    accuracy: formatSampleAccuracy(samples),
+    // The bars keep the classifier's own probabilities.
+    probabilities,
+    neighbors: prediction.neighbors,
+    emoji: summarizeEmojiSignals(
+      preprocessText(text, modelOptions.preprocessing)
+    ),
+    sentences: aggregate?.sentences,
+    contributions: classifier.explain(text, sentiment),
+  };
+  return withDictionaryAspects(
+    withCalibration(result, calibrator),
+    text,
+    aspectSettings,
+    scoreSpan,
+    language
+  );
+};
+
+// Engine dispatch
+export const runAnalysis = async (
+  text: string,
+  engine: AnalysisEngine,
+  options: AnalysisOptions
+): Promise<AnalysisOutcome> => {
+  validateInput(text);
+  const { language } = detectLanguage(text);
+
+  if (engine === "api") {
+    const sentences = splitSentences(text);
+    const result =
+      sentences.length > 1
+        ? await performSentenceApiAnalysis(
+            text,
+            sentences,
+            options.providerConfig,
+            options.apiKey,
+            options
+          )
+        : await performApiAnalysis(
+            text,
+            options.providerConfig,
+            options.apiKey,
+            options
+          );
+    // The simulation cannot be interrupted, so a cancel lands here instead.
+    throwIfCancelled(options.signal);
+    const injectionFlags = detectPromptInjection(text);
+    const aspectResult = withLexiconEmotions(
+      withDictionaryAspects(
+        result,
+        text,
+        options.aspectSettings,
+        scoreSpanWithKeywords(language),
+        language
+      ),
+      text,
+      options.emotionMode,
+      language
+    );
+    return {
+      result:
+        injectionFlags.length > 0
+          ? { ...aspectResult, language, injection_flags: injectionFlags }
+          : { ...aspectResult, language },
+      provider: result.api_used
+        ? options.providerConfig.provider
+        : "simulation",
+    };
+  }
+
+  return {
+    result: {
+      ...withLexiconEmotions(
+        performModelAnalysis(
+          text,
+          options.trainingData,
+          options.modelOptions,
+          options.aspectSettings
+        ),
+        text,
+        options.emotionMode,
+        language
+      ),
+      language,
+    },
+    provider: options.modelOptions.engine,
+  };
+};
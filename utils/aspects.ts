@@ -0,0 +1,192 @@
+import { DEFAULT_ASPECT_DICTIONARY } from "@/constants/Aspects";
+import {
+  AspectDefinition,
+  AspectRollup,
+  AspectSentiment,
+  AspectSettings,
+  LanguageCode,
+  LanguagePack,
+} from "@/types/types";
+import { getLanguagePack } from "@/utils/languages";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+import { generateId } from "@/utils/utils";
+
+export const DEFAULT_ASPECT_SETTINGS: AspectSettings = {
+  mode: "off",
+  dictionary: DEFAULT_ASPECT_DICTIONARY,
+};
+
+export type AspectSpanScorer = (
+  span: string
+) => Pick<AspectSentiment, "sentiment" | "confidence">;
+
+// Persistence utilities
+export const loadAspectSettings = async (): Promise<AspectSettings> => ({
+  ...DEFAULT_ASPECT_SETTINGS,
+  ...(await loadJSON<Partial<AspectSettings> | null>(
+    STORAGE_KEYS.aspectSettings,
+    null
+  )),
+});
+
+export const saveAspectSettings = (settings: AspectSettings): Promise<void> =>
+  saveJSON(STORAGE_KEYS.aspectSettings, settings);
+
+// Dictionary utilities
+// "Battery life, charger" becomes ["battery life", "charger"].
+export const parseAspectTerms = (input: string): string[] =>
+  Array.from(
+    new Set(
+      input
+        .split(/[,;\n]/)
+        .map((term) => term.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+// An aspect saved under an existing name replaces its terms.
+export const upsertAspectDefinition = (
+  dictionary: AspectDefinition[],
+  name: string,
+  terms: string[]
+): AspectDefinition[] => {
+  const trimmed = name.trim();
+  const existing = dictionary.find(
+    (aspect) => aspect.name.toLowerCase() === trimmed.toLowerCase()
+  );
+
+  if (existing) {
+    return dictionary.map((aspect) =>
+      aspect.id === existing.id ? { ...aspect, terms } : aspect
+    );
+  }
+  return [...dictionary, { id: generateId(), name: trimmed, terms }];
+};
+
+// Extraction utilities
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Clauses end at sentence punctuation and before contrast words, so "great
+// screen but awful battery" yields one clause per aspect.
+const splitClauses = (text: string, pack: LanguagePack): string[] => {
+  const contrast = pack.contrastWords.map(escapeRegExp).join("|");
+  const boundary = new RegExp(
+    contrast ? `[.!?;\\n]+|,?\\s+(?:${contrast})\\s+` : "[.!?;\\n]+",
+    "giu"
+  );
+  return text
+    .split(boundary)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+};
+
+// Whole words only, allowing a plural: "screen" matches "screens" but not
+// "screenshot".
+const buildTermPattern = (terms: string[]): RegExp | null => {
+  const alternatives = terms
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .map((term) => escapeRegExp(term).replace(/\s+/g, "\\s+"));
+  if (alternatives.length === 0) return null;
+
+  return new RegExp(
+    `(?:^|[^\\p{L}\\p{N}])(?:${alternatives.join(
+      "|"
+    )})(?:e?s)?(?=$|[^\\p{L}\\p{N}])`,
+    "iu"
+  );
+};
+
+// A clause without opinion words is confidently neutral, so an opinion on
+// the aspect elsewhere takes precedence over it.
+const isStrongerVerdict = (
+  candidate: Pick<AspectSentiment, "sentiment" | "confidence">,
+  current: Pick<AspectSentiment, "sentiment" | "confidence">
+): boolean => {
+  const candidatePolar = candidate.sentiment !== "neutral";
+  const currentPolar = current.sentiment !== "neutral";
+  if (candidatePolar !== currentPolar) return candidatePolar;
+  return candidate.confidence > current.confidence;
+};
+
+// Each dictionary aspect mentioned in the text gets the verdict of the clause
+// that mentions it; when several do, the most confident opinion stands.
+// Aspects come back in the order the text first mentions them.
+export const analyzeAspects = (
+  text: string,
+  dictionary: AspectDefinition[],
+  scoreSpan: AspectSpanScorer,
+  language: LanguageCode
+): AspectSentiment[] => {
+  const clauses = splitClauses(text, getLanguagePack(language));
+
+  return dictionary
+    .flatMap((definition) => {
+      const pattern = buildTermPattern(definition.terms);
+      if (!pattern) return [];
+
+      const mentions = clauses
+        .map((clause, index) => ({ clause, index }))
+        .filter(({ clause }) => pattern.test(clause));
+      if (mentions.length === 0) return [];
+
+      const scored = mentions.map(({ clause, index }) => ({
+        index,
+        result: {
+          aspect: definition.name,
+          ...scoreSpan(clause),
+          span: clause,
+        },
+      }));
+      const best = scored.reduce((current, candidate) =>
+        isStrongerVerdict(candidate.result, current.result)
+          ? candidate
+          : current
+      );
+      return [{ firstIndex: mentions[0].index, result: best.result }];
+    })
+    .sort((a, b) => a.firstIndex - b.firstIndex)
+    .map(({ result }) => result);
+};
+
+// Roll-up utilities
+// Aspects are grouped by name regardless of case, since LLM-extracted names
+// vary; the first spelling seen is kept. Most mentioned first.
+export const rollupAspects = (
+  aspectLists: AspectSentiment[][]
+): AspectRollup[] => {
+  const rollups: Record<string, AspectRollup & { totalConfidence: number }> =
+    {};
+
+  aspectLists.flat().forEach(({ aspect, sentiment, confidence }) => {
+    const key = aspect.trim().toLowerCase();
+    const rollup = rollups[key] ?? {
+      aspect: aspect.trim(),
+      mentions: 0,
+      distribution: { positive: 0, negative: 0, neutral: 0 },
+      meanConfidence: 0,
+      totalConfidence: 0,
+    };
+    rollup.mentions += 1;
+    rollup.distribution[sentiment] += 1;
+    rollup.totalConfidence += confidence;
+    rollups[key] = rollup;
+  });
+
+  return Object.values(rollups)
+    .map(({ totalConfidence, ...rollup }) => ({
+      ...rollup,
+      meanConfidence: totalConfidence / rollup.mentions,
+    }))
+    .sort((a, b) => b.mentions - a.mentions);
+};
+
+export const describeAspectSettings = ({
+  mode,
+  dictionary,
+}: AspectSettings): string => {
+  if (mode === "off") return "Aspect breakdown off";
+  if (mode === "llm") return "Aspects from the LLM provider";
+  return `Aspects from dictionary (${dictionary.length})`;
+};
@@ -0,0 +1,138 @@
+import {
+  AnalysisEngine,
+  AnalysisOutcome,
+  BatchRow,
+  BatchSummary,
+  ClassBalance,
+  HistoryEntry,
+} from "@/types/types";
+import { rollupAspects } from "@/utils/aspects";
+import { computeAgreement } from "@/utils/evaluation";
+import { isCancellation } from "@/utils/request";
+import { handleAnalysisError } from "@/utils/utils";
+
+// Matches "- ", "* ", "• ", "1. " and "1) " list markers.
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Input utilities
+export const parseBatchInput = (input: string): string[] =>
+  input
+    .split(/\r?\n/)
+    .map((line) => line.replace(LIST_MARKER, "").trim())
+    .filter(Boolean);
+
+export const createBatchRows = (texts: string[]): BatchRow[] =>
+  texts.map((text, index) => ({ index, text, status: "pending" }));
+
+// Execution utilities
+// Items run one at a time so progress is meaningful and the API is not
+// flooded; a failure is recorded on its row and the batch carries on.
+export const runBatch = async (
+  rows: BatchRow[],
+  analyzeItem: (
+    text: string,
+    onWarning: (message: string) => void
+  ) => Promise<Pick<BatchRow, "outcome" | "compareOutcome">>,
+  options: {
+    signal?: AbortSignal;
+    onRowUpdate?: (row: BatchRow) => void;
+  } = {}
+): Promise<BatchRow[]> => {
+  const results: BatchRow[] = [];
+
+  for (const row of rows) {
+    if (options.signal?.aborted) {
+      const cancelled: BatchRow = { ...row, status: "cancelled" };
+      results.push(cancelled);
+      options.onRowUpdate?.(cancelled);
+      continue;
+    }
+
+    let warning: string | undefined;
+    let updated: BatchRow;
+
+    try {
+      const outcomes = await analyzeItem(row.text, (message) => {
+        warning = message;
+      });
+      updated = { ...row, ...outcomes, status: "done", warning };
+    } catch (error) {
+      updated = isCancellation(error)
+        ? { ...row, status: "cancelled" }
+        : {
+            ...row,
+            status: "error",
+            error: handleAnalysisError(error, "Analysis failed"),
+          };
+    }
+
+    results.push(updated);
+    options.onRowUpdate?.(updated);
+  }
+
+  return results;
+};
+
+// Completed rows become history drafts the same way single analyses do; in
+// compare mode the outcome is the API verdict and the compare outcome the
+// model's.
+export const getBatchHistoryDrafts = (
+  rows: BatchRow[],
+  engine: AnalysisEngine
+): Omit<HistoryEntry, "id" | "timestamp">[] =>
+  rows.flatMap((row) => {
+    if (row.status !== "done" || !row.outcome) return [];
+    if (!row.compareOutcome) {
+      return [{ text: row.text, engine, ...row.outcome }];
+    }
+    return [
+      { text: row.text, engine: "api" as const, ...row.outcome },
+      { text: row.text, engine: "model" as const, ...row.compareOutcome },
+    ];
+  });
+
+// Summary utilities
+export const summarizeBatch = (rows: BatchRow[]): BatchSummary => {
+  const completedRows = rows.filter(
+    (row): row is BatchRow & { outcome: AnalysisOutcome } =>
+      row.status === "done" && row.outcome !== undefined
+  );
+
+  const distribution = completedRows.reduce<ClassBalance>(
+    (counts, row) => ({
+      ...counts,
+      [row.outcome.result.sentiment]: counts[row.outcome.result.sentiment] + 1,
+    }),
+    { positive: 0, negative: 0, neutral: 0 }
+  );
+
+  const totalConfidence = completedRows.reduce(
+    (sum, row) => sum + row.outcome.result.confidence,
+    0
+  );
+
+  const comparedRows = completedRows.filter(
+    (row): row is typeof row & { compareOutcome: AnalysisOutcome } =>
+      row.compareOutcome !== undefined
+  );
+
+  return {
+    distribution,
+    meanConfidence:
+      completedRows.length === 0 ? 0 : totalConfidence / completedRows.length,
+    completed: completedRows.length,
+    failed: rows.filter((row) => row.status === "error").length,
+    agreement:
+      comparedRows.length === 0
+        ? null
+        : computeAgreement(
+            comparedRows.map((row) => [
+              row.outcome.result.sentiment,
+              row.compareOutcome.result.sentiment,
+            ])
+          ),
+    aspects: rollupAspects(
+      completedRows.map((row) => row.outcome.result.aspects ?? [])
+    ),
+  };
+};
@@ -0,0 +1,276 @@
+import {
+  CalibrationMethod,
+  CalibrationReport,
+  CalibrationSample,
+  Calibrator,
+  ReliabilityBin,
+  SENTIMENT_TYPES,
+} from "@/types/types";
+
+export const RELIABILITY_BIN_COUNT = 10;
+// Below this many held-out predictions a fitted curve is mostly noise.
+export const MIN_CALIBRATION_SAMPLES = 30;
+// The top class of three is never less likely than a uniform guess.
+const MIN_TOP_CONFIDENCE = 1 / SENTIMENT_TYPES.length;
+
+export const CALIBRATION_METHOD_LABELS: Record<CalibrationMethod, string> = {
+  none: "None",
+  platt: "Platt",
+  isotonic: "Isotonic",
+};
+
+const EPSILON = 1e-6;
+
+const clampProbability = (value: number): number =>
+  Math.min(1 - EPSILON, Math.max(EPSILON, value));
+
+const logit = (probability: number): number => {
+  const clamped = clampProbability(probability);
+  return Math.log(clamped / (1 - clamped));
+};
+
+const sigmoid = (value: number): number => 1 / (1 + Math.exp(-value));
+
+// Fitting utilities
+// Platt scaling: a logistic fit on the logit of the raw confidence, with
+// Platt's smoothed targets so a perfect split does not send it to infinity.
+// The slope is kept non-negative so a higher raw confidence never maps to a
+// lower calibrated one.
+const fitPlatt = (samples: CalibrationSample[]): Calibrator => {
+  const positives = samples.filter((sample) => sample.correct).length;
+  const negatives = samples.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  const points = samples.map((sample) => ({
+    x: logit(sample.confidence),
+    target: sample.correct ? high : low,
+  }));
+
+  const logLoss = (atSlope: number, atIntercept: number): number =>
+    points.reduce((sum, { x, target }) => {
+      const predicted = clampProbability(sigmoid(atSlope * x + atIntercept));
+      return (
+        sum -
+        target * Math.log(predicted) -
+        (1 - target) * Math.log(1 - predicted)
+      );
+    }, 0);
+
+  let slope = 1;
+  let intercept = 0;
+  // Newton's method on the log loss; a small ridge keeps the Hessian
+  // invertible when every confidence is the same, and steps are halved until
+  // the loss drops so well-separated samples do not overshoot.
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gradSlope = 0;
+    let gradIntercept = 0;
+    let hSlope = 1e-6;
+    let hIntercept = 1e-6;
+    let hCross = 0;
+
+    points.forEach(({ x, target }) => {
+      const predicted = sigmoid(slope * x + intercept);
+      const error = predicted - target;
+      const weight = predicted * (1 - predicted);
+      gradSlope += error * x;
+      gradIntercept += error;
+      hSlope += weight * x * x;
+      hIntercept += weight;
+      hCross += weight * x;
+    });
+
+    const determinant = hSlope * hIntercept - hCross * hCross;
+    if (determinant <= 0) break;
+    const stepSlope =
+      (hIntercept * gradSlope - hCross * gradIntercept) / determinant;
+    const stepIntercept =
+      (hSlope * gradIntercept - hCross * gradSlope) / determinant;
+    const loss = logLoss(slope, intercept);
+    let scale = 1;
+    while (
+      scale > 1e-6 &&
+      logLoss(slope - scale * stepSlope, intercept - scale * stepIntercept) >
+        loss
+    ) {
+      scale /= 2;
+    }
+    slope -= scale * stepSlope;
+    intercept -= scale * stepIntercept;
+    if (scale * (Math.abs(stepSlope) + Math.abs(stepIntercept)) < 1e-9) break;
+  }
+
+  // The log loss is convex, so when the free optimum has a negative slope the
+  // constrained one is flat, at the mean target.
+  if (slope < 0) {
+    const meanTarget =
+      points.reduce((sum, { target }) => sum + target, 0) / points.length;
+    return { method: "platt", slope: 0, intercept: logit(meanTarget) };
+  }
+  return { method: "platt", slope, intercept };
+};
+
+// Isotonic regression by pool-adjacent-violators: the closest non-decreasing
+// step curve to the observed hit rate, ordered by raw confidence.
+const fitIsotonic = (samples: CalibrationSample[]): Calibrator => {
+  const blocks: { confidence: number; accuracy: number; count: number }[] = [];
+
+  [...samples]
+    .sort((a, b) => a.confidence - b.confidence)
+    .forEach((sample) => {
+      blocks.push({
+        confidence: sample.confidence,
+        accuracy: sample.correct ? 1 : 0,
+        count: 1,
+      });
+      while (
+        blocks.length > 1 &&
+        blocks[blocks.length - 2].accuracy >= blocks[blocks.length - 1].accuracy
+      ) {
+        const [last] = blocks.splice(-1, 1);
+        const previous = blocks[blocks.length - 1];
+        const count = previous.count + last.count;
+        previous.confidence =
+          (previous.confidence * previous.count +
+            last.confidence * last.count) /
+          count;
+        previous.accuracy =
+          (previous.accuracy * previous.count + last.accuracy * last.count) /
+          count;
+        previous.count = count;
+      }
+    });
+
+  return {
+    method: "isotonic",
+    points: blocks.map(({ confidence, accuracy }) => ({
+      confidence,
+      accuracy,
+    })),
+  };
+};
+
+// A curve needs enough predictions, and both hits and misses: with only one
+// outcome every fit collapses to a constant.
+export const canFitCalibrator = (samples: CalibrationSample[]): boolean =>
+  samples.length >= MIN_CALIBRATION_SAMPLES &&
+  samples.some((sample) => sample.correct) &&
+  samples.some((sample) => !sample.correct);
+
+export const fitCalibrator = (
+  samples: CalibrationSample[],
+  method: CalibrationMethod
+): Calibrator => {
+  if (method === "none") return { method: "none" };
+  if (!canFitCalibrator(samples)) return { method: "none", skipped: method };
+  return method === "platt" ? fitPlatt(samples) : fitIsotonic(samples);
+};
+
+const mapConfidence = (
+  calibrator: Exclude<Calibrator, { method: "none" }>,
+  confidence: number
+): number => {
+  if (calibrator.method === "platt") {
+    return sigmoid(calibrator.slope * logit(confidence) + calibrator.intercept);
+  }
+
+  // Flat beyond the outermost points, linear between neighbours.
+  const { points } = calibrator;
+  if (confidence <= points[0].confidence) return points[0].accuracy;
+  const upperIndex = points.findIndex(
+    (point) => point.confidence >= confidence
+  );
+  if (upperIndex === -1) return points[points.length - 1].accuracy;
+
+  const lower = points[upperIndex - 1];
+  const upper = points[upperIndex];
+  const share =
+    (confidence - lower.confidence) / (upper.confidence - lower.confidence);
+  return lower.accuracy + share * (upper.accuracy - lower.accuracy);
+};
+
+export const applyCalibration = (
+  calibrator: Calibrator,
+  confidence: number
+): number =>
+  calibrator.method === "none"
+    ? confidence
+    : Math.min(
+        1,
+        Math.max(MIN_TOP_CONFIDENCE, mapConfidence(calibrator, confidence))
+      );
+
+// Reliability utilities
+// Equal-width bins over [0, 1]; empty bins are kept so the diagram has a
+// column for every range.
+export const computeReliabilityBins = (
+  samples: CalibrationSample[],
+  binCount = RELIABILITY_BIN_COUNT
+): ReliabilityBin[] =>
+  Array.from({ length: binCount }, (_, index) => {
+    const lower = index / binCount;
+    const upper = (index + 1) / binCount;
+    // The last bin is closed so a confidence of exactly 1 is counted.
+    const members = samples.filter(
+      ({ confidence }) =>
+        confidence >= lower &&
+        (confidence < upper || (index === binCount - 1 && confidence <= upper))
+    );
+    const count = members.length;
+    return {
+      lower,
+      upper,
+      count,
+      meanConfidence:
+        count === 0
+          ? 0
+          : members.reduce((sum, { confidence }) => sum + confidence, 0) /
+            count,
+      accuracy:
+        count === 0
+          ? 0
+          : members.filter(({ correct }) => correct).length / count,
+    };
+  });
+
+export const computeEce = (bins: ReliabilityBin[]): number => {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return 0;
+  return bins.reduce(
+    (sum, bin) =>
+      sum + (bin.count / total) * Math.abs(bin.accuracy - bin.meanConfidence),
+    0
+  );
+};
+
+// Two-fold cross-fitting: each half is calibrated by a curve fitted on the
+// other, so the calibrated error is not measured on the calibrator's own
+// training points.
+export const evaluateCalibration = (
+  samples: CalibrationSample[],
+  method: CalibrationMethod
+): CalibrationReport => {
+  const bins = computeReliabilityBins(samples);
+  const folds = [0, 1].map((fold) =>
+    samples.filter((_, index) => index % 2 === fold)
+  );
+  const calibrated =
+    method === "none"
+      ? samples
+      : folds.flatMap((fold, index) => {
+          const calibrator = fitCalibrator(folds[1 - index], method);
+          return fold.map((sample) => ({
+            ...sample,
+            confidence: applyCalibration(calibrator, sample.confidence),
+          }));
+        });
+  const calibratedBins = computeReliabilityBins(calibrated);
+
+  return {
+    method,
+    samples: samples.length,
+    bins,
+    ece: computeEce(bins),
+    calibratedBins,
+    calibratedEce: computeEce(calibratedBins),
+  };
+};
@@ -0,0 +1,40 @@
+import {
+  AnalysisOptions,
+  AnalysisOutcome,
+  ComparisonResult,
+} from "@/types/types";
+import { runAnalysis } from "@/utils/analysis";
+
+const timeAnalysis = async (
+  analysis: () => Promise<AnalysisOutcome>
+): Promise<{ outcome: AnalysisOutcome; latencyMs: number }> => {
+  const startTime = performance.now();
+  const outcome = await analysis();
+  return { outcome, latencyMs: performance.now() - startTime };
+};
+
+// Comparison utilities
+// Both engines start together; deltas are API minus DIY model.
+export const runComparison = async (
+  text: string,
+  options: AnalysisOptions
+): Promise<ComparisonResult> => {
+  const [api, model] = await Promise.all([
+    timeAnalysis(() => runAnalysis(text, "api", options)),
+    timeAnalysis(() => runAnalysis(text, "model", options)),
+  ]);
+
+  return {
+    api: api.outcome,
+    model: model.outcome,
+    apiLatencyMs: api.latencyMs,
+    modelLatencyMs: model.latencyMs,
+    agree: api.outcome.result.sentiment === model.outcome.result.sentiment,
+    confidenceDelta:
+      api.outcome.result.confidence - model.outcome.result.confidence,
+    latencyDeltaMs: api.latencyMs - model.latencyMs,
+  };
+};
+
+export const formatLatency = (ms: number): string =>
+  Math.abs(ms) >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
@@ -0,0 +1,262 @@
+import {
+  AnalysisError,
+  ColumnMapping,
+  DatasetFormat,
+  ImportPreview,
+  ImportRowError,
+  ParsedTable,
+  SentimentType,
+  TrainingDataItem,
+} from "@/types/types";
+
+// "0" is read as neutral so that -1/0/1 polarity columns import correctly.
+const LABEL_ALIASES: Record<string, SentimentType> = {
+  positive: "positive",
+  pos: "positive",
+  p: "positive",
+  "1": "positive",
+  "+1": "positive",
+  "+": "positive",
+  good: "positive",
+  negative: "negative",
+  neg: "negative",
+  n: "negative",
+  "-1": "negative",
+  "-": "negative",
+  bad: "negative",
+  neutral: "neutral",
+  neu: "neutral",
+  "0": "neutral",
+  none: "neutral",
+  mixed: "neutral",
+};
+
+export const normalizeSentimentLabel = (raw: string): SentimentType | null =>
+  LABEL_ALIASES[raw.trim().toLowerCase()] ?? null;
+
+export const normalizeTextKey = (text: string): string =>
+  text.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Parsing utilities
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes.
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+export const parseJsonl = (input: string): ParsedTable => {
+  const records = input
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      try {
+        const value = JSON.parse(line);
+        return value && typeof value === "object" && !Array.isArray(value)
+          ? (value as Record<string, unknown>)
+          : {};
+      } catch {
+        throw new AnalysisError(
+          `Line ${index + 1} is not valid JSON`,
+          "INVALID_FILE"
+        );
+      }
+    });
+
+  const columns = Array.from(
+    new Set(records.flatMap((record) => Object.keys(record)))
+  );
+
+  return {
+    columns,
+    rows: records.map((record) =>
+      columns.map((column) =>
+        record[column] === undefined || record[column] === null
+          ? ""
+          : String(record[column])
+      )
+    ),
+  };
+};
+
+export const detectFormat = (input: string, fileName = ""): DatasetFormat => {
+  if (/\.jsonl?$/i.test(fileName)) return "jsonl";
+  if (/\.csv$/i.test(fileName)) return "csv";
+  return input.trimStart().startsWith("{") ? "jsonl" : "csv";
+};
+
+export const parseDataset = (
+  input: string,
+  format: DatasetFormat,
+  hasHeader = true
+): ParsedTable => {
+  if (format === "jsonl") return parseJsonl(input);
+
+  const rows = parseCsv(input);
+  if (rows.length === 0) return { columns: [], rows: [] };
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  if (hasHeader) {
+    const [header, ...body] = rows;
+    return {
+      columns: Array.from(
+        { length: width },
+        (_, index) => header[index]?.trim() || `Column ${index + 1}`
+      ),
+      rows: body,
+    };
+  }
+
+  return {
+    columns: Array.from({ length: width }, (_, index) => `Column ${index + 1}`),
+    rows,
+  };
+};
+
+// Mapping utilities
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+  const find = (candidates: string[]): number =>
+    columns.findIndex((column) =>
+      candidates.includes(column.trim().toLowerCase())
+    );
+
+  const text = find(["text", "review", "content", "comment", "sentence"]);
+  const sentiment = find(["sentiment", "label", "class", "polarity"]);
+  const confidence = find(["confidence", "score", "weight"]);
+
+  return {
+    text: text === -1 ? 0 : text,
+    sentiment: sentiment === -1 ? Math.min(1, columns.length - 1) : sentiment,
+    confidence: confidence === -1 ? null : confidence,
+  };
+};
+
+const parseConfidence = (raw: string): number | null => {
+  const value = parseFloat(raw.replace("%", ""));
+  if (Number.isNaN(value) || value < 0) return null;
+  if (raw.includes("%") || value > 1) return value <= 100 ? value / 100 : null;
+  return value;
+};
+
+// Row numbers in the report are 1-based data rows (header excluded).
+export const buildImportPreview = (
+  table: ParsedTable,
+  mapping: ColumnMapping,
+  existing: TrainingDataItem[]
+): ImportPreview => {
+  const seen = new Set(existing.map((item) => normalizeTextKey(item.text)));
+  const items: TrainingDataItem[] = [];
+  const errors: ImportRowError[] = [];
+  let duplicates = 0;
+
+  table.rows.forEach((cells, index) => {
+    const row = index + 1;
+    const text = (cells[mapping.text] ?? "").trim();
+    const rawLabel = cells[mapping.sentiment] ?? "";
+    const rawConfidence =
+      mapping.confidence === null ? "" : cells[mapping.confidence] ?? "";
+
+    if (!text) {
+      errors.push({ row, message: "Empty text" });
+      return;
+    }
+
+    const sentiment = normalizeSentimentLabel(rawLabel);
+    if (!sentiment) {
+      errors.push({
+        row,
+        message: `Unrecognised label "${rawLabel.trim()}"`,
+      });
+      return;
+    }
+
+    const confidence = rawConfidence.trim()
+      ? parseConfidence(rawConfidence)
+      : 1;
+    if (confidence === null) {
+      errors.push({
+        row,
+        message: `Invalid confidence "${rawConfidence.trim()}"`,
+      });
+      return;
+    }
+
+    const key = normalizeTextKey(text);
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+
+    items.push({ text, sentiment, confidence });
+  });
+
+  return { items, errors, duplicates };
+};
+
+// Export utilities
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (items: TrainingDataItem[]): string =>
+  [
+    "text,sentiment,confidence",
+    ...items.map((item) =>
+      [item.text, item.sentiment, String(item.confidence)]
+        .map(escapeCsvField)
+        .join(",")
+    ),
+  ].join("\n");
+
+export const toJsonl = (items: TrainingDataItem[]): string =>
+  items
+    .map((item) =>
+      JSON.stringify({
+        text: item.text,
+        sentiment: item.sentiment,
+        confidence: item.confidence,
+      })
+    )
+    .join("\n");
+
+export const serializeDataset = (
+  items: TrainingDataItem[],
+  format: DatasetFormat
+): string => (format === "csv" ? toCsv(items) : toJsonl(items));
@@ -0,0 +1,169 @@
+import { EmojiSignal } from "@/types/types";
+
+// Valences on the same -4..+4 scale as the word lexicon, after the emoji
+// sentiment ranking of Kralj Novak et al. (2015).
+const EMOJI_VALENCES: Record<string, number> = {
+  // Faces, positive
+  "😀": 2.2,
+  "😃": 2.4,
+  "😄": 2.6,
+  "😁": 2.4,
+  "😆": 2.2,
+  "😂": 1.8,
+  "🤣": 2.0,
+  "😊": 2.7,
+  "☺️": 2.5,
+  "🙂": 1.5,
+  "😉": 1.8,
+  "😍": 3.1,
+  "🥰": 3.2,
+  "😘": 2.8,
+  "😻": 2.9,
+  "🤩": 3.0,
+  "😎": 2.2,
+  "🥳": 2.9,
+  "😋": 2.3,
+  "🤗": 2.4,
+  "😇": 2.3,
+  // Faces, negative
+  "😞": -2.2,
+  "😔": -2.0,
+  "😟": -1.8,
+  "😕": -1.3,
+  "🙁": -1.6,
+  "☹️": -2.0,
+  "😢": -2.3,
+  "😭": -2.1,
+  "😩": -2.2,
+  "😫": -2.2,
+  "😤": -2.0,
+  "😠": -2.7,
+  "😡": -3.0,
+  "🤬": -3.2,
+  "😒": -1.9,
+  "🙄": -1.6,
+  "😑": -0.8,
+  "😐": -0.4,
+  "😬": -0.9,
+  "😱": -1.8,
+  "😨": -2.0,
+  "😰": -2.0,
+  "🤢": -2.6,
+  "🤮": -2.9,
+  "💀": -0.8,
+  // Gestures and symbols
+  "👍": 2.1,
+  "👎": -2.4,
+  "👏": 2.3,
+  "🙌": 2.4,
+  "🙏": 1.6,
+  "💪": 2.0,
+  "👌": 1.9,
+  "🤦": -1.8,
+  "🖕": -3.2,
+  "❤️": 3.0,
+  "💕": 2.9,
+  "💖": 2.9,
+  "💯": 2.4,
+  "💔": -2.6,
+  "🔥": 1.8,
+  "✨": 1.6,
+  "🎉": 2.6,
+  "⭐": 1.9,
+  "🌟": 2.1,
+  "✅": 1.5,
+  "❌": -1.9,
+  "💩": -2.4,
+  "🤡": -1.5,
+};
+
+// Noses, tears and repeated mouths are folded away, so ":-)))" is ":)".
+const EMOTICON_VALENCES: Record<string, number> = {
+  ":)": 2.0,
+  "=)": 2.0,
+  ":]": 1.8,
+  ":D": 2.6,
+  "=D": 2.6,
+  ";)": 1.6,
+  ":P": 1.3,
+  ":p": 1.3,
+  ";P": 1.2,
+  ":*": 2.2,
+  "<3": 3.0,
+  ":(": -2.0,
+  "=(": -2.0,
+  ":[": -1.8,
+  ":/": -1.1,
+  ":\\": -1.1,
+  ":|": -0.5,
+  ":O": -0.4,
+  ":o": -0.4,
+  ">:(": -2.7,
+  "</3": -2.6,
+};
+
+// Emoji utilities
+const SKIN_TONE_PATTERN = /[\u{1F3FB}-\u{1F3FF}]/gu;
+const VARIATION_SELECTOR_PATTERN = /\u{FE0F}/gu;
+
+// Skin tones and presentation selectors do not change the sentiment, so
+// "👍🏽" and "👍" share one token.
+export const normalizeEmoji = (emoji: string): string =>
+  emoji.replace(SKIN_TONE_PATTERN, "").replace(VARIATION_SELECTOR_PATTERN, "");
+
+export const normalizeEmoticon = (emoticon: string): string =>
+  emoticon.replace(/['-]/g, "").replace(/(.)\1+/g, "$1");
+
+const EMOJI_LEXICON: Record<string, number> = Object.fromEntries(
+  Object.entries(EMOJI_VALENCES).map(([emoji, valence]) => [
+    normalizeEmoji(emoji),
+    valence,
+  ])
+);
+
+// ZWJ sequences such as "🤦‍♀️" fall back to their base emoji.
+export const getEmojiValence = (token: string): number | undefined => {
+  if (EMOTICON_VALENCES[token] !== undefined) return EMOTICON_VALENCES[token];
+  const emoji = normalizeEmoji(token);
+  return EMOJI_LEXICON[emoji] ?? EMOJI_LEXICON[emoji.split("\u200D")[0]];
+};
+
+// Each repeat adds half as much as the one before: "😡😡😡" is stronger than
+// "😡" without outweighing a whole sentence.
+export const EMOJI_REPEAT_DECAY = 0.5;
+
+// Groups the sentiment-bearing emoji among tokens, strongest first.
+export const summarizeEmojiSignals = (tokens: string[]): EmojiSignal[] => {
+  const signals: Record<string, EmojiSignal> = {};
+  tokens.forEach((token) => {
+    const valence = getEmojiValence(token);
+    if (valence === undefined) return;
+
+    const signal = signals[token] ?? { emoji: token, count: 0, valence };
+    signal.count += 1;
+    signals[token] = signal;
+  });
+
+  return Object.values(signals).sort(
+    (a, b) => Math.abs(b.valence) * b.count - Math.abs(a.valence) * a.count
+  );
+};
+
+// Combines the signals of several texts, e.g. the sentences of one input.
+export const mergeEmojiSignals = (lists: EmojiSignal[][]): EmojiSignal[] => {
+  const signals: Record<string, EmojiSignal> = {};
+  lists.flat().forEach((signal) => {
+    const merged = signals[signal.emoji] ?? { ...signal, count: 0 };
+    merged.count += signal.count;
+    signals[signal.emoji] = merged;
+  });
+
+  return Object.values(signals).sort(
+    (a, b) => Math.abs(b.valence) * b.count - Math.abs(a.valence) * a.count
+  );
+};
+
+export const formatEmojiSignals = (signals: EmojiSignal[]): string =>
+  signals
+    .map(({ emoji, count }) => (count > 1 ? `${emoji} ×${count}` : emoji))
+    .join(" ");
@@ -0,0 +1,173 @@
+import {
+  EMOJI_EMOTIONS,
+  EMOTION_LABELS,
+  EMOTION_WORDS,
+} from "@/constants/Emotions";
+import {
+  EmotionAnalysis,
+  EmotionLabel,
+  EmotionMode,
+  EmotionProbabilities,
+  EmotionScheme,
+  EmotionSource,
+  LanguageCode,
+} from "@/types/types";
+import { normalizeEmoji } from "@/utils/emoji";
+import { DEFAULT_LANGUAGE, getLanguagePack } from "@/utils/languages";
+import {
+  analyzeTokens,
+  DEFAULT_PREPROCESSING_OPTIONS,
+  lemmatize,
+} from "@/utils/preprocessing";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+
+export const DEFAULT_EMOTION_MODE: EmotionMode = "off";
+
+const EMOTION_MODES: EmotionMode[] = ["off", "ekman", "plutchik"];
+
+// Added to every label so one emotion word does not read as certainty.
+const EMOTION_SMOOTHING = 0.2;
+const NEGATION_WINDOW = 3;
+
+// Persistence utilities
+export const loadEmotionMode = async (): Promise<EmotionMode> => {
+  const stored = await loadJSON<EmotionMode | null>(
+    STORAGE_KEYS.emotionMode,
+    null
+  );
+  return stored && EMOTION_MODES.includes(stored)
+    ? stored
+    : DEFAULT_EMOTION_MODE;
+};
+
+export const saveEmotionMode = (mode: EmotionMode): Promise<void> =>
+  saveJSON(STORAGE_KEYS.emotionMode, mode);
+
+// Off, then Ekman, then Plutchik, then off again.
+export const getNextEmotionMode = (mode: EmotionMode): EmotionMode =>
+  EMOTION_MODES[(EMOTION_MODES.indexOf(mode) + 1) % EMOTION_MODES.length];
+
+export const describeEmotionMode = (mode: EmotionMode): string => {
+  if (mode === "off") return "Emotions off";
+  return mode === "ekman"
+    ? "Ekman emotions (6 labels)"
+    : "Plutchik emotions (8 labels)";
+};
+
+// Lexicon utilities
+// Inverted once: word → the emotions it evokes.
+const EMOTION_LEXICONS = Object.fromEntries(
+  Object.entries(EMOTION_WORDS).map(([language, words]) => [
+    language,
+    Object.entries(words).reduce<Record<string, EmotionLabel[]>>(
+      (lexicon, [emotion, list]) => {
+        list.forEach((word) => {
+          lexicon[word] = [...(lexicon[word] ?? []), emotion as EmotionLabel];
+        });
+        return lexicon;
+      },
+      {}
+    ),
+  ])
+) as Record<LanguageCode, Record<string, EmotionLabel[]>>;
+
+const EMOJI_LEXICON: Record<string, EmotionLabel[]> = Object.fromEntries(
+  Object.entries(EMOJI_EMOTIONS).map(([emoji, emotions]) => [
+    normalizeEmoji(emoji),
+    emotions,
+  ])
+);
+
+// Words missing from the detected language's list fall back to English, and
+// English inflections to their lemma.
+const getEmotions = (
+  language: LanguageCode,
+  word: string
+): EmotionLabel[] | undefined => {
+  const english = EMOTION_LEXICONS[DEFAULT_LANGUAGE];
+  return (
+    EMOJI_LEXICON[normalizeEmoji(word)] ??
+    EMOTION_LEXICONS[language][word] ??
+    english[word] ??
+    english[lemmatize(word)]
+  );
+};
+
+// Normalisation utilities
+// Scores are spread over the scheme's labels and rescaled to sum to 1; with
+// no evidence at all every label gets an equal share and none dominates.
+export const normalizeEmotionScores = (
+  scores: EmotionProbabilities,
+  scheme: EmotionScheme,
+  source: EmotionSource,
+  smoothing = 0
+): EmotionAnalysis => {
+  const labels = EMOTION_LABELS[scheme];
+  const evidence = labels.map((emotion) => Math.max(0, scores[emotion] ?? 0));
+  const total = evidence.reduce((sum, value) => sum + value, 0);
+  const denominator = total + smoothing * labels.length;
+
+  const probabilities = Object.fromEntries(
+    labels.map((emotion, index) => [
+      emotion,
+      denominator > 0
+        ? (evidence[index] + smoothing) / denominator
+        : 1 / labels.length,
+    ])
+  ) as EmotionProbabilities;
+  const strongest = labels.reduce((best, emotion, index) =>
+    evidence[index] > evidence[labels.indexOf(best)] ? emotion : best
+  );
+
+  return {
+    scheme,
+    probabilities,
+    dominant: total > 0 ? strongest : null,
+    source,
+  };
+};
+
+// Emotion analysis utilities
+// Counts the emotion words of the text; a word evoking several emotions of
+// the scheme splits its weight between them, and negated words ("not happy")
+// are left out rather than guessed at.
+export const analyzeEmotionsWithLexicon = (
+  text: string,
+  scheme: EmotionScheme,
+  language: LanguageCode
+): EmotionAnalysis => {
+  const pack = getLanguagePack(language);
+  const words = analyzeTokens(text, {
+    ...DEFAULT_PREPROCESSING_OPTIONS,
+    removeStopwords: false,
+    stemming: "none",
+    // The contraction rules are English.
+    expandContractions: language === DEFAULT_LANGUAGE,
+  })
+    .filter((token) => !token.removed)
+    .map((token) => token.token);
+
+  const isNegated = (index: number): boolean => {
+    const scope = words.slice(Math.max(0, index - NEGATION_WINDOW), index);
+    if (pack.negationFollows) {
+      scope.push(...words.slice(index + 1, index + NEGATION_WINDOW));
+    }
+    return scope.some(
+      (word) => word.endsWith("n't") || pack.negations.includes(word)
+    );
+  };
+
+  const scores: EmotionProbabilities = {};
+  words.forEach((word, index) => {
+    const emotions = (getEmotions(language, word) ?? []).filter((emotion) =>
+      EMOTION_LABELS[scheme].includes(emotion)
+    );
+    if (emotions.length === 0 || isNegated(index)) return;
+
+    emotions.forEach((emotion) => {
+      scores[emotion] = (scores[emotion] ?? 0) + 1 / emotions.length;
+    });
+  });
+
+  return normalizeEmotionScores(scores, scheme, "lexicon", EMOTION_SMOOTHING);
+};
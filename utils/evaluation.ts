@@ -0,0 +1,435 @@
+import {
+  AgreementReport,
+  AnalysisError,
+  CalibrationFit,
+  CalibrationMethod,
+  CalibrationSample,
+  ClassifierPrediction,
+  ClassMetrics,
+  ConfusionMatrix,
+  EvaluationOptions,
+  EvaluationReport,
+  LanguageCode,
+  LocalModelOptions,
+  SENTIMENT_TYPES,
+  SentimentType,
+  StarEvaluationReport,
+  StarEvaluationRow,
+  StarRatedItem,
+  TrainingDataItem,
+} from "@/types/types";
+import { fitCalibrator } from "@/utils/calibration";
+import { analyzeSentimentWithKeywords } from "@/utils/keywordScorer";
+import { getTrainingDataForLanguage } from "@/utils/languages";
+import { trainLocalClassifier } from "@/utils/localModels";
+import {
+  MAX_STARS,
+  MIN_STARS,
+  polarityFromProbabilities,
+  polarityToStars,
+  roundStars,
+} from "@/utils/ratings";
+
+export const DEFAULT_TEST_RATIO = 0.25;
+export const DEFAULT_SPLIT_SEED = 42;
+export const CALIBRATION_FOLDS = 5;
+
+// Mulberry32: small seeded PRNG so a split is reproducible between runs.
+const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Split utilities
+// Stratified so every class keeps its share in both halves; a class with a
+// single example stays in the training set.
+export const splitTrainTest = (
+  data: TrainingDataItem[],
+  testRatio = DEFAULT_TEST_RATIO,
+  seed = DEFAULT_SPLIT_SEED
+): { train: TrainingDataItem[]; test: TrainingDataItem[] } => {
+  const random = createSeededRandom(seed);
+  const train: TrainingDataItem[] = [];
+  const test: TrainingDataItem[] = [];
+
+  SENTIMENT_TYPES.forEach((sentiment) => {
+    const items = shuffle(
+      data.filter((item) => item.sentiment === sentiment),
+      random
+    );
+    const testCount =
+      items.length < 2
+        ? 0
+        : Math.min(
+            items.length - 1,
+            Math.max(1, Math.round(items.length * testRatio))
+          );
+
+    test.push(...items.slice(0, testCount));
+    train.push(...items.slice(testCount));
+  });
+
+  return { train, test };
+};
+
+// Metric utilities
+export const createConfusionMatrix = (): ConfusionMatrix => ({
+  positive: { positive: 0, negative: 0, neutral: 0 },
+  negative: { positive: 0, negative: 0, neutral: 0 },
+  neutral: { positive: 0, negative: 0, neutral: 0 },
+});
+
+const safeDivide = (numerator: number, denominator: number): number =>
+  denominator === 0 ? 0 : numerator / denominator;
+
+export const computeMetrics = (
+  actual: SentimentType[],
+  predicted: SentimentType[]
+): Omit<EvaluationReport, "trainSamples" | "testSamples"> => {
+  const confusionMatrix = createConfusionMatrix();
+  actual.forEach((label, index) => {
+    confusionMatrix[label][predicted[index]] += 1;
+  });
+
+  const perClass = {} as Record<SentimentType, ClassMetrics>;
+  SENTIMENT_TYPES.forEach((sentiment) => {
+    const truePositives = confusionMatrix[sentiment][sentiment];
+    const predictedCount = SENTIMENT_TYPES.reduce(
+      (sum, label) => sum + confusionMatrix[label][sentiment],
+      0
+    );
+    const support = SENTIMENT_TYPES.reduce(
+      (sum, label) => sum + confusionMatrix[sentiment][label],
+      0
+    );
+
+    const precision = safeDivide(truePositives, predictedCount);
+    const recall = safeDivide(truePositives, support);
+
+    perClass[sentiment] = {
+      precision,
+      recall,
+      f1: safeDivide(2 * precision * recall, precision + recall),
+      support,
+    };
+  });
+
+  // Classes absent from the test set are left out of the macro average.
+  const presentClasses = SENTIMENT_TYPES.filter(
+    (sentiment) => perClass[sentiment].support > 0
+  );
+  const correct = SENTIMENT_TYPES.reduce(
+    (sum, sentiment) => sum + confusionMatrix[sentiment][sentiment],
+    0
+  );
+
+  return {
+    accuracy: safeDivide(correct, actual.length),
+    macroF1: safeDivide(
+      presentClasses.reduce(
+        (sum, sentiment) => sum + perClass[sentiment].f1,
+        0
+      ),
+      presentClasses.length
+    ),
+    perClass,
+    confusionMatrix,
+  };
+};
+
+// Parses "label | text" lines into a separate test set, skipping lines that
+// do not have a recognised label.
+export const parseLabelledLines = (input: string): TrainingDataItem[] =>
+  input
+    .split("\n")
+    .map((line) => {
+      const separator = line.indexOf("|");
+      if (separator === -1) return null;
+
+      const label = line.slice(0, separator).trim().toLowerCase();
+      const text = line.slice(separator + 1).trim();
+      if (!text || !SENTIMENT_TYPES.includes(label as SentimentType)) {
+        return null;
+      }
+
+      return { text, sentiment: label as SentimentType, confidence: 1 };
+    })
+    .filter((item): item is TrainingDataItem => item !== null);
+
+// Agreement utilities
+// Cohen's kappa corrects raw agreement for the agreement expected by chance
+// given each rater's label distribution.
+export const computeAgreement = (
+  pairs: [SentimentType, SentimentType][]
+): AgreementReport => {
+  if (pairs.length === 0) return { total: 0, agreementRate: 0, kappa: 0 };
+
+  const observed =
+    pairs.filter(([first, second]) => first === second).length / pairs.length;
+  const expected = SENTIMENT_TYPES.reduce((sum, sentiment) => {
+    const first =
+      pairs.filter(([label]) => label === sentiment).length / pairs.length;
+    const second =
+      pairs.filter(([, label]) => label === sentiment).length / pairs.length;
+    return sum + first * second;
+  }, 0);
+
+  return {
+    total: pairs.length,
+    agreementRate: observed,
+    kappa: expected === 1 ? 1 : (observed - expected) / (1 - expected),
+  };
+};
+
+// Evaluation utilities
+export const evaluateLocalModel = (
+  data: TrainingDataItem[],
+  modelOptions: LocalModelOptions,
+  options: EvaluationOptions = {}
+): EvaluationReport => {
+  const { train, test } = options.testSet
+    ? { train: data, test: options.testSet }
+    : splitTrainTest(data, options.testRatio, options.seed);
+
+  if (train.length === 0 || test.length === 0) {
+    throw new AnalysisError(
+      "Need at least two examples of a class to hold out a test set",
+      "INSUFFICIENT_DATA"
+    );
+  }
+
+  const classifier = trainLocalClassifier(train, modelOptions);
+  const predicted = test.map((item) => classifier.predict(item.text).sentiment);
+
+  return {
+    ...computeMetrics(
+      test.map((item) => item.sentiment),
+      predicted
+    ),
+    trainSamples: train.length,
+    testSamples: test.length,
+  };
+};
+
+// Calibration set utilities
+const toCalibrationSample = (
+  prediction: Pick<ClassifierPrediction, "sentiment" | "probabilities">,
+  actual: SentimentType
+): CalibrationSample => ({
+  confidence: prediction.probabilities[prediction.sentiment],
+  correct: prediction.sentiment === actual,
+});
+
+// Stratified k-fold: each example is predicted by a model trained on the
+// other folds, so the whole dataset is held out once rather than a quarter.
+export const crossValidatePredictions = (
+  data: TrainingDataItem[],
+  modelOptions: LocalModelOptions,
+  folds = CALIBRATION_FOLDS,
+  seed = DEFAULT_SPLIT_SEED
+): CalibrationSample[] => {
+  const random = createSeededRandom(seed);
+  let position = 0;
+  const assigned = SENTIMENT_TYPES.flatMap((sentiment) =>
+    shuffle(
+      data.filter((item) => item.sentiment === sentiment),
+      random
+    ).map((item) => ({ item, fold: position++ % folds }))
+  );
+
+  return Array.from({ length: folds }, (_, fold) => fold).flatMap((fold) => {
+    const test = assigned.filter((entry) => entry.fold === fold);
+    const train = assigned.filter((entry) => entry.fold !== fold);
+    if (test.length === 0 || train.length === 0) return [];
+
+    const classifier = trainLocalClassifier(
+      train.map((entry) => entry.item),
+      modelOptions
+    );
+    return test.map(({ item }) =>
+      toCalibrationSample(classifier.predict(item.text), item.sentiment)
+    );
+  });
+};
+
+// The lexicon learns nothing from the data, so every example is held out.
+export const scoreKeywordPredictions = (
+  data: TrainingDataItem[]
+): CalibrationSample[] =>
+  data.map((item) => {
+    const { sentiment, confidence } = analyzeSentimentWithKeywords(item.text);
+    return { confidence, correct: sentiment === item.sentiment };
+  });
+
+// Fits are kept per training set, language and options, so a batch does not
+// refit for every row. The hooks replace the training array on every edit,
+// so its identity marks a change.
+const calibrationCache = new WeakMap<
+  TrainingDataItem[],
+  Map<string, CalibrationFit>
+>();
+
+const getCachedFit = (
+  trainingData: TrainingDataItem[],
+  key: string,
+  fit: () => CalibrationFit
+): CalibrationFit => {
+  let fits = calibrationCache.get(trainingData);
+  if (!fits) {
+    fits = new Map();
+    calibrationCache.set(trainingData, fits);
+  }
+  const cached = fits.get(key);
+  if (cached) return cached;
+
+  const value = fit();
+  fits.set(key, value);
+  return value;
+};
+
+// Both fits use the same language-augmented set the predicting engine sees.
+export const getModelCalibration = (
+  trainingData: TrainingDataItem[],
+  language: LanguageCode,
+  modelOptions: LocalModelOptions
+): CalibrationFit =>
+  getCachedFit(
+    trainingData,
+    `model|${language}|${JSON.stringify(modelOptions)}`,
+    () => {
+      const samples = crossValidatePredictions(
+        getTrainingDataForLanguage(trainingData, language),
+        modelOptions
+      );
+      return {
+        samples,
+        calibrator: fitCalibrator(samples, modelOptions.calibration),
+      };
+    }
+  );
+
+export const getKeywordCalibration = (
+  trainingData: TrainingDataItem[],
+  language: LanguageCode,
+  method: CalibrationMethod
+): CalibrationFit =>
+  getCachedFit(trainingData, `keywords|${language}|${method}`, () => {
+    const samples = scoreKeywordPredictions(
+      getTrainingDataForLanguage(trainingData, language)
+    );
+    return { samples, calibrator: fitCalibrator(samples, method) };
+  });
+
+export const formatSampleAccuracy = (samples: CalibrationSample[]): string =>
+  samples.length === 0
+    ? "Not enough data"
+    : `${(
+        (samples.filter((sample) => sample.correct).length / samples.length) *
+        100
+      ).toFixed(1)}% (${samples.length} cross-validated)`;
+
+// Star rating utilities
+// Parses "stars | text" lines, e.g. "4 | Good value", skipping lines whose
+// rating is not a whole number of stars in range.
+export const parseStarRatedLines = (input: string): StarRatedItem[] =>
+  input
+    .split("\n")
+    .map((line) => {
+      const separator = line.indexOf("|");
+      if (separator === -1) return null;
+
+      const stars = Number(
+        line
+          .slice(0, separator)
+          .trim()
+          .replace(/\s*stars?$/i, "")
+      );
+      const text = line.slice(separator + 1).trim();
+      if (
+        !text ||
+        !Number.isInteger(stars) ||
+        stars < MIN_STARS ||
+        stars > MAX_STARS
+      ) {
+        return null;
+      }
+
+      return { text, stars };
+    })
+    .filter((item): item is StarRatedItem => item !== null);
+
+const scoreStarPredictions = (
+  engine: string,
+  actual: number[],
+  predicted: number[]
+): StarEvaluationRow => {
+  const errors = predicted.map((stars, index) =>
+    Math.abs(roundStars(stars) - actual[index])
+  );
+  return {
+    engine,
+    mae: errors.reduce((sum, error) => sum + error, 0) / errors.length,
+    exactRate: errors.filter((error) => error === 0).length / errors.length,
+    withinOneRate: errors.filter((error) => error <= 1).length / errors.length,
+  };
+};
+
+// Both offline engines rate each text through its polarity; the DIY model is
+// trained on the whole labelled dataset, since the star set is held out.
+export const evaluateStarRatings = (
+  items: StarRatedItem[],
+  trainingData: TrainingDataItem[],
+  modelOptions: LocalModelOptions,
+  neutralBand: number
+): StarEvaluationReport => {
+  if (items.length === 0) {
+    throw new AnalysisError(
+      "Need at least one star-rated example",
+      "INSUFFICIENT_DATA"
+    );
+  }
+
+  const classifier = trainLocalClassifier(trainingData, modelOptions);
+  const actual = items.map((item) => item.stars);
+
+  return {
+    rows: [
+      scoreStarPredictions(
+        classifier.name,
+        actual,
+        items.map(({ text }) =>
+          polarityToStars(
+            polarityFromProbabilities(classifier.predict(text).probabilities),
+            neutralBand
+          )
+        )
+      ),
+      scoreStarPredictions(
+        "Keyword lexicon",
+        actual,
+        items.map(({ text }) =>
+          polarityToStars(
+            analyzeSentimentWithKeywords(text).compound,
+            neutralBand
+          )
+        )
+      ),
+    ],
+    samples: items.length,
+  };
+};
@@ -0,0 +1,89 @@
+import {
+  PreprocessingOptions,
+  SENTIMENT_TYPES,
+  SentimentType,
+  TokenContribution,
+} from "@/types/types";
+import { analyzeTokens } from "@/utils/preprocessing";
+
+export const TOP_DRIVER_COUNT = 5;
+
+// Contribution utilities
+// Maps each feature back to the first word in the text that produced it, so
+// a stem such as "disappoint" is shown as "disappointed".
+export const buildSourceLookup = (
+  text: string,
+  preprocessing: PreprocessingOptions
+): Record<string, string> =>
+  analyzeTokens(text, preprocessing).reduce<Record<string, string>>(
+    (lookup, { token, source, removed }) => {
+      if (!removed && lookup[token] === undefined) lookup[token] = source;
+      return lookup;
+    },
+    {}
+  );
+
+// The margin of the verdict over its strongest rival: a token whose evidence
+// favours another class gets a negative score and that class as its own.
+export const scoreAgainstRivals = (
+  token: string,
+  source: string,
+  evidence: Record<SentimentType, number>,
+  verdict: SentimentType
+): TokenContribution => {
+  const rival = SENTIMENT_TYPES.filter(
+    (sentiment) => sentiment !== verdict
+  ).reduce((best, sentiment) =>
+    evidence[sentiment] > evidence[best] ? sentiment : best
+  );
+  const score = evidence[verdict] - evidence[rival];
+  return { token, source, score, sentiment: score >= 0 ? verdict : rival };
+};
+
+// Re-signs contributions scored against another verdict, e.g. a sentence's
+// own, against the document's.
+export const rebaseContributions = (
+  contributions: TokenContribution[],
+  verdict: SentimentType
+): TokenContribution[] =>
+  contributions.map((contribution) => ({
+    ...contribution,
+    score:
+      contribution.sentiment === verdict
+        ? Math.abs(contribution.score)
+        : -Math.abs(contribution.score),
+  }));
+
+// Merges repeats of a word and ranks by strength, for or against.
+export const getTopDrivers = (
+  contributions: TokenContribution[],
+  count = TOP_DRIVER_COUNT
+): TokenContribution[] => {
+  const merged: Record<string, TokenContribution> = {};
+  contributions.forEach((contribution) => {
+    const key = contribution.source.toLowerCase();
+    const existing = merged[key];
+    // The stronger occurrence decides which class the word points to.
+    merged[key] = existing
+      ? {
+          ...(Math.abs(contribution.score) > Math.abs(existing.score)
+            ? contribution
+            : existing),
+          score: existing.score + contribution.score,
+        }
+      : { ...contribution };
+  });
+
+  return Object.values(merged)
+    .filter((contribution) => contribution.score !== 0)
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .slice(0, count);
+};
+
+export const formatDrivers = (drivers: TokenContribution[]): string =>
+  drivers
+    .map(
+      ({ source, score }) =>
+        `${source} ${score > 0 ? "+" : ""}${score.toFixed(1)}`
+    )
+    .join(", ");
@@ -0,0 +1,57 @@
+import { AnalysisError } from "@/types/types";
+import { redactSecrets } from "@/utils/secureKeys";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { Platform, Share } from "react-native";
+
+// File utilities
+export const pickTextFile = async (): Promise<{
+  name: string;
+  content: string;
+} | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["text/*", "application/json", "application/jsonl", "*/*"],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const content =
+    Platform.OS === "web" && asset.file
+      ? await asset.file.text()
+      : await FileSystem.readAsStringAsync(asset.uri);
+
+  return { name: asset.name, content };
+};
+
+// Falls back to the plain share sheet where files cannot be written (web).
+// Anything that looks like an API key is masked before it leaves the app.
+export const shareTextFile = async (
+  fileName: string,
+  rawContent: string,
+  mimeType: string
+): Promise<void> => {
+  const content = redactSecrets(rawContent);
+
+  if (
+    Platform.OS === "web" ||
+    !FileSystem.cacheDirectory ||
+    !(await Sharing.isAvailableAsync())
+  ) {
+    await Share.share({ message: content, title: fileName });
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  try {
+    await FileSystem.writeAsStringAsync(uri, content);
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+  } catch (error) {
+    throw new AnalysisError(
+      error instanceof Error ? error.message : "Could not export file",
+      "EXPORT_FAILED"
+    );
+  }
+};
@@ -0,0 +1,131 @@
+import {
+  AnalysisEngine,
+  AnalysisOutcome,
+  HistoryDateRange,
+  HistoryEntry,
+  HistoryFilters,
+  SentimentType,
+} from "@/types/types";
+import { normalizeTextKey } from "@/utils/datasetIO";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+import { generateId } from "@/utils/utils";
+
+export const MAX_HISTORY_ENTRIES = 500;
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: "",
+  sentiment: "all",
+  engine: "all",
+  dateRange: "all",
+  minConfidence: 0,
+  maxConfidence: 1,
+};
+
+// Persistence utilities
+export const loadHistory = (): Promise<HistoryEntry[]> =>
+  loadJSON<HistoryEntry[]>(STORAGE_KEYS.history, []);
+
+export const saveHistory = (entries: HistoryEntry[]): Promise<void> =>
+  saveJSON(STORAGE_KEYS.history, entries.slice(0, MAX_HISTORY_ENTRIES));
+
+// Newest entries first; the oldest fall off past MAX_HISTORY_ENTRIES.
+export const addHistoryEntry = async (
+  text: string,
+  engine: AnalysisEngine,
+  outcome: AnalysisOutcome
+): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id: generateId(),
+    text,
+    timestamp: Date.now(),
+    engine,
+    ...outcome,
+  };
+
+  await saveHistory([entry, ...(await loadHistory())]);
+  return entry;
+};
+
+// Records a run of analyses in one write, the last one newest, so a batch
+// does not reload and rewrite the history once per row.
+export const addHistoryEntries = async (
+  drafts: Omit<HistoryEntry, "id" | "timestamp">[]
+): Promise<void> => {
+  if (drafts.length === 0) return;
+
+  const timestamp = Date.now();
+  const entries = drafts
+    .map((draft) => ({ ...draft, id: generateId(), timestamp }))
+    .reverse();
+  await saveHistory([...entries, ...(await loadHistory())]);
+};
+
+// Pairs the most recent API and DIY model verdicts recorded for the same
+// text, for agreement statistics across the saved history.
+export const pairHistoryByText = (
+  entries: HistoryEntry[]
+): [SentimentType, SentimentType][] => {
+  const latest = new Map<
+    string,
+    Partial<Record<AnalysisEngine, SentimentType>>
+  >();
+
+  entries.forEach((entry) => {
+    const key = normalizeTextKey(entry.text);
+    const verdicts = latest.get(key) ?? {};
+    // Entries are newest first, so keep the first verdict seen per engine.
+    if (!verdicts[entry.engine])
+      verdicts[entry.engine] = entry.result.sentiment;
+    latest.set(key, verdicts);
+  });
+
+  return Array.from(latest.values())
+    .filter((verdicts) => verdicts.api && verdicts.model)
+    .map((verdicts) => [
+      verdicts.api as SentimentType,
+      verdicts.model as SentimentType,
+    ]);
+};
+
+// Query utilities
+const getRangeStart = (range: HistoryDateRange, now: number): number => {
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  switch (range) {
+    case "today": {
+      const startOfDay = new Date(now);
+      startOfDay.setHours(0, 0, 0, 0);
+      return startOfDay.getTime();
+    }
+    case "7d":
+      return now - 7 * dayMs;
+    case "30d":
+      return now - 30 * dayMs;
+    default:
+      return 0;
+  }
+};
+
+export const filterHistory = (
+  entries: HistoryEntry[],
+  filters: HistoryFilters,
+  now = Date.now()
+): HistoryEntry[] => {
+  const query = filters.query.trim().toLowerCase();
+  const rangeStart = getRangeStart(filters.dateRange, now);
+
+  return entries.filter(
+    (entry) =>
+      (filters.sentiment === "all" ||
+        entry.result.sentiment === filters.sentiment) &&
+      (filters.engine === "all" || entry.engine === filters.engine) &&
+      entry.timestamp >= rangeStart &&
+      entry.result.confidence >= filters.minConfidence &&
+      entry.result.confidence <= filters.maxConfidence &&
+      (!query ||
+        entry.text.toLowerCase().includes(query) ||
+        entry.result.model.toLowerCase().includes(query) ||
+        ("reasoning" in entry.result &&
+          entry.result.reasoning.toLowerCase().includes(query)))
+  );
+};
@@ -0,0 +1,260 @@
+import {
+  KeywordScore,
+  LanguageCode,
+  LanguagePack,
+  PreprocessingOptions,
+  SentimentProbabilities,
+  SentimentType,
+  TokenContribution,
+} from "@/types/types";
+import {
+  EMOJI_REPEAT_DECAY,
+  getEmojiValence,
+  summarizeEmojiSignals,
+} from "@/utils/emoji";
+import { rebaseContributions } from "@/utils/explanations";
+import {
+  DEFAULT_LANGUAGE,
+  detectLanguage,
+  getLanguagePack,
+} from "@/utils/languages";
+import {
+  analyzeTokens,
+  DEFAULT_PREPROCESSING_OPTIONS,
+} from "@/utils/preprocessing";
+
+// Scoring constants from Hutto & Gilbert (2014).
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const NEGATION_WINDOW = 3;
+const EXCLAMATION_INCREMENT = 0.292;
+const MAX_EXCLAMATIONS = 4;
+const QUESTION_INCREMENT = 0.18;
+const MAX_QUESTIONS = 3;
+const BUT_BEFORE_WEIGHT = 0.5;
+const BUT_AFTER_WEIGHT = 1.5;
+const NORMALIZATION_ALPHA = 15;
+const NEUTRAL_THRESHOLD = 0.05;
+const BOOSTER_INCREMENT = 0.293;
+
+// Keeps case for emphasis; contractions are expanded so "don't" yields a
+// plain "not" for the negation check.
+const KEYWORD_PREPROCESSING: PreprocessingOptions = {
+  ...DEFAULT_PREPROCESSING_OPTIONS,
+  lowercase: false,
+  removeStopwords: false,
+  stemming: "none",
+};
+
+// Lexicon utilities
+// Words missing from the detected language's lexicon fall back to English,
+// which also covers mixed-language text.
+const getValence = (pack: LanguagePack, word: string): number | undefined =>
+  pack.lexicon[word] ?? getLanguagePack(DEFAULT_LANGUAGE).lexicon[word];
+
+// Boosters scale the following sentiment word up, dampeners scale it down.
+const getBoosterIncrement = (
+  pack: LanguagePack,
+  word: string
+): number | undefined => {
+  if (pack.boosters.includes(word)) return BOOSTER_INCREMENT;
+  if (pack.dampeners.includes(word)) return -BOOSTER_INCREMENT;
+  return undefined;
+};
+
+const isNegation = (pack: LanguagePack, word: string): boolean => {
+  const lower = word.toLowerCase();
+  return (
+    lower.endsWith("n't") || pack.negations.includes(lower.replace(/'/g, ""))
+  );
+};
+
+// Emoticons such as ":D", and scripts without case, are not shouting.
+const isShouting = (word: string): boolean =>
+  /^\p{Lu}/u.test(word) && word === word.toUpperCase();
+
+const signOf = (value: number): number => (value < 0 ? -1 : 1);
+
+const normalizeScore = (score: number): number =>
+  Math.max(
+    -1,
+    Math.min(1, score / Math.sqrt(score * score + NORMALIZATION_ALPHA))
+  );
+
+// A booster grows the magnitude of the word it modifies, whichever its sign.
+const boosterShift = (
+  pack: LanguagePack,
+  word: string,
+  valence: number,
+  capsDiffer: boolean
+): number => {
+  const increment = getBoosterIncrement(pack, word.toLowerCase());
+  if (increment === undefined) return 0;
+
+  const emphasis = capsDiffer && isShouting(word) ? CAPS_INCREMENT : 0;
+  return signOf(valence) * (increment + Math.sign(increment) * emphasis);
+};
+
+const scoreWord = (
+  pack: LanguagePack,
+  words: string[],
+  index: number,
+  capsDiffer: boolean
+): number => {
+  const word = words[index];
+  const emojiValence = getEmojiValence(word);
+  if (emojiValence !== undefined) {
+    // Emoji stand apart from the words around them, so only repetition
+    // modifies them.
+    let repeats = 0;
+    while (words[index - repeats - 1] === word) repeats++;
+    return emojiValence * EMOJI_REPEAT_DECAY ** repeats;
+  }
+
+  const lower = word.toLowerCase();
+  if (getBoosterIncrement(pack, lower) !== undefined) return 0;
+
+  let valence = getValence(pack, lower) ?? 0;
+  if (valence === 0) return 0;
+
+  // Emphasis only counts when not all of the text is shouted.
+  if (capsDiffer && isShouting(word)) {
+    valence += signOf(valence) * CAPS_INCREMENT;
+  }
+
+  // Modifiers further back have less effect.
+  const distanceWeights = [1, 0.95, 0.9];
+  for (let distance = 1; distance <= NEGATION_WINDOW; distance++) {
+    const previous = words[index - distance];
+    if (previous === undefined) break;
+    if (getValence(pack, previous.toLowerCase()) === undefined) {
+      valence +=
+        boosterShift(pack, previous, valence, capsDiffer) *
+        distanceWeights[distance - 1];
+    }
+  }
+
+  const scope = words.slice(Math.max(0, index - NEGATION_WINDOW), index);
+  if (pack.negationFollows) {
+    scope.push(...words.slice(index + 1, index + NEGATION_WINDOW));
+  }
+  const negated = scope.some((candidate) => isNegation(pack, candidate));
+  return negated ? valence * NEGATION_SCALAR : valence;
+};
+
+// Contrast puts the weight on what follows: "good, but slow" leans negative.
+const applyContrast = (
+  pack: LanguagePack,
+  words: string[],
+  valences: number[]
+): number[] => {
+  const butIndex = words.findIndex((word) =>
+    pack.contrastWords.includes(word.toLowerCase())
+  );
+  if (butIndex === -1) return valences;
+
+  return valences.map((valence, index) => {
+    if (index < butIndex) return valence * BUT_BEFORE_WEIGHT;
+    if (index > butIndex) return valence * BUT_AFTER_WEIGHT;
+    return valence;
+  });
+};
+
+const punctuationEmphasis = (text: string): number => {
+  const exclamations = Math.min(
+    (text.match(/!/g) ?? []).length,
+    MAX_EXCLAMATIONS
+  );
+  const questions = (text.match(/\?/g) ?? []).length;
+  const questionEmphasis =
+    questions > 1 ? Math.min(questions, MAX_QUESTIONS) * QUESTION_INCREMENT : 0;
+  return exclamations * EXCLAMATION_INCREMENT + questionEmphasis;
+};
+
+// Sentiment analysis utilities
+export const analyzeSentimentWithKeywords = (
+  text: string,
+  language: LanguageCode = detectLanguage(text).language
+): KeywordScore => {
+  const pack = getLanguagePack(language);
+  const tokens = analyzeTokens(text, {
+    ...KEYWORD_PREPROCESSING,
+    // The contraction rules are English.
+    expandContractions: language === DEFAULT_LANGUAGE,
+  }).filter((token) => !token.removed);
+  const words = tokens.map((token) => token.token);
+  const shouted = words.filter(isShouting).length;
+  const capsDiffer = shouted > 0 && shouted < words.length;
+
+  const valences = applyContrast(
+    pack,
+    words,
+    words.map((_, index) => scoreWord(pack, words, index, capsDiffer))
+  );
+
+  const total = valences.reduce((sum, valence) => sum + valence, 0);
+  // Punctuation only amplifies sentiment that is already there.
+  const emphasis = total === 0 ? 0 : signOf(total) * punctuationEmphasis(text);
+  const compound = normalizeScore(total + emphasis);
+
+  // Each sentiment word adds one to its side so a weak word still outweighs
+  // a neutral one; punctuation emphasis joins the dominant side.
+  let positive = 0;
+  let negative = 0;
+  let neutral = 0;
+  valences.forEach((valence) => {
+    if (valence > 0) positive += valence + 1;
+    else if (valence < 0) negative += 1 - valence;
+    else neutral += 1;
+  });
+  if (emphasis > 0) positive += emphasis;
+  if (emphasis < 0) negative -= emphasis;
+
+  const sum = positive + negative + neutral;
+  const proportions: SentimentProbabilities =
+    sum === 0
+      ? { positive: 0, negative: 0, neutral: 1 }
+      : {
+          positive: positive / sum,
+          negative: negative / sum,
+          neutral: neutral / sum,
+        };
+
+  const sentiment: SentimentType =
+    compound >= NEUTRAL_THRESHOLD
+      ? "positive"
+      : compound <= -NEUTRAL_THRESHOLD
+      ? "negative"
+      : "neutral";
+
+  // Polar verdicts are as sure as the compound is strong; a neutral one is as
+  // sure as the text is free of sentiment words.
+  const confidence =
+    sentiment === "neutral"
+      ? proportions.neutral
+      : (1 + Math.abs(compound)) / 2;
+
+  // Each word's valence after negation, boosters and contrast.
+  const contributions = tokens.flatMap(
+    ({ token, source }, index): TokenContribution[] =>
+      valences[index] === 0
+        ? []
+        : [
+            {
+              token: token.toLowerCase(),
+              source,
+              score: valences[index],
+              sentiment: valences[index] > 0 ? "positive" : "negative",
+            },
+          ]
+  );
+
+  return {
+    sentiment,
+    confidence,
+    compound,
+    proportions,
+    emoji: summarizeEmojiSignals(words),
+    contributions: rebaseContributions(contributions, sentiment),
+  };
+};
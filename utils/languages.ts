@@ -0,0 +1,117 @@
+import { LANGUAGE_PACKS } from "@/constants/LanguagePacks";
+import {
+  LanguageCode,
+  LanguageDetection,
+  LanguagePack,
+  TrainingDataItem,
+} from "@/types/types";
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_PACKS) as LanguageCode[];
+
+export const getLanguagePack = (code: LanguageCode): LanguagePack =>
+  LANGUAGE_PACKS[code] ?? LANGUAGE_PACKS[DEFAULT_LANGUAGE];
+
+export const getLanguageName = (code: LanguageCode): string =>
+  getLanguagePack(code).name;
+
+// Profile utilities
+// Character bigrams and trigrams of space-padded words, after Cavnar &
+// Trenkle (1994); word edges carry most of the signal in short texts.
+type NgramProfile = Record<string, number>;
+
+const NGRAM_SIZES = [2, 3];
+const MIN_LETTERS = 6;
+// Lower sharpens the softmax over similarities.
+const DETECTION_TEMPERATURE = 0.05;
+
+const buildNgramProfile = (text: string): NgramProfile => {
+  const profile: NgramProfile = {};
+  const words = text
+    .normalize("NFC")
+    .toLowerCase()
+    .match(/[\p{L}\p{M}]+/gu);
+
+  words?.forEach((word) => {
+    const padded = ` ${word} `;
+    NGRAM_SIZES.forEach((size) => {
+      for (let i = 0; i + size <= padded.length; i++) {
+        const ngram = padded.slice(i, i + size);
+        profile[ngram] = (profile[ngram] ?? 0) + 1;
+      }
+    });
+  });
+
+  return profile;
+};
+
+const profileSimilarity = (a: NgramProfile, b: NgramProfile): number => {
+  const norm = (profile: NgramProfile): number =>
+    Math.sqrt(
+      Object.values(profile).reduce((sum, count) => sum + count * count, 0)
+    );
+
+  const dot = Object.entries(a).reduce(
+    (sum, [ngram, count]) => sum + count * (b[ngram] ?? 0),
+    0
+  );
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+let languageProfiles: Record<LanguageCode, NgramProfile> | null = null;
+
+const getLanguageProfiles = (): Record<LanguageCode, NgramProfile> => {
+  if (!languageProfiles) {
+    languageProfiles = Object.fromEntries(
+      LANGUAGE_CODES.map((code) => {
+        const pack = LANGUAGE_PACKS[code];
+        // The lexicons add the short, opinionated words reviews are made of.
+        const vocabulary = [
+          ...Object.keys(pack.lexicon),
+          ...pack.boosters,
+          ...pack.negations,
+        ].join(" ");
+        return [code, buildNgramProfile(`${pack.profileText} ${vocabulary}`)];
+      })
+    ) as Record<LanguageCode, NgramProfile>;
+  }
+  return languageProfiles;
+};
+
+// Detection utilities
+// Hindi is told apart by its script; the Latin-script languages by n-gram
+// profile. Too little text falls back to English with zero confidence.
+export const detectLanguage = (text: string): LanguageDetection => {
+  const devanagari = (text.match(/\p{Script=Devanagari}/gu) ?? []).length;
+  const latin = (text.match(/\p{Script=Latin}/gu) ?? []).length;
+
+  if (devanagari > latin) {
+    return { language: "hi", confidence: devanagari / (devanagari + latin) };
+  }
+  if (latin < MIN_LETTERS) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0 };
+  }
+
+  const input = buildNgramProfile(text);
+  const profiles = getLanguageProfiles();
+  const candidates = LANGUAGE_CODES.filter((code) => code !== "hi");
+  const weights = candidates.map((code) =>
+    Math.exp(profileSimilarity(input, profiles[code]) / DETECTION_TEMPERATURE)
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const best = weights.indexOf(Math.max(...weights));
+
+  return { language: candidates[best], confidence: weights[best] / total };
+};
+
+// Non-English input also trains on that language's examples, since the
+// user's set is usually English only.
+export const getTrainingDataForLanguage = (
+  trainingData: TrainingDataItem[],
+  language: LanguageCode
+): TrainingDataItem[] => [
+  ...trainingData,
+  ...getLanguagePack(language).trainingData,
+];
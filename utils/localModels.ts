@@ -0,0 +1,72 @@
+import {
+  LocalClassifier,
+  LocalModelOptions,
+  TrainingDataItem,
+} from "@/types/types";
+import { DEFAULT_PREPROCESSING_OPTIONS } from "@/utils/preprocessing";
+import {
+  explainNaiveBayes,
+  predictNaiveBayes,
+  trainNaiveBayes,
+} from "@/utils/naiveBayes";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+import { buildTfidfIndex, classifyWithKnn, explainKnn } from "@/utils/tfidf";
+
+export const DEFAULT_MODEL_OPTIONS: LocalModelOptions = {
+  engine: "naive-bayes",
+  k: 3,
+  preprocessing: DEFAULT_PREPROCESSING_OPTIONS,
+  calibration: "platt",
+};
+
+// Persistence utilities
+// Saved options are laid over the defaults, so options added in a later
+// release start at their default value.
+export const loadModelOptions = async (): Promise<LocalModelOptions> => {
+  const saved = await loadJSON<Partial<LocalModelOptions> | null>(
+    STORAGE_KEYS.modelOptions,
+    null
+  );
+  return {
+    ...DEFAULT_MODEL_OPTIONS,
+    ...saved,
+    preprocessing: {
+      ...DEFAULT_MODEL_OPTIONS.preprocessing,
+      ...saved?.preprocessing,
+    },
+  };
+};
+
+export const saveModelOptions = (options: LocalModelOptions): Promise<void> =>
+  saveJSON(STORAGE_KEYS.modelOptions, options);
+
+// Model factory
+export const trainLocalClassifier = (
+  trainingData: TrainingDataItem[],
+  options: LocalModelOptions
+): LocalClassifier => {
+  if (options.engine === "knn") {
+    const index = buildTfidfIndex(trainingData, options.preprocessing);
+
+    return {
+      name: `TF-IDF k-NN (k=${options.k})`,
+      featureExtraction: "TF-IDF + Cosine Similarity",
+      vocabularySize: Object.keys(index.vectorizer.idf).length,
+      trainingSamples: trainingData.length,
+      predict: (text) => classifyWithKnn(index, text, options.k),
+      explain: (text, sentiment) =>
+        explainKnn(index, text, options.k, sentiment),
+    };
+  }
+
+  const model = trainNaiveBayes(trainingData, options.preprocessing);
+
+  return {
+    name: "Multinomial Naive Bayes",
+    featureExtraction: "Bag of Words (Laplace smoothing)",
+    vocabularySize: model.vocabulary.length,
+    trainingSamples: model.trainingSamples,
+    predict: (text) => predictNaiveBayes(model, text),
+    explain: (text, sentiment) => explainNaiveBayes(model, text, sentiment),
+  };
+};
@@ -0,0 +1,159 @@
+import {
+  AnalysisError,
+  NaiveBayesModel,
+  ClassifierPrediction,
+  PreprocessingOptions,
+  SENTIMENT_TYPES,
+  SentimentProbabilities,
+  SentimentType,
+  TokenContribution,
+  TrainingDataItem,
+} from "@/types/types";
+import { buildSourceLookup, scoreAgainstRivals } from "@/utils/explanations";
+import {
+  DEFAULT_PREPROCESSING_OPTIONS,
+  preprocessText,
+} from "@/utils/preprocessing";
+
+const emptyProbabilities = (): SentimentProbabilities => ({
+  positive: 0,
+  negative: 0,
+  neutral: 0,
+});
+
+// An example labelled with zero confidence still counts a little, so a
+// dataset of only such examples can be trained on.
+const MIN_EXAMPLE_WEIGHT = 0.05;
+
+// Training utilities
+// Each example contributes its label confidence as a weight, so a 0.95
+// "positive" counts for more than a 0.75 one.
+export const trainNaiveBayes = (
+  trainingData: TrainingDataItem[],
+  preprocessing: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS,
+  smoothing = 1
+): NaiveBayesModel => {
+  if (trainingData.length === 0) {
+    throw new AnalysisError(
+      "Add some training data before running the model",
+      "MODEL_NOT_TRAINED"
+    );
+  }
+
+  const classWeights = emptyProbabilities();
+  const totalTokenCounts = emptyProbabilities();
+  const tokenCounts: Record<SentimentType, Record<string, number>> = {
+    positive: {},
+    negative: {},
+    neutral: {},
+  };
+  const vocabulary = new Set<string>();
+
+  trainingData.forEach((item) => {
+    const weight = Number.isFinite(item.confidence)
+      ? Math.max(item.confidence, MIN_EXAMPLE_WEIGHT)
+      : 1;
+    classWeights[item.sentiment] += weight;
+
+    preprocessText(item.text, preprocessing).forEach((token) => {
+      vocabulary.add(token);
+      const counts = tokenCounts[item.sentiment];
+      counts[token] = (counts[token] ?? 0) + weight;
+      totalTokenCounts[item.sentiment] += weight;
+    });
+  });
+
+  const totalWeight = SENTIMENT_TYPES.reduce(
+    (sum, sentiment) => sum + classWeights[sentiment],
+    0
+  );
+  const classPriors = emptyProbabilities();
+  SENTIMENT_TYPES.forEach((sentiment) => {
+    classPriors[sentiment] = classWeights[sentiment] / totalWeight;
+  });
+
+  return {
+    classes: SENTIMENT_TYPES.filter((sentiment) => classWeights[sentiment] > 0),
+    vocabulary: Array.from(vocabulary),
+    classPriors,
+    tokenCounts,
+    totalTokenCounts,
+    trainingSamples: trainingData.length,
+    smoothing,
+    preprocessing,
+  };
+};
+
+// Inference utilities
+// Smoothed log P(token | sentiment).
+const tokenLogLikelihood = (
+  model: NaiveBayesModel,
+  sentiment: SentimentType,
+  token: string
+): number =>
+  Math.log(
+    ((model.tokenCounts[sentiment][token] ?? 0) + model.smoothing) /
+      (model.totalTokenCounts[sentiment] +
+        model.smoothing * model.vocabulary.length)
+  );
+
+export const predictNaiveBayes = (
+  model: NaiveBayesModel,
+  text: string
+): ClassifierPrediction => {
+  const vocabulary = new Set(model.vocabulary);
+  const tokens = preprocessText(text, model.preprocessing);
+
+  const logScores = model.classes.map((sentiment) =>
+    tokens.reduce((score, token) => {
+      // Tokens never seen in training carry no evidence for any class.
+      if (!vocabulary.has(token)) return score;
+      return score + tokenLogLikelihood(model, sentiment, token);
+    }, Math.log(model.classPriors[sentiment]))
+  );
+
+  // Normalise in log space to avoid underflow on long inputs.
+  const maxScore = Math.max(...logScores);
+  const expScores = logScores.map((score) => Math.exp(score - maxScore));
+  const total = expScores.reduce((sum, value) => sum + value, 0);
+
+  const probabilities = emptyProbabilities();
+  model.classes.forEach((sentiment, index) => {
+    probabilities[sentiment] = expScores[index] / total;
+  });
+
+  const sentiment = model.classes.reduce((best, current) =>
+    probabilities[current] > probabilities[best] ? current : best
+  );
+
+  return { sentiment, probabilities };
+};
+
+// Explanation utilities
+// Each known token scores its count times its log-likelihood ratio between
+// the verdict and the strongest rival class.
+export const explainNaiveBayes = (
+  model: NaiveBayesModel,
+  text: string,
+  verdict: SentimentType
+): TokenContribution[] => {
+  const vocabulary = new Set(model.vocabulary);
+  const sources = buildSourceLookup(text, model.preprocessing);
+  const counts: Record<string, number> = {};
+  preprocessText(text, model.preprocessing).forEach((token) => {
+    if (vocabulary.has(token)) counts[token] = (counts[token] ?? 0) + 1;
+  });
+
+  return Object.entries(counts).map(([token, count]) => {
+    const evidence = emptyProbabilities();
+    SENTIMENT_TYPES.forEach((sentiment) => {
+      evidence[sentiment] = count * tokenLogLikelihood(model, sentiment, token);
+    });
+    return scoreAgainstRivals(
+      token,
+      sources[token] ?? token,
+      evidence,
+      verdict
+    );
+  });
+};
@@ -0,0 +1,542 @@
+import {
+  PreprocessingOptions,
+  StemmingMode,
+  TokenInfo,
+  TokenKind,
+} from "@/types/types";
+import { normalizeEmoji, normalizeEmoticon } from "@/utils/emoji";
+
+export const DEFAULT_PREPROCESSING_OPTIONS: PreprocessingOptions = {
+  lowercase: true,
+  expandContractions: true,
+  removeStopwords: false,
+  stemming: "none",
+  normalizeEntities: true,
+};
+
+const ENTITY_PLACEHOLDERS: Record<"url" | "mention" | "number", string> = {
+  url: "<url>",
+  mention: "<mention>",
+  number: "<number>",
+};
+
+// Negations, intensifiers and "but" are left out on purpose: they carry
+// sentiment even though most stopword lists drop them.
+const STOPWORDS = new Set([
+  "a",
+  "about",
+  "above",
+  "after",
+  "again",
+  "all",
+  "am",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "because",
+  "been",
+  "before",
+  "being",
+  "below",
+  "between",
+  "both",
+  "by",
+  "can",
+  "could",
+  "did",
+  "do",
+  "does",
+  "doing",
+  "down",
+  "during",
+  "each",
+  "for",
+  "from",
+  "further",
+  "had",
+  "has",
+  "have",
+  "having",
+  "he",
+  "her",
+  "here",
+  "hers",
+  "herself",
+  "him",
+  "himself",
+  "his",
+  "how",
+  "i",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "itself",
+  "just",
+  "me",
+  "my",
+  "myself",
+  "of",
+  "off",
+  "on",
+  "once",
+  "only",
+  "or",
+  "other",
+  "our",
+  "ours",
+  "ourselves",
+  "out",
+  "over",
+  "own",
+  "same",
+  "shall",
+  "she",
+  "should",
+  "some",
+  "such",
+  "than",
+  "that",
+  "the",
+  "their",
+  "theirs",
+  "them",
+  "themselves",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "through",
+  "to",
+  "under",
+  "until",
+  "up",
+  "us",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "who",
+  "whom",
+  "why",
+  "will",
+  "with",
+  "would",
+  "you",
+  "your",
+  "yours",
+  "yourself",
+  "yourselves",
+]);
+
+// Tokenizer utilities
+// Alternatives in order: URL, mention, emoticon, number, emoji (with any skin
+// tone or ZWJ parts), word.
+const TOKEN_PATTERN =
+  /(https?:\/\/\S+|www\.\S+)|(@[\p{L}\p{N}_]+)|(>?[:;=]['-]?[)(\][DPpOo*/\\|]+(?![\p{L}\p{N}])|<\/?3+)|(\p{N}+(?:[.,]\p{N}+)*(?:%|st|nd|rd|th)?)|(\p{Extended_Pictographic}[\u{FE0F}\u{1F3FB}-\u{1F3FF}]*(?:\u200D\p{Extended_Pictographic}[\u{FE0F}\u{1F3FB}-\u{1F3FF}]*)*)|([\p{L}\p{M}][\p{L}\p{M}\p{N}]*(?:'[\p{L}\p{M}]+)*)/gu;
+
+interface RawToken {
+  source: string;
+  kind: TokenKind;
+}
+
+const getTokenKind = (groups: (string | undefined)[]): TokenKind => {
+  const [url, mention, emoticon, number, emoji] = groups;
+  if (url) return "url";
+  if (mention) return "mention";
+  if (emoticon) return "emoticon";
+  if (number) return "number";
+  if (emoji) return "emoji";
+  return "word";
+};
+
+// Splits on anything that is not part of a token above, so punctuation and
+// all kinds of whitespace separate tokens.
+const splitTokens = (text: string): RawToken[] =>
+  Array.from(
+    text.normalize("NFC").replace(/[‘’ʼ]/g, "'").matchAll(TOKEN_PATTERN)
+  ).map(([match, ...groups]) => {
+    const kind = getTokenKind(groups);
+    return {
+      // URLs are matched greedily, so drop any sentence punctuation they ate.
+      source: kind === "url" ? match.replace(/[.,!?;:)\]'"]+$/, "") : match,
+      kind,
+    };
+  });
+
+// Contraction utilities
+const IRREGULAR_CONTRACTIONS: Record<string, string[]> = {
+  "can't": ["can", "not"],
+  "won't": ["will", "not"],
+  "shan't": ["shall", "not"],
+  "ain't": ["is", "not"],
+  "let's": ["let", "us"],
+  "y'all": ["you", "all"],
+};
+
+const CONTRACTION_SUFFIXES: [string, string][] = [
+  ["n't", "not"],
+  ["'re", "are"],
+  ["'ve", "have"],
+  ["'ll", "will"],
+  ["'d", "would"],
+  ["'m", "am"],
+];
+
+// "'s" is only "is" after these; elsewhere it marks a possessive.
+const IS_CONTRACTION_STEMS = new Set([
+  "it",
+  "he",
+  "she",
+  "that",
+  "what",
+  "there",
+  "here",
+  "who",
+  "where",
+  "how",
+]);
+
+const expandContraction = (word: string): string[] => {
+  const lower = word.toLowerCase();
+  const shouted = word === word.toUpperCase() && word !== lower;
+  const matchCase = (parts: string[]): string[] =>
+    shouted ? parts.map((part) => part.toUpperCase()) : parts;
+
+  if (IRREGULAR_CONTRACTIONS[lower]) {
+    return matchCase(IRREGULAR_CONTRACTIONS[lower]);
+  }
+
+  const suffix = CONTRACTION_SUFFIXES.find(([ending]) =>
+    lower.endsWith(ending)
+  );
+  if (suffix) {
+    const stem = word.slice(0, -suffix[0].length);
+    return stem ? [stem, ...matchCase([suffix[1]])] : [word];
+  }
+
+  if (lower.endsWith("'s")) {
+    const stem = word.slice(0, -2);
+    return IS_CONTRACTION_STEMS.has(stem.toLowerCase())
+      ? [stem, ...matchCase(["is"])]
+      : [stem];
+  }
+
+  return [word];
+};
+
+// Stemming utilities
+// Porter (1980), "An algorithm for suffix stripping".
+const isConsonant = (word: string, index: number): boolean => {
+  const char = word[index];
+  if ("aeiou".includes(char)) return false;
+  if (char === "y") return index === 0 || !isConsonant(word, index - 1);
+  return true;
+};
+
+// The number of vowel-consonant sequences, [C](VC){m}[V].
+const measure = (stem: string): number => {
+  let count = 0;
+  let previousVowel = false;
+  for (let i = 0; i < stem.length; i++) {
+    const vowel = !isConsonant(stem, i);
+    if (previousVowel && !vowel) count++;
+    previousVowel = vowel;
+  }
+  return count;
+};
+
+const hasVowel = (stem: string): boolean =>
+  Array.from(stem).some((_, index) => !isConsonant(stem, index));
+
+const endsWithDoubleConsonant = (word: string): boolean =>
+  word.length >= 2 &&
+  word[word.length - 1] === word[word.length - 2] &&
+  isConsonant(word, word.length - 1);
+
+// Consonant-vowel-consonant where the last is not w, x or y, as in "hop".
+const endsWithCvc = (word: string): boolean => {
+  const last = word.length - 1;
+  return (
+    word.length >= 3 &&
+    isConsonant(word, last - 2) &&
+    !isConsonant(word, last - 1) &&
+    isConsonant(word, last) &&
+    !"wxy".includes(word[last])
+  );
+};
+
+// Only the longest matching suffix is considered; if its condition fails the
+// word is left alone.
+const replaceSuffix = (
+  word: string,
+  rules: [string, string][],
+  condition: (stem: string) => boolean
+): string => {
+  const rule = rules.find(([suffix]) => word.endsWith(suffix));
+  if (!rule) return word;
+
+  const stem = word.slice(0, -rule[0].length);
+  return condition(stem) ? stem + rule[1] : word;
+};
+
+const bySuffixLength = (rules: [string, string][]): [string, string][] =>
+  [...rules].sort((a, b) => b[0].length - a[0].length);
+
+const STEP_2_RULES = bySuffixLength([
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["bli", "ble"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["logi", "log"],
+]);
+
+const STEP_3_RULES = bySuffixLength([
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+]);
+
+const STEP_4_RULES = bySuffixLength(
+  [
+    "al",
+    "ance",
+    "ence",
+    "er",
+    "ic",
+    "able",
+    "ible",
+    "ant",
+    "ement",
+    "ment",
+    "ent",
+    "ion",
+    "ou",
+    "ism",
+    "ate",
+    "iti",
+    "ous",
+    "ive",
+    "ize",
+  ].map((suffix): [string, string] => [suffix, ""])
+);
+
+// Tidies a stem left by removing -ed or -ing: "hopp" -> "hop", "hop" -> "hope".
+const restoreStemEnding = (stem: string): string => {
+  if (/(at|bl|iz)$/.test(stem)) return `${stem}e`;
+  if (endsWithDoubleConsonant(stem) && !/[lsz]$/.test(stem)) {
+    return stem.slice(0, -1);
+  }
+  if (measure(stem) === 1 && endsWithCvc(stem)) return `${stem}e`;
+  return stem;
+};
+
+export const porterStem = (input: string): string => {
+  if (input.length <= 2 || !/^[a-z]+$/.test(input)) return input;
+  let word = input;
+
+  // Step 1a: plurals
+  if (word.endsWith("sses")) word = word.slice(0, -2);
+  else if (word.endsWith("ies")) word = word.slice(0, -2);
+  else if (!word.endsWith("ss") && word.endsWith("s")) word = word.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (word.endsWith("eed")) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const ending = /(ed|ing)$/.exec(word);
+    const stem = ending ? word.slice(0, -ending[0].length) : "";
+    if (ending && hasVowel(stem)) word = restoreStemEnding(stem);
+  }
+
+  // Step 1c: terminal y
+  if (word.endsWith("y") && hasVowel(word.slice(0, -1))) {
+    word = `${word.slice(0, -1)}i`;
+  }
+
+  word = replaceSuffix(word, STEP_2_RULES, (stem) => measure(stem) > 0);
+  word = replaceSuffix(word, STEP_3_RULES, (stem) => measure(stem) > 0);
+  word = replaceSuffix(
+    word,
+    STEP_4_RULES,
+    (stem) =>
+      measure(stem) > 1 &&
+      // "-ion" only goes after s or t, as in "adoption".
+      (!word.endsWith("ion") || /[st]$/.test(stem))
+  );
+
+  // Step 5: final e and double l
+  if (word.endsWith("e")) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) word = stem;
+  }
+  if (measure(word) > 1 && word.endsWith("ll")) word = word.slice(0, -1);
+
+  return word;
+};
+
+// Lemmatization utilities
+// Covers the irregular forms common in reviews; regular forms go through the
+// suffix rules below.
+const IRREGULAR_LEMMAS: Record<string, string> = {
+  am: "be",
+  is: "be",
+  are: "be",
+  was: "be",
+  were: "be",
+  been: "be",
+  being: "be",
+  has: "have",
+  had: "have",
+  having: "have",
+  does: "do",
+  did: "do",
+  done: "do",
+  went: "go",
+  gone: "go",
+  made: "make",
+  said: "say",
+  got: "get",
+  gotten: "get",
+  took: "take",
+  taken: "take",
+  came: "come",
+  saw: "see",
+  seen: "see",
+  felt: "feel",
+  bought: "buy",
+  brought: "bring",
+  thought: "think",
+  ate: "eat",
+  eaten: "eat",
+  paid: "pay",
+  gave: "give",
+  given: "give",
+  knew: "know",
+  known: "know",
+  told: "tell",
+  found: "find",
+  left: "leave",
+  kept: "keep",
+  broke: "break",
+  better: "good",
+  best: "good",
+  worse: "bad",
+  worst: "bad",
+  children: "child",
+  men: "man",
+  women: "woman",
+  people: "person",
+  feet: "foot",
+  teeth: "tooth",
+  mice: "mouse",
+};
+
+export const lemmatize = (word: string): string => {
+  if (IRREGULAR_LEMMAS[word]) return IRREGULAR_LEMMAS[word];
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+
+  if (/ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/ied$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(ss|ch|sh|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word) && !/(ss|is)$/.test(word)) return word.slice(0, -1);
+
+  const ending = /(ed|ing)$/.exec(word);
+  if (ending) {
+    const stem = word.slice(0, -ending[0].length);
+    if (stem.length >= 2 && hasVowel(stem)) return restoreStemEnding(stem);
+  }
+
+  return word;
+};
+
+const STEMMERS: Record<StemmingMode, (word: string) => string> = {
+  none: (word) => word,
+  porter: porterStem,
+  lemma: lemmatize,
+};
+
+// Pipeline utilities
+// Every token is kept, with removed set on stopwords, so the debug view can
+// show what the pipeline dropped.
+export const analyzeTokens = (
+  text: string,
+  options: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): TokenInfo[] =>
+  splitTokens(text).flatMap(({ source, kind }): TokenInfo[] => {
+    if (kind === "emoji" || kind === "emoticon") {
+      const token =
+        kind === "emoji" ? normalizeEmoji(source) : normalizeEmoticon(source);
+      return [{ source, token, kind, removed: false }];
+    }
+
+    if (kind !== "word") {
+      return [
+        {
+          source,
+          token: options.normalizeEntities
+            ? ENTITY_PLACEHOLDERS[kind]
+            : source.toLowerCase(),
+          kind,
+          removed: false,
+        },
+      ];
+    }
+
+    const words = options.expandContractions
+      ? expandContraction(source)
+      : [source];
+
+    return words.map((word) => {
+      const lower = word.toLowerCase();
+      const removed = options.removeStopwords && STOPWORDS.has(lower);
+      const token =
+        options.stemming === "none"
+          ? options.lowercase
+            ? lower
+            : word
+          : STEMMERS[options.stemming](lower.replace(/'/g, ""));
+      return { source, token, kind, removed };
+    });
+  });
+
+export const preprocessText = (
+  text: string,
+  options: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): string[] =>
+  analyzeTokens(text, options)
+    .filter((token) => !token.removed)
+    .map((token) => token.token);
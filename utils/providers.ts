@@ -0,0 +1,444 @@
+import {
+  AnalysisError,
+  AnthropicResponse,
+  HuggingFaceClassificationResponse,
+  HuggingFaceLabelScore,
+  LlamaCppCompletionResponse,
+  OllamaChatResponse,
+  OpenAIResponse,
+  ParsedSentimentResult,
+  PromptExtras,
+  ProviderConfig,
+  ProviderId,
+  SentimentProvider,
+  SentimentType,
+} from "@/types/types";
+import { normalizeSentimentLabel } from "@/utils/datasetIO";
+import {
+  buildPromptMessages,
+  DEFAULT_PROMPT_TEMPLATE,
+  EXTRAS_MIN_MAX_TOKENS,
+  getResultSchema,
+  hasPromptExtras,
+  SENTENCE_VERDICT_TOKENS,
+} from "@/utils/prompt";
+import { clampPolarity, starsToPolarity } from "@/utils/ratings";
+import {
+  DEFAULT_FALLBACK_POLICY,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_MS,
+} from "@/utils/request";
+import {
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_CACHE_TTL_MS,
+} from "@/utils/responseCache";
+import {
+  parseSentimentResponse,
+  parseSentimentValue,
+} from "@/utils/responseParsing";
+
+export const DEFAULT_TEMPERATURE = 0.1;
+export const DEFAULT_MAX_TOKENS = 100;
+
+const joinUrl = (baseUrl: string, path: string): string =>
+  `${baseUrl.trim().replace(/\/+$/, "")}${path}`;
+
+const jsonRequest = (
+  body: unknown,
+  headers: Record<string, string> = {}
+): RequestInit => ({
+  method: "POST",
+  headers: { "Content-Type": "application/json", ...headers },
+  body: JSON.stringify(body),
+});
+
+const bearerHeaders = (apiKey: string): Record<string, string> =>
+  apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {};
+
+const chatMessages = (template: string, text: string, extras: PromptExtras) => {
+  const { system, user } = buildPromptMessages(template, text, extras);
+  return [
+    { role: "system", content: system },
+    { role: "user", content: user },
+  ];
+};
+
+// A token limit tuned for a single verdict would cut the breakdowns short.
+const getMaxTokens = (config: ProviderConfig, extras: PromptExtras): number =>
+  hasPromptExtras(extras)
+    ? Math.max(
+        config.maxTokens,
+        EXTRAS_MIN_MAX_TOKENS +
+          (extras.sentences?.length ?? 0) * SENTENCE_VERDICT_TOKENS
+      )
+    : config.maxTokens;
+
+const ensureContent = (content: string | undefined): string => {
+  if (!content?.trim()) {
+    throw new AnalysisError(
+      "Provider returned an empty response",
+      "INVALID_RESPONSE"
+    );
+  }
+  return content.trim();
+};
+
+// Provider adapters
+const openAIProvider: SentimentProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  defaultModel: "gpt-4o-mini",
+  requiresApiKey: true,
+  usesPrompt: true,
+  buildRequest: (text, config, apiKey, extras = {}) => ({
+    url: joinUrl(config.baseUrl, "/chat/completions"),
+    init: jsonRequest(
+      {
+        model: config.model,
+        messages: chatMessages(config.promptTemplate, text, extras),
+        max_tokens: getMaxTokens(config, extras),
+        temperature: config.temperature,
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "sentiment_result",
+            strict: true,
+            schema: getResultSchema(extras),
+          },
+        },
+      },
+      bearerHeaders(apiKey)
+    ),
+  }),
+  parseResponse: (data) => {
+    const response = data as OpenAIResponse;
+    return {
+      ...parseSentimentResponse(
+        ensureContent(response.choices?.[0]?.message?.content)
+      ),
+      tokensUsed: response.usage?.total_tokens,
+      model: response.model,
+    };
+  },
+};
+
+const ANTHROPIC_TOOL_NAME = "record_sentiment";
+
+const anthropicProvider: SentimentProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultBaseUrl: "https://api.anthropic.com",
+  defaultModel: "claude-3-5-haiku-latest",
+  requiresApiKey: true,
+  usesPrompt: true,
+  buildRequest: (text, config, apiKey, extras = {}) => {
+    const { system, user } = buildPromptMessages(
+      config.promptTemplate,
+      text,
+      extras
+    );
+    return {
+      url: joinUrl(config.baseUrl, "/v1/messages"),
+      init: jsonRequest(
+        {
+          model: config.model,
+          system,
+          messages: [{ role: "user", content: user }],
+          max_tokens: getMaxTokens(config, extras),
+          temperature: config.temperature,
+          // Messages has no JSON mode; a forced tool call yields schema-shaped
+          // input instead.
+          tools: [
+            {
+              name: ANTHROPIC_TOOL_NAME,
+              description: "Record the sentiment classification of the text",
+              input_schema: getResultSchema(extras),
+            },
+          ],
+          tool_choice: { type: "tool", name: ANTHROPIC_TOOL_NAME },
+        },
+        {
+          "x-api-key": apiKey.trim(),
+          "anthropic-version": "2023-06-01",
+          // Required for requests made straight from a browser (web build).
+          "anthropic-dangerous-direct-browser-access": "true",
+        }
+      ),
+    };
+  },
+  parseResponse: (data) => {
+    const response = data as AnthropicResponse;
+    const toolUse = response.content?.find(
+      (block) => block.type === "tool_use" && block.name === ANTHROPIC_TOOL_NAME
+    );
+    const parse = toolUse
+      ? parseSentimentValue(toolUse.input)
+      : parseSentimentResponse(
+          ensureContent(
+            response.content
+              ?.filter((block) => block.type === "text")
+              .map((block) => block.text ?? "")
+              .join("")
+          )
+        );
+    return {
+      ...parse,
+      tokensUsed: response.usage
+        ? response.usage.input_tokens + response.usage.output_tokens
+        : undefined,
+      model: response.model,
+    };
+  },
+};
+
+const ollamaProvider: SentimentProvider = {
+  id: "ollama",
+  label: "Ollama",
+  defaultBaseUrl: "http://localhost:11434",
+  defaultModel: "llama3.2",
+  requiresApiKey: false,
+  usesPrompt: true,
+  buildRequest: (text, config, apiKey, extras = {}) => ({
+    url: joinUrl(config.baseUrl, "/api/chat"),
+    init: jsonRequest(
+      {
+        model: config.model,
+        messages: chatMessages(config.promptTemplate, text, extras),
+        stream: false,
+        format: getResultSchema(extras),
+        options: {
+          temperature: config.temperature,
+          num_predict: getMaxTokens(config, extras),
+        },
+      },
+      bearerHeaders(apiKey)
+    ),
+  }),
+  parseResponse: (data) => {
+    const response = data as OllamaChatResponse;
+    return {
+      ...parseSentimentResponse(ensureContent(response.message?.content)),
+      tokensUsed:
+        (response.prompt_eval_count ?? 0) + (response.eval_count ?? 0) ||
+        undefined,
+      model: response.model,
+    };
+  },
+};
+
+// llama.cpp's built-in server loads a single model, so `model` is only sent
+// along for servers that multiplex several. The raw completion endpoint has no
+// roles, so the system prompt simply leads.
+const llamaCppPrompt = (
+  template: string,
+  text: string,
+  extras: PromptExtras
+): string => {
+  const { system, user } = buildPromptMessages(template, text, extras);
+  return `${system}\n\n${user}\n\n`;
+};
+
+const llamaCppProvider: SentimentProvider = {
+  id: "llamacpp",
+  label: "llama.cpp",
+  defaultBaseUrl: "http://localhost:8080",
+  defaultModel: "default",
+  requiresApiKey: false,
+  usesPrompt: true,
+  buildRequest: (text, config, apiKey, extras = {}) => ({
+    url: joinUrl(config.baseUrl, "/completion"),
+    init: jsonRequest(
+      {
+        model: config.model,
+        prompt: llamaCppPrompt(config.promptTemplate, text, extras),
+        json_schema: getResultSchema(extras),
+        n_predict: getMaxTokens(config, extras),
+        temperature: config.temperature,
+        stream: false,
+      },
+      bearerHeaders(apiKey)
+    ),
+  }),
+  parseResponse: (data) => {
+    const response = data as LlamaCppCompletionResponse;
+    return {
+      ...parseSentimentResponse(ensureContent(response.content)),
+      tokensUsed:
+        (response.tokens_evaluated ?? 0) + (response.tokens_predicted ?? 0) ||
+        undefined,
+      model: response.model,
+    };
+  },
+};
+
+// Covers the common label schemes: named labels, the LABEL_0..2 ordering
+// used by the cardiffnlp models and 1-5 star ratings.
+const HUGGING_FACE_INDEXED_LABELS: SentimentType[] = [
+  "negative",
+  "neutral",
+  "positive",
+];
+
+const parseStarLabel = (label: string): number | null => {
+  const stars = /^(\d)\s*stars?$/i.exec(label.trim());
+  return stars ? Number(stars[1]) : null;
+};
+
+const mapHuggingFaceLabel = (label: string): SentimentType | null => {
+  const indexed = /^label_(\d)$/i.exec(label.trim());
+  if (indexed) return HUGGING_FACE_INDEXED_LABELS[Number(indexed[1])] ?? null;
+
+  const rating = parseStarLabel(label);
+  if (rating !== null) {
+    if (rating === 3) return "neutral";
+    return rating > 3 ? "positive" : "negative";
+  }
+
+  return normalizeSentimentLabel(label);
+};
+
+// Star models give an expected rating; the others, the positive share minus
+// the negative.
+const getHuggingFacePolarity = (
+  scores: HuggingFaceLabelScore[],
+  totals: Partial<Record<SentimentType, number>>
+): number => {
+  const rated = scores.flatMap(({ label, score }) => {
+    const stars = parseStarLabel(label);
+    return stars === null ? [] : [{ stars, score }];
+  });
+  const ratedWeight = rated.reduce((sum, { score }) => sum + score, 0);
+  if (ratedWeight > 0) {
+    return starsToPolarity(
+      rated.reduce((sum, { stars, score }) => sum + stars * score, 0) /
+        ratedWeight
+    );
+  }
+  return clampPolarity((totals.positive ?? 0) - (totals.negative ?? 0));
+};
+
+const parseHuggingFaceScores = (
+  scores: HuggingFaceLabelScore[]
+): ParsedSentimentResult => {
+  // Several raw labels can map onto the same class (e.g. 4 and 5 stars).
+  const totals: Partial<Record<SentimentType, number>> = {};
+  scores.forEach(({ label, score }) => {
+    const sentiment = mapHuggingFaceLabel(label);
+    if (sentiment) totals[sentiment] = (totals[sentiment] ?? 0) + score;
+  });
+
+  const best = (Object.keys(totals) as SentimentType[]).sort(
+    (a, b) => (totals[b] ?? 0) - (totals[a] ?? 0)
+  )[0];
+  if (!best) {
+    throw new AnalysisError(
+      "Classifier returned no recognisable sentiment labels",
+      "INVALID_RESPONSE"
+    );
+  }
+
+  return {
+    sentiment: best,
+    confidence: totals[best] ?? 0,
+    polarity: getHuggingFacePolarity(scores, totals),
+    reasoning: `Text classification scores: ${scores
+      .map(({ label, score }) => `${label} ${(score * 100).toFixed(1)}%`)
+      .join(", ")}`,
+  };
+};
+
+// Multi-sentence input goes as one batch: the whole text first, then each
+// sentence, answered by one list of scores per input.
+const huggingFaceProvider: SentimentProvider = {
+  id: "huggingface",
+  label: "Hugging Face",
+  defaultBaseUrl: "https://api-inference.huggingface.co/models",
+  defaultModel: "cardiffnlp/twitter-roberta-base-sentiment-latest",
+  requiresApiKey: true,
+  usesPrompt: false,
+  buildRequest: (text, config, apiKey, extras = {}) => ({
+    url: joinUrl(config.baseUrl, `/${config.model.trim()}`),
+    init: jsonRequest(
+      {
+        inputs: extras.sentences
+          ? [text, ...extras.sentences.map((sentence) => sentence.text)]
+          : text,
+      },
+      bearerHeaders(apiKey)
+    ),
+  }),
+  parseResponse: (data) => {
+    const response = data as HuggingFaceClassificationResponse;
+    const batches = (
+      Array.isArray(response[0]) ? response : [response]
+    ) as HuggingFaceLabelScore[][];
+    const [document, ...sentences] = batches.map(parseHuggingFaceScores);
+
+    return {
+      result:
+        sentences.length > 0
+          ? {
+              ...document,
+              sentences: sentences.map(
+                ({ sentiment, confidence, polarity }) => ({
+                  sentiment,
+                  confidence,
+                  polarity,
+                })
+              ),
+            }
+          : document,
+      parseQuality: "clean",
+    };
+  },
+};
+
+// Provider registry
+export const SENTIMENT_PROVIDERS: Record<ProviderId, SentimentProvider> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider,
+  llamacpp: llamaCppProvider,
+  huggingface: huggingFaceProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(SENTIMENT_PROVIDERS) as ProviderId[];
+
+export const getSentimentProvider = (id: ProviderId): SentimentProvider =>
+  SENTIMENT_PROVIDERS[id] ?? openAIProvider;
+
+export const getDefaultProviderConfig = (
+  id: ProviderId = "openai"
+): ProviderConfig => {
+  const provider = getSentimentProvider(id);
+  return {
+    provider: provider.id,
+    baseUrl: provider.defaultBaseUrl,
+    model: provider.defaultModel,
+    temperature: DEFAULT_TEMPERATURE,
+    maxTokens: DEFAULT_MAX_TOKENS,
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    maxRetries: DEFAULT_MAX_RETRIES,
+    fallbackPolicy: DEFAULT_FALLBACK_POLICY,
+    cacheEnabled: true,
+    cacheTtlMs: DEFAULT_CACHE_TTL_MS,
+    cacheMaxEntries: DEFAULT_CACHE_MAX_ENTRIES,
+  };
+};
+
+// Switching provider resets the endpoint and model but keeps the generation
+// settings and prompt the user has tuned.
+export const switchProvider = (
+  config: ProviderConfig,
+  id: ProviderId
+): ProviderConfig => {
+  const provider = getSentimentProvider(id);
+  return {
+    ...config,
+    provider: provider.id,
+    baseUrl: provider.defaultBaseUrl,
+    model: provider.defaultModel,
+  };
+};
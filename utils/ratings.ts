@@ -0,0 +1,79 @@
+import {
+  RatingSettings,
+  SentimentProbabilities,
+  SentimentType,
+} from "@/types/types";
+import { labelProbabilities } from "@/utils/sentences";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+
+export const DEFAULT_RATING_SETTINGS: RatingSettings = {
+  showStars: true,
+  neutralBand: 0.1,
+};
+
+export const NEUTRAL_BAND_RANGE = { min: 0, max: 0.5, step: 0.05 };
+
+export const MIN_STARS = 1;
+export const MAX_STARS = 5;
+const MIDDLE_STARS = (MIN_STARS + MAX_STARS) / 2;
+
+// Persistence utilities
+export const loadRatingSettings = async (): Promise<RatingSettings> => ({
+  ...DEFAULT_RATING_SETTINGS,
+  ...(await loadJSON<Partial<RatingSettings> | null>(
+    STORAGE_KEYS.ratingSettings,
+    null
+  )),
+});
+
+export const saveRatingSettings = (settings: RatingSettings): Promise<void> =>
+  saveJSON(STORAGE_KEYS.ratingSettings, settings);
+
+export const describeRatingSettings = ({
+  showStars,
+  neutralBand,
+}: RatingSettings): string =>
+  `${
+    showStars ? "Star ratings" : "Polarity only"
+  } · neutral band ±${neutralBand.toFixed(2)}`;
+
+// Polarity utilities
+export const clampPolarity = (value: number): number =>
+  Math.max(-1, Math.min(1, value));
+
+export const polarityFromProbabilities = (
+  probabilities: SentimentProbabilities
+): number => clampPolarity(probabilities.positive - probabilities.negative);
+
+// For engines that only report a label and its confidence.
+export const polarityFromLabel = (
+  sentiment: SentimentType,
+  confidence: number
+): number =>
+  polarityFromProbabilities(labelProbabilities(sentiment, confidence));
+
+// Star utilities
+// The neutral band maps to three stars; the rest of each side is stretched
+// linearly over the remaining stars, so +1 is five and -1 is one.
+export const polarityToStars = (
+  polarity: number,
+  neutralBand: number
+): number => {
+  const value = clampPolarity(polarity);
+  if (Math.abs(value) <= neutralBand) return MIDDLE_STARS;
+
+  const share = (Math.abs(value) - neutralBand) / (1 - neutralBand);
+  return MIDDLE_STARS + Math.sign(value) * share * (MAX_STARS - MIDDLE_STARS);
+};
+
+export const roundStars = (stars: number): number =>
+  Math.max(MIN_STARS, Math.min(MAX_STARS, Math.round(stars)));
+
+export const formatStars = (stars: number): string => {
+  const rounded = roundStars(stars);
+  return "★".repeat(rounded) + "☆".repeat(MAX_STARS - rounded);
+};
+
+// The inverse, for providers that answer in stars.
+export const starsToPolarity = (stars: number): number =>
+  clampPolarity((stars - MIDDLE_STARS) / (MAX_STARS - MIDDLE_STARS));
@@ -0,0 +1,245 @@
+import {
+  AnalysisError,
+  ApiErrorCode,
+  FallbackAction,
+  FallbackPolicy,
+  RequestOptions,
+} from "@/types/types";
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const DEFAULT_MAX_RETRIES = 3;
+
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const RETRYABLE_CODES: ApiErrorCode[] = ["RATE_LIMITED", "SERVER"];
+
+export const API_ERROR_LABELS: Record<ApiErrorCode, string> = {
+  AUTH_INVALID: "Invalid key",
+  RATE_LIMITED: "Rate limited",
+  QUOTA_EXCEEDED: "Out of quota",
+  TIMEOUT: "Timeout",
+  NETWORK: "Network",
+  SERVER: "Server error",
+  INVALID_RESPONSE: "Bad response",
+  API_ERROR: "Other errors",
+};
+
+// Transient failures fall back so the user still gets an answer; problems
+// only the user can fix (keys, quota) are surfaced instead.
+export const DEFAULT_FALLBACK_POLICY: FallbackPolicy = {
+  AUTH_INVALID: "fail",
+  RATE_LIMITED: "simulate",
+  QUOTA_EXCEEDED: "fail",
+  TIMEOUT: "simulate",
+  NETWORK: "simulate",
+  SERVER: "simulate",
+  INVALID_RESPONSE: "simulate",
+  API_ERROR: "fail",
+};
+
+// Error classification utilities
+interface ProviderErrorDetails {
+  type?: unknown;
+  code?: unknown;
+  message?: unknown;
+}
+
+// OpenAI-compatible APIs and Anthropic both nest the details under "error";
+// a body that is not JSON has none.
+const parseErrorDetails = (body: string): ProviderErrorDetails => {
+  try {
+    const parsed = JSON.parse(body);
+    const details = parsed?.error;
+    return details && typeof details === "object" ? details : {};
+  } catch {
+    return {};
+  }
+};
+
+// Each provider signals an exhausted balance its own way: 402, OpenAI's 429
+// with the insufficient_quota code, or Anthropic's 400 invalid_request_error
+// about the credit balance. Ordinary rate-limit messages mention billing too,
+// so free text is only read inside Anthropic's error type.
+const ANTHROPIC_CREDIT_PATTERN = /credit balance is too low/i;
+
+const isQuotaError = (status: number, body: string): boolean => {
+  if (status === 402) return true;
+  const { type, code, message } = parseErrorDetails(body);
+  if (status === 429) {
+    return code === "insufficient_quota" || type === "insufficient_quota";
+  }
+  return (
+    status === 400 &&
+    type === "invalid_request_error" &&
+    typeof message === "string" &&
+    ANTHROPIC_CREDIT_PATTERN.test(message)
+  );
+};
+
+export const classifyHttpError = (
+  status: number,
+  body: string
+): AnalysisError => {
+  if (status === 401 || status === 403) {
+    return new AnalysisError(
+      `The API key was rejected (${status}). Check it in API settings.`,
+      "AUTH_INVALID"
+    );
+  }
+  if (isQuotaError(status, body)) {
+    return new AnalysisError(
+      "The account has run out of quota or credit.",
+      "QUOTA_EXCEEDED"
+    );
+  }
+  if (status === 429) {
+    return new AnalysisError(
+      "Rate limit reached (429). Try again in a moment.",
+      "RATE_LIMITED"
+    );
+  }
+  if (status >= 500) {
+    return new AnalysisError(
+      `The provider had a server error (${status}).`,
+      "SERVER"
+    );
+  }
+  return new AnalysisError(
+    `API Error: ${status}${body ? ` ${body.slice(0, 200)}` : ""}`,
+    "API_ERROR"
+  );
+};
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof AnalysisError && error.code === "CANCELLED";
+
+export const getFallbackAction = (
+  error: unknown,
+  policy: FallbackPolicy
+): FallbackAction => {
+  const code =
+    error instanceof AnalysisError && error.code in policy
+      ? (error.code as ApiErrorCode)
+      : "API_ERROR";
+  return policy[code];
+};
+
+// Retry utilities
+// Retry-After is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+// Full jitter: a random wait up to the exponential ceiling, so clients that
+// failed together do not retry together.
+export const getBackoffDelay = (attempt: number): number =>
+  Math.random() *
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+
+const cancelledError = (): AnalysisError =>
+  new AnalysisError("Analysis cancelled", "CANCELLED");
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+const waitFor = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Request utilities
+// One attempt with its own timeout, which also bounds reading the body; the
+// caller's signal cancels it too.
+const fetchOnce = async (
+  url: string,
+  init: RequestInit,
+  options: RequestOptions
+): Promise<{ response: Response; body: string }> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return { response, body: await response.text() };
+  } catch {
+    if (options.signal?.aborted) throw cancelledError();
+    if (timedOut) {
+      throw new AnalysisError(
+        `No response within ${options.timeoutMs / 1000}s.`,
+        "TIMEOUT"
+      );
+    }
+    throw new AnalysisError(
+      `Could not reach ${url}. Check the connection and base URL.`,
+      "NETWORK"
+    );
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+const parseJsonBody = (body: string): unknown => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new AnalysisError(
+      "The provider returned a response that is not JSON.",
+      "INVALID_RESPONSE"
+    );
+  }
+};
+
+// Resolves to the parsed JSON body of the first successful attempt.
+export const fetchJsonWithRetry = async (
+  url: string,
+  init: RequestInit,
+  options: RequestOptions
+): Promise<unknown> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(options.signal);
+
+    const { response, body } = await fetchOnce(url, init, options);
+    if (response.ok) return parseJsonBody(body);
+
+    const error = classifyHttpError(response.status, body);
+    const retryable = RETRYABLE_CODES.includes(error.code as ApiErrorCode);
+    if (!retryable || attempt >= options.maxRetries) throw error;
+
+    const delayMs = Math.min(
+      parseRetryAfter(response.headers.get("Retry-After")) ??
+        getBackoffDelay(attempt),
+      MAX_RETRY_DELAY_MS
+    );
+    options.onRetry?.(attempt + 1, delayMs, error);
+    await waitFor(delayMs, options.signal);
+  }
+};
@@ -0,0 +1,132 @@
+import {
+  ApiResult,
+  PromptExtras,
+  ProviderConfig,
+  ResponseCacheEntry,
+} from "@/types/types";
+import { normalizeTextKey } from "@/utils/datasetIO";
+import { getResultSchema, getSystemPrompt } from "@/utils/prompt";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_TTL_MS = 24 * HOUR_MS;
+export const DEFAULT_CACHE_MAX_ENTRIES = 200;
+
+// Cache key utilities
+// FNV-1a; only needs to tell prompt revisions apart, not resist collisions.
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Editing the template, or a release changing the system prompt or schema,
+// retires every answer produced under the old wording. Answers with and
+// without aspect or emotion breakdowns are kept apart the same way.
+export const getPromptVersion = (
+  config: ProviderConfig,
+  extras: PromptExtras = {}
+): string =>
+  hashString(
+    [
+      getSystemPrompt(extras),
+      config.promptTemplate,
+      JSON.stringify(getResultSchema(extras)),
+    ].join("\u0000")
+  );
+
+// The base URL tells apart self-hosted servers serving the same model name.
+export const buildCacheKey = (
+  text: string,
+  config: ProviderConfig,
+  extras: PromptExtras = {}
+): string =>
+  [
+    config.provider,
+    config.baseUrl.trim().replace(/\/+$/, ""),
+    config.model.trim(),
+    getPromptVersion(config, extras),
+    normalizeTextKey(text),
+  ].join("|");
+
+// Persistence
+// Entries are kept in memory once loaded, so lookups do not re-read storage
+// and each write starts from the latest list.
+let entriesPromise: Promise<ResponseCacheEntry[]> | null = null;
+
+const getEntries = (): Promise<ResponseCacheEntry[]> => {
+  if (!entriesPromise) {
+    entriesPromise = loadJSON<ResponseCacheEntry[]>(
+      STORAGE_KEYS.responseCache,
+      []
+    );
+  }
+  return entriesPromise;
+};
+
+const isExpired = (
+  entry: ResponseCacheEntry,
+  config: ProviderConfig,
+  now: number
+): boolean => now - entry.storedAt > config.cacheTtlMs;
+
+// Drops expired entries, then the least recently used beyond the limit.
+const pruneEntries = (
+  entries: ResponseCacheEntry[],
+  config: ProviderConfig,
+  now: number
+): ResponseCacheEntry[] =>
+  entries
+    .filter((entry) => !isExpired(entry, config, now))
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .slice(0, Math.max(0, config.cacheMaxEntries));
+
+const commitEntries = async (entries: ResponseCacheEntry[]): Promise<void> => {
+  entriesPromise = Promise.resolve(entries);
+  await saveJSON(STORAGE_KEYS.responseCache, entries);
+};
+
+// Response cache utilities
+export const getCachedResult = async (
+  text: string,
+  config: ProviderConfig,
+  extras: PromptExtras = {}
+): Promise<ApiResult | null> => {
+  const key = buildCacheKey(text, config, extras);
+  const now = Date.now();
+  const entries = await getEntries();
+  const entry = entries.find((item) => item.key === key);
+  if (!entry || isExpired(entry, config, now)) return null;
+
+  entry.lastUsedAt = now;
+  await commitEntries(pruneEntries(entries, config, now));
+
+  return {
+    ...entry.result,
+    processing_time: "0.0s",
+    tokens_used: 0,
+    cache_hit: true,
+  };
+};
+
+export const setCachedResult = async (
+  text: string,
+  config: ProviderConfig,
+  result: ApiResult,
+  extras: PromptExtras = {}
+): Promise<void> => {
+  const key = buildCacheKey(text, config, extras);
+  const now = Date.now();
+  const entries = (await getEntries()).filter((item) => item.key !== key);
+  entries.push({ key, result, storedAt: now, lastUsedAt: now });
+  await commitEntries(pruneEntries(entries, config, now));
+};
+
+export const getResponseCacheSize = async (): Promise<number> =>
+  (await getEntries()).length;
+
+export const clearResponseCache = (): Promise<void> => commitEntries([]);
@@ -0,0 +1,257 @@
+import { EMOTION_LABELS } from "@/constants/Emotions";
+import {
+  AnalysisError,
+  AspectSentiment,
+  EmotionProbabilities,
+  ParsedSentimentResult,
+  SENTIMENT_TYPES,
+  SentenceVerdict,
+  SentimentParse,
+  SentimentType,
+} from "@/types/types";
+import { normalizeSentimentLabel } from "@/utils/datasetIO";
+
+// Validation utilities
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getValidationIssues = (value: unknown): string[] => {
+  if (!isRecord(value)) return ["response is not a JSON object"];
+
+  const issues: string[] = [];
+  if (!SENTIMENT_TYPES.includes(value.sentiment as SentimentType)) {
+    issues.push(`sentiment must be one of ${SENTIMENT_TYPES.join(", ")}`);
+  }
+  if (
+    typeof value.confidence !== "number" ||
+    !Number.isFinite(value.confidence) ||
+    value.confidence < 0 ||
+    value.confidence > 1
+  ) {
+    issues.push("confidence must be a number between 0 and 1");
+  }
+  if (typeof value.reasoning !== "string") {
+    issues.push("reasoning must be a string");
+  }
+  return issues;
+};
+
+// Accepts 0.87, "0.87", 87 and "87%"; anything else is rejected.
+const repairConfidence = (value: unknown): number | null => {
+  const raw =
+    typeof value === "string" ? value.trim().replace(/%$/, "") : value;
+  const number = typeof raw === "string" && raw !== "" ? Number(raw) : raw;
+  if (typeof number !== "number" || !Number.isFinite(number)) return null;
+
+  const isPercentage =
+    number > 1 || (typeof value === "string" && value.trim().endsWith("%"));
+  const confidence = isPercentage ? number / 100 : number;
+  return confidence >= 0 && confidence <= 1 ? confidence : null;
+};
+
+const repairSentimentResult = (
+  value: unknown
+): ParsedSentimentResult | null => {
+  if (!isRecord(value)) return null;
+
+  const sentiment =
+    typeof value.sentiment === "string"
+      ? normalizeSentimentLabel(value.sentiment)
+      : null;
+  const confidence = repairConfidence(value.confidence);
+  if (!sentiment || confidence === null) return null;
+
+  return {
+    sentiment,
+    confidence,
+    reasoning: typeof value.reasoning === "string" ? value.reasoning : "",
+  };
+};
+
+// Aspects are an extra: malformed entries are dropped rather than failing a
+// verdict that is otherwise sound.
+const parseAspects = (value: unknown): AspectSentiment[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  return value.flatMap((item): AspectSentiment[] => {
+    if (!isRecord(item) || typeof item.aspect !== "string") return [];
+    const sentiment =
+      typeof item.sentiment === "string"
+        ? normalizeSentimentLabel(item.sentiment)
+        : null;
+    const confidence = repairConfidence(item.confidence);
+    if (!item.aspect.trim() || !sentiment || confidence === null) return [];
+
+    return [
+      {
+        aspect: item.aspect.trim(),
+        sentiment,
+        confidence,
+        span: typeof item.span === "string" ? item.span.trim() : "",
+      },
+    ];
+  });
+};
+
+// Known labels with a usable score are kept; normalising them to the
+// requested scheme is left to the caller.
+const parseEmotions = (value: unknown): EmotionProbabilities | undefined => {
+  if (!isRecord(value)) return undefined;
+
+  const emotions: EmotionProbabilities = {};
+  Object.entries(value).forEach(([label, score]) => {
+    const emotion = EMOTION_LABELS.plutchik.find(
+      (known) => known === label.trim().toLowerCase()
+    );
+    const probability = repairConfidence(score);
+    if (emotion && probability !== null) emotions[emotion] = probability;
+  });
+  return Object.keys(emotions).length > 0 ? emotions : undefined;
+};
+
+// Accepts -0.6 and "-0.6"; values outside [-1, 1] are dropped, leaving the
+// caller to derive a polarity from the label.
+const parsePolarity = (value: unknown): number | undefined => {
+  const number =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Math.abs(number) <= 1
+    ? number
+    : undefined;
+};
+
+// Verdicts are matched to sentences by position, so one malformed entry
+// drops the whole list rather than shifting the rest.
+const parseSentences = (value: unknown): SentenceVerdict[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  const verdicts = value.map((item): SentenceVerdict | null => {
+    const repaired = repairSentimentResult(item);
+    if (!repaired || !isRecord(item)) return null;
+    const polarity = parsePolarity(item.polarity);
+    return {
+      sentiment: repaired.sentiment,
+      confidence: repaired.confidence,
+      ...(polarity !== undefined && { polarity }),
+    };
+  });
+  return verdicts.every((verdict) => verdict !== null)
+    ? (verdicts as SentenceVerdict[])
+    : undefined;
+};
+
+const attachExtras = (
+  result: ParsedSentimentResult,
+  source: unknown
+): ParsedSentimentResult => {
+  const { sentiment, confidence, reasoning } = result;
+  if (!isRecord(source)) return { sentiment, confidence, reasoning };
+
+  const polarity = parsePolarity(source.polarity);
+  const aspects = parseAspects(source.aspects);
+  const emotions = parseEmotions(source.emotions);
+  const sentences = parseSentences(source.sentences);
+  return {
+    sentiment,
+    confidence,
+    reasoning,
+    ...(polarity !== undefined && { polarity }),
+    ...(aspects && { aspects }),
+    ...(emotions && { emotions }),
+    ...(sentences && { sentences }),
+  };
+};
+
+// Parsing utilities
+const tryParseJSON = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+};
+
+// Strips markdown fences and surrounding prose, and drops trailing commas.
+const extractJsonObject = (content: string): string | null => {
+  const unfenced = content.replace(/```(?:json)?/gi, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  return unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1");
+};
+
+// Last resort for free-text answers. Without an explicit sentiment label the
+// response is rejected rather than guessed.
+export const extractSentimentFromText = (
+  content: string
+): ParsedSentimentResult | null => {
+  const sentimentMatch =
+    /sentiment['"*:\s]*(?:is\s+)?['"]?(positive|negative|neutral)\b/i.exec(
+      content
+    );
+  if (!sentimentMatch) return null;
+
+  const confidenceMatch = /confidence['"*:\s]*(?:is\s+)?([0-9.]+\s*%?)/i.exec(
+    content
+  );
+
+  return {
+    sentiment: sentimentMatch[1].toLowerCase() as SentimentType,
+    confidence:
+      (confidenceMatch && repairConfidence(confidenceMatch[1])) ?? 0.5,
+    reasoning: "Recovered from an unstructured response",
+  };
+};
+
+export const parseSentimentValue = (value: unknown): SentimentParse => {
+  const issues = getValidationIssues(value);
+  if (issues.length === 0) {
+    return {
+      result: attachExtras(value as ParsedSentimentResult, value),
+      parseQuality: "clean",
+    };
+  }
+
+  const repaired = repairSentimentResult(value);
+  if (repaired) {
+    return { result: attachExtras(repaired, value), parseQuality: "repaired" };
+  }
+
+  throw new AnalysisError(
+    `Invalid sentiment response: ${issues.join("; ")}`,
+    "INVALID_RESPONSE"
+  );
+};
+
+export const parseSentimentResponse = (content: string): SentimentParse => {
+  const parsed = tryParseJSON(content);
+  if (parsed !== undefined && getValidationIssues(parsed).length === 0) {
+    return {
+      result: attachExtras(parsed as ParsedSentimentResult, parsed),
+      parseQuality: "clean",
+    };
+  }
+
+  const extracted = extractJsonObject(content);
+  const candidate =
+    parsed !== undefined ? parsed : extracted && tryParseJSON(extracted);
+  const repaired = repairSentimentResult(candidate);
+  if (repaired) {
+    return {
+      result: attachExtras(repaired, candidate),
+      parseQuality: "repaired",
+    };
+  }
+
+  const recovered = extractSentimentFromText(content);
+  if (recovered) return { result: recovered, parseQuality: "heuristic" };
+
+  throw new AnalysisError(
+    `Could not understand the model response: ${
+      candidate === undefined || candidate === null
+        ? "no JSON object or sentiment label found"
+        : getValidationIssues(candidate).join("; ")
+    }`,
+    "INVALID_RESPONSE"
+  );
+};
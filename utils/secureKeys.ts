@@ -0,0 +1,71 @@
+import { ProviderId } from "@/types/types";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+
+// Browsers have no keystore; keys fall back to plain local storage there.
+export const IS_KEY_STORAGE_SECURE = Platform.OS !== "web";
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_".
+const getKeyName = (provider: ProviderId): string =>
+  `sentiment-lab.api-key.${provider}`;
+
+// Key storage utilities
+export const loadApiKey = async (provider: ProviderId): Promise<string> => {
+  try {
+    const value = IS_KEY_STORAGE_SECURE
+      ? await SecureStore.getItemAsync(getKeyName(provider))
+      : await AsyncStorage.getItem(getKeyName(provider));
+    return value ?? "";
+  } catch {
+    return "";
+  }
+};
+
+// An empty key removes the stored entry.
+export const saveApiKey = async (
+  provider: ProviderId,
+  apiKey: string
+): Promise<void> => {
+  const name = getKeyName(provider);
+  const value = apiKey.trim();
+
+  if (IS_KEY_STORAGE_SECURE) {
+    await (value
+      ? SecureStore.setItemAsync(name, value, {
+          keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+        })
+      : SecureStore.deleteItemAsync(name));
+    return;
+  }
+  await (value
+    ? AsyncStorage.setItem(name, value)
+    : AsyncStorage.removeItem(name));
+};
+
+export const loadApiKeys = async (
+  providers: ProviderId[]
+): Promise<Partial<Record<ProviderId, string>>> => {
+  const keys = await Promise.all(providers.map(loadApiKey));
+  return Object.fromEntries(
+    providers.map((provider, index) => [provider, keys[index]])
+  );
+};
+
+// Masking utilities
+export const maskApiKey = (apiKey: string): string => {
+  const value = apiKey.trim();
+  if (value.length <= 8) return "•".repeat(value.length);
+  return `${value.slice(0, 4)}…${value.slice(-4)}`;
+};
+
+// OpenAI/Anthropic (sk-…), Hugging Face (hf_…) and bearer tokens.
+const SECRET_PATTERN =
+  /\b(sk-[A-Za-z0-9_-]{12,}|hf_[A-Za-z0-9]{12,})|(Bearer\s+)([A-Za-z0-9._~+/-]{12,})/g;
+
+export const redactSecrets = (text: string): string =>
+  text.replace(
+    SECRET_PATTERN,
+    (match, key: string | undefined, bearer: string | undefined, token) =>
+      key ? maskApiKey(key) : `${bearer}${maskApiKey(token)}`
+  );
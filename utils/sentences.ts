@@ -0,0 +1,170 @@
+import {
+  SENTIMENT_TYPES,
+  SentenceAggregate,
+  SentenceScore,
+  SentenceSpan,
+  SentimentProbabilities,
+  SentimentType,
+} from "@/types/types";
+
+// Full stops after these are not sentence ends.
+const ABBREVIATIONS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "dr",
+  "prof",
+  "sr",
+  "jr",
+  "st",
+  "vs",
+  "etc",
+  "e.g",
+  "i.e",
+  "approx",
+  "fig",
+  "no",
+  "inc",
+  "ltd",
+  "co",
+]);
+
+// Terminators, with any closing quotes or brackets, followed by whitespace or
+// the end of the text; "3.5" and "example.com" never match. Line breaks
+// always end a sentence, and "।" is the Devanagari full stop.
+const BOUNDARY_PATTERN = /[.!?।…]+["'”’)\]]*(?=\s|$)|\n/gu;
+
+const CONTENT_PATTERN = /[\p{L}\p{N}\p{Extended_Pictographic}]/u;
+
+// Intensity never reaches zero, so an all-neutral text still has a verdict.
+const MIN_SENTENCE_INTENSITY = 0.1;
+
+// Splitting utilities
+const isSentenceEnd = (text: string, index: number, match: string): boolean => {
+  if (match === "\n" || !match.startsWith(".") || /[!?।]/.test(match)) {
+    return true;
+  }
+
+  const previousWord = (/(\S+)$/.exec(text.slice(0, index))?.[1] ?? "")
+    .replace(/^["'“‘(\[]+/, "")
+    .toLowerCase();
+  if (ABBREVIATIONS.has(previousWord) || /^\p{L}$/u.test(previousWord)) {
+    return false;
+  }
+
+  // "e.g. the" and "approx. ten" carry on in lower case.
+  const nextChar = /\S/.exec(text.slice(index + match.length))?.[0] ?? "";
+  return !/\p{Ll}/u.test(nextChar);
+};
+
+// Splits text into sentences that, with their trailing whitespace, rebuild it
+// exactly (bar leading whitespace). Fragments without words, such as a lone
+// "...", stay with the sentence before them.
+export const splitSentences = (text: string): SentenceSpan[] => {
+  const pieces: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(BOUNDARY_PATTERN)) {
+    const index = match.index ?? 0;
+    if (!isSentenceEnd(text, index, match[0])) continue;
+
+    const end = index + match[0].length;
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+  pieces.push(text.slice(start));
+
+  return pieces.reduce<SentenceSpan[]>((spans, piece) => {
+    const leading = /^\s*/.exec(piece)?.[0] ?? "";
+    const body = piece.slice(leading.length);
+    const trimmed = body.trimEnd();
+    const trailing = body.slice(trimmed.length);
+    const previous = spans[spans.length - 1];
+
+    if (previous && !trimmed) {
+      previous.trailing += piece;
+      return spans;
+    }
+    if (previous && !CONTENT_PATTERN.test(trimmed)) {
+      previous.text += previous.trailing + leading + trimmed;
+      previous.trailing = trailing;
+      return spans;
+    }
+    if (previous) previous.trailing += leading;
+    if (trimmed) spans.push({ text: trimmed, trailing });
+    return spans;
+  }, []);
+};
+
+// Aggregation utilities
+// For engines that only report a label and its confidence; the remainder is
+// shared between the other two classes, and the label is kept the likeliest.
+export const labelProbabilities = (
+  sentiment: SentimentType,
+  confidence: number
+): SentimentProbabilities => {
+  const share = Math.max(confidence, 1 / SENTIMENT_TYPES.length);
+  const remainder = (1 - share) / (SENTIMENT_TYPES.length - 1);
+  return {
+    positive: sentiment === "positive" ? share : remainder,
+    negative: sentiment === "negative" ? share : remainder,
+    neutral: sentiment === "neutral" ? share : remainder,
+  };
+};
+
+const countWords = (text: string): number =>
+  Math.max(
+    1,
+    (text.match(/[\p{L}\p{N}\p{Extended_Pictographic}]+/gu) ?? []).length
+  );
+
+const argmax = (probabilities: SentimentProbabilities): SentimentType =>
+  SENTIMENT_TYPES.reduce((best, sentiment) =>
+    probabilities[sentiment] > probabilities[best] ? sentiment : best
+  );
+
+// Each sentence counts in proportion to its length in words times its
+// intensity (its positive plus negative probability), so long, opinionated
+// sentences carry the document and neutral filler barely dilutes them.
+export const aggregateSentenceScores = (
+  scores: SentenceScore[]
+): SentenceAggregate => {
+  const rawWeights = scores.map(
+    ({ span, probabilities }) =>
+      countWords(span.text) *
+      Math.max(
+        probabilities.positive + probabilities.negative,
+        MIN_SENTENCE_INTENSITY
+      )
+  );
+  const totalWeight = rawWeights.reduce((sum, weight) => sum + weight, 0);
+
+  const probabilities = SENTIMENT_TYPES.reduce(
+    (totals, sentiment) => ({
+      ...totals,
+      [sentiment]: scores.reduce(
+        (sum, score, index) =>
+          sum +
+          (score.probabilities[sentiment] * rawWeights[index]) / totalWeight,
+        0
+      ),
+    }),
+    { positive: 0, negative: 0, neutral: 0 }
+  );
+  const sentiment = argmax(probabilities);
+
+  return {
+    sentiment,
+    confidence: probabilities[sentiment],
+    probabilities,
+    sentences: scores.map(({ span, probabilities: sentence }, index) => {
+      const label = argmax(sentence);
+      return {
+        ...span,
+        sentiment: label,
+        confidence: sentence[label],
+        weight: rawWeights[index] / totalWeight,
+      };
+    }),
+  };
+};
@@ -0,0 +1,84 @@
+import { ProviderConfig, SettingsPreset } from "@/types/types";
+import { getDefaultProviderConfig } from "@/utils/providers";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+import { generateId } from "@/utils/utils";
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+export const MAX_TOKENS_RANGE = { min: 50, max: 2000, step: 50 };
+export const TIMEOUT_RANGE = { min: 5000, max: 120000, step: 5000 };
+export const MAX_RETRIES_RANGE = { min: 0, max: 5, step: 1 };
+export const CACHE_TTL_RANGE = {
+  min: 6 * 60 * 60 * 1000,
+  max: 7 * 24 * 60 * 60 * 1000,
+  step: 6 * 60 * 60 * 1000,
+};
+export const CACHE_SIZE_RANGE = { min: 20, max: 1000, step: 20 };
+
+export const PROMPT_PREVIEW_TEXT =
+  "The checkout was quick, but delivery took ages.";
+
+// Settings saved by older versions may lack newer fields, so they are laid
+// over the defaults for their provider.
+export const withConfigDefaults = (
+  stored: Partial<ProviderConfig> | null
+): ProviderConfig => {
+  const defaults = getDefaultProviderConfig(stored?.provider);
+  return {
+    ...defaults,
+    ...stored,
+    fallbackPolicy: { ...defaults.fallbackPolicy, ...stored?.fallbackPolicy },
+  };
+};
+
+export const formatCacheTtl = (ttlMs: number): string => {
+  const hours = Math.round(ttlMs / (60 * 60 * 1000));
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+};
+
+// Persistence utilities
+export const loadProviderConfig = async (): Promise<ProviderConfig> =>
+  withConfigDefaults(
+    await loadJSON<Partial<ProviderConfig> | null>(
+      STORAGE_KEYS.providerConfig,
+      null
+    )
+  );
+
+export const saveProviderConfig = (config: ProviderConfig): Promise<void> =>
+  saveJSON(STORAGE_KEYS.providerConfig, config);
+
+export const loadSettingsPresets = (): Promise<SettingsPreset[]> =>
+  loadJSON<SettingsPreset[]>(STORAGE_KEYS.settingsPresets, []);
+
+export const saveSettingsPresets = (presets: SettingsPreset[]): Promise<void> =>
+  saveJSON(STORAGE_KEYS.settingsPresets, presets);
+
+// A preset saved under an existing name replaces it.
+export const upsertSettingsPreset = (
+  presets: SettingsPreset[],
+  name: string,
+  config: ProviderConfig
+): SettingsPreset[] => {
+  const trimmed = name.trim();
+  const existing = presets.find(
+    (preset) => preset.name.toLowerCase() === trimmed.toLowerCase()
+  );
+
+  if (existing) {
+    return presets.map((preset) =>
+      preset.id === existing.id ? { ...preset, config } : preset
+    );
+  }
+  return [...presets, { id: generateId(), name: trimmed, config }];
+};
+
+// Validation utilities
+export const clampSetting = (
+  value: number,
+  range: { min: number; max: number; step: number }
+): number => {
+  const rounded = Math.round(value / range.step) * range.step;
+  return parseFloat(
+    Math.min(Math.max(rounded, range.min), range.max).toFixed(2)
+  );
+};
@@ -0,0 +1,27 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export const STORAGE_KEYS = {
+  trainingData: "sentiment-lab/training-data",
+  history: "sentiment-lab/history",
+  providerConfig: "sentiment-lab/provider-config",
+  settingsPresets: "sentiment-lab/settings-presets",
+  responseCache: "sentiment-lab/response-cache",
+  aspectSettings: "sentiment-lab/aspect-settings",
+  emotionMode: "sentiment-lab/emotion-mode",
+  ratingSettings: "sentiment-lab/rating-settings",
+  modelOptions: "sentiment-lab/model-options",
+};
+
+// Storage utilities
+export const loadJSON = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveJSON = async <T>(key: string, value: T): Promise<void> => {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+};
@@ -0,0 +1,213 @@
+import {
+  AnalysisError,
+  ClassifierPrediction,
+  PreprocessingOptions,
+  SENTIMENT_TYPES,
+  SentimentProbabilities,
+  SentimentType,
+  SimilarityItem,
+  SparseVector,
+  TfidfIndex,
+  TfidfVectorizer,
+  TokenContribution,
+  TrainingDataItem,
+} from "@/types/types";
+import { buildSourceLookup, scoreAgainstRivals } from "@/utils/explanations";
+import {
+  DEFAULT_PREPROCESSING_OPTIONS,
+  preprocessText,
+} from "@/utils/preprocessing";
+
+// Vectorizer utilities
+// Smoothed IDF as in scikit-learn: idf(t) = ln((1 + n) / (1 + df(t))) + 1
+export const buildTfidfVectorizer = (
+  documents: string[],
+  preprocessing: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): TfidfVectorizer => {
+  const documentFrequency: Record<string, number> = {};
+
+  documents.forEach((document) => {
+    new Set(preprocessText(document, preprocessing)).forEach((token) => {
+      documentFrequency[token] = (documentFrequency[token] ?? 0) + 1;
+    });
+  });
+
+  const idf: Record<string, number> = {};
+  Object.entries(documentFrequency).forEach(([token, frequency]) => {
+    idf[token] = Math.log((1 + documents.length) / (1 + frequency)) + 1;
+  });
+
+  return { idf, documentCount: documents.length, preprocessing };
+};
+
+// Returns an L2-normalised vector; tokens outside the vocabulary are dropped.
+export const vectorize = (
+  vectorizer: TfidfVectorizer,
+  text: string
+): SparseVector => {
+  const termFrequency: Record<string, number> = {};
+  preprocessText(text, vectorizer.preprocessing).forEach((token) => {
+    if (vectorizer.idf[token] === undefined) return;
+    termFrequency[token] = (termFrequency[token] ?? 0) + 1;
+  });
+
+  const vector: SparseVector = {};
+  Object.entries(termFrequency).forEach(([token, frequency]) => {
+    vector[token] = frequency * vectorizer.idf[token];
+  });
+
+  const norm = Math.sqrt(
+    Object.values(vector).reduce((sum, value) => sum + value * value, 0)
+  );
+  if (norm > 0) {
+    Object.keys(vector).forEach((token) => {
+      vector[token] /= norm;
+    });
+  }
+
+  return vector;
+};
+
+// Both vectors are non-negative and unit length, so the result is in [0, 1].
+export const cosineSimilarity = (a: SparseVector, b: SparseVector): number => {
+  const [smaller, larger] =
+    Object.keys(a).length <= Object.keys(b).length ? [a, b] : [b, a];
+
+  const dot = Object.entries(smaller).reduce(
+    (sum, [token, value]) => sum + value * (larger[token] ?? 0),
+    0
+  );
+
+  return Math.min(1, Math.max(0, dot));
+};
+
+// Index utilities
+export const buildTfidfIndex = (
+  trainingData: TrainingDataItem[],
+  preprocessing: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): TfidfIndex => {
+  if (trainingData.length === 0) {
+    throw new AnalysisError(
+      "Add some training data before running the model",
+      "MODEL_NOT_TRAINED"
+    );
+  }
+
+  const vectorizer = buildTfidfVectorizer(
+    trainingData.map((item) => item.text),
+    preprocessing
+  );
+
+  return {
+    vectorizer,
+    items: trainingData,
+    vectors: trainingData.map((item) => vectorize(vectorizer, item.text)),
+  };
+};
+
+const rankNeighbors = (
+  index: TfidfIndex,
+  query: SparseVector,
+  k: number
+): { position: number; similarity: number }[] =>
+  index.vectors
+    .map((vector, position) => ({
+      position,
+      similarity: cosineSimilarity(query, vector),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, Math.max(1, k));
+
+export const findNearestNeighbors = (
+  index: TfidfIndex,
+  text: string,
+  k: number
+): SimilarityItem[] =>
+  rankNeighbors(index, vectorize(index.vectorizer, text), k).map(
+    ({ position, similarity }) => ({ ...index.items[position], similarity })
+  );
+
+export const findBestMatch = (
+  text: string,
+  trainingData: TrainingDataItem[],
+  preprocessing: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): SimilarityItem =>
+  findNearestNeighbors(
+    buildTfidfIndex(trainingData, preprocessing),
+    text,
+    1
+  )[0];
+
+// Classification utilities
+export const classifyWithKnn = (
+  index: TfidfIndex,
+  text: string,
+  k: number
+): ClassifierPrediction => {
+  const neighbors = findNearestNeighbors(index, text, k);
+
+  const votes: SentimentProbabilities = {
+    positive: 0,
+    negative: 0,
+    neutral: 0,
+  };
+  neighbors.forEach((neighbor) => {
+    votes[neighbor.sentiment] += neighbor.similarity;
+  });
+
+  // With no vocabulary overlap the neighbours are arbitrary, so fall back to
+  // the class distribution of the whole training set instead.
+  if (neighbors.every((neighbor) => neighbor.similarity === 0)) {
+    index.items.forEach((item) => {
+      votes[item.sentiment] += 1;
+    });
+  }
+
+  const total = SENTIMENT_TYPES.reduce(
+    (sum, sentiment) => sum + votes[sentiment],
+    0
+  );
+  const probabilities: SentimentProbabilities = {
+    positive: votes.positive / total,
+    negative: votes.negative / total,
+    neutral: votes.neutral / total,
+  };
+
+  const sentiment = SENTIMENT_TYPES.reduce((best, current) =>
+    probabilities[current] > probabilities[best] ? current : best
+  );
+
+  return { sentiment, probabilities, neighbors };
+};
+
+// Explanation utilities
+// A token's part in each neighbour's cosine similarity (its weight in both
+// vectors) counts towards that neighbour's label.
+export const explainKnn = (
+  index: TfidfIndex,
+  text: string,
+  k: number,
+  verdict: SentimentType
+): TokenContribution[] => {
+  const query = vectorize(index.vectorizer, text);
+  const sources = buildSourceLookup(text, index.vectorizer.preprocessing);
+  const neighbors = rankNeighbors(index, query, k);
+
+  return Object.entries(query).flatMap(([token, weight]) => {
+    const evidence: SentimentProbabilities = {
+      positive: 0,
+      negative: 0,
+      neutral: 0,
+    };
+    neighbors.forEach(({ position }) => {
+      const overlap = weight * (index.vectors[position][token] ?? 0);
+      evidence[index.items[position].sentiment] += overlap;
+    });
+    if (SENTIMENT_TYPES.every((sentiment) => evidence[sentiment] === 0)) {
+      return [];
+    }
+    return [
+      scoreAgainstRivals(token, sources[token] ?? token, evidence, verdict),
+    ];
+  });
+};
@@ -0,0 +1,67 @@
+import { SEED_TRAINING_DATA } from "@/constants/TrainingData";
+import {
+  ClassBalance,
+  DatasetItem,
+  SentimentType,
+  TrainingDataItem,
+} from "@/types/types";
+import { loadJSON, saveJSON, STORAGE_KEYS } from "@/utils/storage";
+import { generateId } from "@/utils/utils";
+
+export const createDatasetItem = (item: TrainingDataItem): DatasetItem => ({
+  id: generateId(),
+  text: item.text.trim(),
+  sentiment: item.sentiment,
+  confidence: Math.min(Math.max(item.confidence, 0), 1),
+});
+
+export const getSeedTrainingData = (): DatasetItem[] =>
+  SEED_TRAINING_DATA.map(createDatasetItem);
+
+// Persistence utilities
+// The seed set is written on first launch so the model always has data to
+// train on; after that the stored copy is the source of truth.
+export const loadTrainingData = async (): Promise<DatasetItem[]> => {
+  const stored = await loadJSON<DatasetItem[] | null>(
+    STORAGE_KEYS.trainingData,
+    null
+  );
+  if (stored) return stored;
+
+  const seed = getSeedTrainingData();
+  await saveTrainingData(seed);
+  return seed;
+};
+
+export const saveTrainingData = (items: DatasetItem[]): Promise<void> =>
+  saveJSON(STORAGE_KEYS.trainingData, items);
+
+export const restoreSeedTrainingData = async (): Promise<DatasetItem[]> => {
+  const seed = getSeedTrainingData();
+  await saveTrainingData(seed);
+  return seed;
+};
+
+// Query utilities
+export const getClassBalance = (items: TrainingDataItem[]): ClassBalance =>
+  items.reduce<ClassBalance>(
+    (balance, item) => ({
+      ...balance,
+      [item.sentiment]: balance[item.sentiment] + 1,
+    }),
+    { positive: 0, negative: 0, neutral: 0 }
+  );
+
+export const searchTrainingData = (
+  items: DatasetItem[],
+  query: string,
+  sentiment: SentimentType | "all" = "all"
+): DatasetItem[] => {
+  const normalizedQuery = query.trim().toLowerCase();
+
+  return items.filter(
+    (item) =>
+      (sentiment === "all" || item.sentiment === sentiment) &&
+      (!normalizedQuery || item.text.toLowerCase().includes(normalizedQuery))
+  );
+};